@@ -6,13 +6,16 @@ import { useAuth } from './hooks/useAuth';
 import MainLayout from './components/layout/MainLayout';
 import HomePage from './pages/HomePage';
 import LoginPage from './pages/LoginPage';
+import SsoCallbackPage from './pages/SsoCallbackPage';
 import CoursesPage from './pages/CoursesPage';
 import CourseDetailPage from './pages/CourseDetailPage';
+import CourseLearnPage from './pages/CourseLearnPage';
 import MyCoursesPage from './pages/MyCoursesPage';
 import FavoritesPage from './pages/FavoritesPage';
 import LessonPlansPage from './pages/LessonPlansPage';
 import AiCourseBuilderPage from './pages/AiCourseBuilderPage';
 import ProfilePage from './pages/ProfilePage';
+import InstructorSubmissionsPage from './pages/InstructorSubmissionsPage';
 import * as Sentry from '@sentry/react';
 import ErrorBoundary from './components/ErrorBoundary';
 
@@ -45,6 +48,12 @@ function App() {
               errorElement={<ErrorBoundary />}
             />
 
+            <Route
+              path="/auth/callback/:provider"
+              element={<SsoCallbackPage />}
+              errorElement={<ErrorBoundary />}
+            />
+
             <Route path="/" element={<MainLayout />}>
               <Route
                 index
@@ -75,6 +84,16 @@ function App() {
                 errorElement={<ErrorBoundary />}
               />
 
+              <Route
+                path="courses/:courseId/learn"
+                element={
+                  <ProtectedRoute>
+                    <CourseLearnPage />
+                  </ProtectedRoute>
+                }
+                errorElement={<ErrorBoundary />}
+              />
+
               <Route
                 path="my-courses"
                 element={
@@ -115,6 +134,16 @@ function App() {
                 errorElement={<ErrorBoundary />}
               />
 
+              <Route
+                path="instructor/submissions"
+                element={
+                  <ProtectedRoute>
+                    <InstructorSubmissionsPage />
+                  </ProtectedRoute>
+                }
+                errorElement={<ErrorBoundary />}
+              />
+
               <Route
                 path="profile"
                 element={
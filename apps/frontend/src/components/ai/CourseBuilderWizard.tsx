@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { X, Sparkles, BookOpen, Users, Clock, Tag, Target, Loader2, Edit, Eye, Check } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
-import { Course, Lesson } from '../../types';
+import { Course, CourseLevel, Lesson } from '../../types';
 import { api } from '../../services/api';
 
 interface CourseBuilderWizardProps {
@@ -13,7 +13,7 @@ interface GeneratedCourse {
   title: string;
   description: string;
   category: string;
-  level: 'beginner' | 'intermediate' | 'advanced';
+  level: CourseLevel;
   duration: string;
   tags: string[];
   prerequisites: string[];
@@ -44,17 +44,13 @@ const CourseBuilderWizard: React.FC<CourseBuilderWizardProps> = ({ isOpen, onClo
         instructorId: user?.id 
       });
       
-      // Check if the AI tool successfully created the course
-      if (result.success) {
-        // Course was created directly by AI tool - show success
-        setCurrentStep('success');
-        setTimeout(() => {
-          onClose();
-          window.location.href = '/courses';
-        }, 2000);
-      } else {
-        throw new Error(result.details || 'AI failed to create course');
-      }
+      // Course was created directly by AI tool - show success. Failures
+      // arrive as an ApiError and are handled below.
+      setCurrentStep('success');
+      setTimeout(() => {
+        onClose();
+        window.location.href = `/courses/${result.course.id}`;
+      }, 2000);
     } catch (error) {
       console.error('Error generating course:', error);
       alert(`Failed to generate course: ${error instanceof Error ? error.message : 'Please try again.'}`);
@@ -68,7 +64,7 @@ const CourseBuilderWizard: React.FC<CourseBuilderWizardProps> = ({ isOpen, onClo
     setIsSubmitting(true);
     
     try {
-      await api.courses.create({
+      const course = await api.courses.create({
         ...editedCourse,
         instructorId: user?.id,
       });
@@ -76,7 +72,7 @@ const CourseBuilderWizard: React.FC<CourseBuilderWizardProps> = ({ isOpen, onClo
       setCurrentStep('success');
       setTimeout(() => {
         onClose();
-        window.location.href = '/courses';
+        window.location.href = `/courses/${course.id}`;
       }, 2000);
     } catch (error) {
       console.error('Error creating course:', error);
@@ -364,9 +360,9 @@ const CourseBuilderWizard: React.FC<CourseBuilderWizardProps> = ({ isOpen, onClo
             </div>
             <h3 className="text-xl font-semibold text-gray-900 mb-2">Course Created Successfully!</h3>
             <p className="text-gray-600 mb-4">
-              Your AI-generated course has been created and published directly to the course catalog using advanced AI tools.
+              Your AI-generated course has been saved as a draft. Review it, then submit it for review to publish it to the catalog.
             </p>
-            <p className="text-sm text-gray-500">Redirecting to courses page...</p>
+            <p className="text-sm text-gray-500">Redirecting to your course...</p>
           </div>
         );
 
@@ -0,0 +1,90 @@
+import React, { useCallback, useState } from 'react';
+import { Monitor, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+
+const isMobile = (device: string) => /iOS|Android/.test(device);
+
+const formatLastSeen = (timestamp: string) => {
+  const minutes = Math.round((Date.now() - new Date(timestamp).getTime()) / 60000);
+  if (minutes < 5) return 'Active now';
+  if (minutes < 60) return `Active ${minutes} minutes ago`;
+  if (minutes < 24 * 60) return `Active ${Math.round(minutes / 60)} hours ago`;
+  return `Active ${new Date(timestamp).toLocaleDateString()}`;
+};
+
+const ActiveSessions: React.FC = () => {
+  const getSessions = useCallback(() => api.sessions.list(), []);
+  const { data: sessions, loading, error, refetch } = useApi(getSessions);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevokingId(sessionId);
+    try {
+      await api.sessions.revoke(sessionId);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to sign out session:', err);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-2">
+        <h3 className="font-semibold text-gray-900">Active Sessions</h3>
+        <p className="text-sm text-gray-600">Devices currently signed in to your account</p>
+      </CardHeader>
+      <CardContent>
+        {loading && <p className="text-sm text-gray-500">Loading sessions...</p>}
+        {error && <p className="text-sm text-red-600">Failed to load sessions</p>}
+
+        <div className="space-y-4">
+          {sessions?.map((session) => (
+            <div key={session.id} className="flex items-start justify-between">
+              <div className="flex items-start">
+                <div className="bg-gray-100 p-2 rounded-full mr-3">
+                  {isMobile(session.device) ? (
+                    <Smartphone className="h-5 w-5 text-gray-600" />
+                  ) : (
+                    <Monitor className="h-5 w-5 text-gray-600" />
+                  )}
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {session.device}
+                    {session.current && (
+                      <Badge variant="success" size="sm" className="ml-2">
+                        This device
+                      </Badge>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {session.ipAddress || 'Unknown location'} · {formatLastSeen(session.lastSeenAt)}
+                  </p>
+                </div>
+              </div>
+
+              {!session.current && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  isLoading={revokingId === session.id}
+                  onClick={() => handleRevoke(session.id)}
+                >
+                  Sign out
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActiveSessions;
@@ -1,9 +1,14 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { GithubIcon, FileIcon as GoogleIcon, EyeIcon, EyeOffIcon } from 'lucide-react';
+import {
+  GithubIcon,
+  FileIcon as GoogleIcon,
+  EyeIcon,
+  EyeOffIcon,
+  KeyRoundIcon,
+} from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { Button } from '../ui/Button';
-import { fetchSSOUserCredentials, createAuthenticationToken } from '../../utils/fakeUserGenerator';
 
 const SSOButton: React.FC<{
   icon: React.ReactNode;
@@ -25,6 +30,8 @@ const SSOButton: React.FC<{
 );
 
 const LoginForm: React.FC = () => {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -32,8 +39,9 @@ const LoginForm: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const { login, ssoLogin } = useAuth();
+  const { login, register, startSsoLogin } = useAuth();
   const navigate = useNavigate();
+  const isSignUp = mode === 'signup';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -41,32 +49,41 @@ const LoginForm: React.FC = () => {
     setIsLoading(true);
 
     try {
-      await login(email, password);
+      if (isSignUp) {
+        await register(name, email, password);
+      } else {
+        await login(email, password);
+      }
       navigate('/');
     } catch (err: any) {
-      setError(err.message || 'Invalid credentials. Please try again.');
+      setError(
+        err.message ||
+          (isSignUp
+            ? 'Could not create your account. Please try again.'
+            : 'Invalid credentials. Please try again.')
+      );
     } finally {
       setIsLoading(false);
     }
   };
 
+  const switchMode = (nextMode: 'signin' | 'signup') => {
+    setMode(nextMode);
+    setError('');
+    if (nextMode === 'signup') {
+      setShowUsernamePassword(true);
+    }
+  };
+
   const handleSSO = async (provider: string) => {
     setError('');
     setIsLoading(true);
 
     try {
-      const userCredentials = fetchSSOUserCredentials(provider);
-      const loginSignature = createAuthenticationToken(userCredentials, provider);
-      
-      // TOFIX Module 1: SSO Login with missing login signature
-      await ssoLogin(provider);
-      
-      navigate('/');
-
+      // Leaves the page on success; the callback page finishes the login
+      await startSsoLogin(provider);
     } catch (err: any) {
-      setError(`Failed to login with ${provider} - issue with loginSignature`);
-      throw err;
-    } finally {
+      setError(err.message || `Failed to login with ${provider}`);
       setIsLoading(false);
     }
   };
@@ -75,7 +92,9 @@ const LoginForm: React.FC = () => {
     <div className="max-w-md w-full mx-auto bg-white rounded-xl shadow-lg p-8 border border-gray-200">
       <div className="mb-6 text-center">
         <h1 className="text-2xl font-bold text-gray-900">Welcome to Sentry Academy</h1>
-        <p className="text-gray-600 mt-2">Sign in to continue learning</p>
+        <p className="text-gray-600 mt-2">
+          {isSignUp ? 'Create an account to start learning' : 'Sign in to continue learning'}
+        </p>
       </div>
 
       {/* Primary SSO Login Options */}
@@ -94,6 +113,15 @@ const LoginForm: React.FC = () => {
           onClick={handleSSO}
           isLoading={isLoading}
         />
+        {import.meta.env.VITE_SSO_MOCK_PROVIDER === 'true' && (
+          <SSOButton
+            icon={<KeyRoundIcon size={20} />}
+            label="Continue with Mock SSO"
+            provider="mock"
+            onClick={handleSSO}
+            isLoading={isLoading}
+          />
+        )}
       </div>
 
       {/* Alternative Login Method Checkbox */}
@@ -117,7 +145,9 @@ const LoginForm: React.FC = () => {
               <div className="w-full border-t border-gray-300"></div>
             </div>
             <div className="relative flex justify-center text-sm">
-              <span className="px-2 bg-white text-gray-500">Username & Password</span>
+              <span className="px-2 bg-white text-gray-500">
+                {isSignUp ? 'Create Account' : 'Username & Password'}
+              </span>
             </div>
           </div>
 
@@ -128,6 +158,23 @@ const LoginForm: React.FC = () => {
               </div>
             )}
 
+            {isSignUp && (
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                  Full Name
+                </label>
+                <input
+                  id="name"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900"
+                  placeholder="Jane Doe"
+                  required
+                />
+              </div>
+            )}
+
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
                 Email Address
@@ -155,6 +202,7 @@ const LoginForm: React.FC = () => {
                   onChange={(e) => setPassword(e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 text-gray-900"
                   placeholder="•••••••••"
+                  minLength={isSignUp ? 8 : undefined}
                   required
                 />
                 <button
@@ -167,22 +215,28 @@ const LoginForm: React.FC = () => {
               </div>
             </div>
 
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <input
-                  id="remember-me"
-                  name="remember-me"
-                  type="checkbox"
-                  className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
-                />
-                <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-700">
-                  Remember me
-                </label>
+            {isSignUp ? (
+              <p className="text-xs text-gray-500">
+                Passwords must be at least 8 characters long.
+              </p>
+            ) : (
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="remember-me"
+                    name="remember-me"
+                    type="checkbox"
+                    className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                  />
+                  <label htmlFor="remember-me" className="ml-2 block text-sm text-gray-700">
+                    Remember me
+                  </label>
+                </div>
+                <a href="#" className="text-sm font-medium text-purple-600 hover:text-purple-800">
+                  Forgot password?
+                </a>
               </div>
-              <a href="#" className="text-sm font-medium text-purple-600 hover:text-purple-800">
-                Forgot password?
-              </a>
-            </div>
+            )}
 
             <Button
               type="submit"
@@ -190,7 +244,7 @@ const LoginForm: React.FC = () => {
               fullWidth
               isLoading={isLoading}
             >
-              Sign in
+              {isSignUp ? 'Create account' : 'Sign in'}
             </Button>
           </form>
         </>
@@ -205,10 +259,14 @@ const LoginForm: React.FC = () => {
         )}
 
         <p className="text-center text-sm text-gray-600">
-          Don't have an account?{' '}
-          <a href="#" className="font-medium text-purple-600 hover:text-purple-800">
-            Create one now
-          </a>
+          {isSignUp ? 'Already have an account?' : "Don't have an account?"}{' '}
+          <button
+            type="button"
+            onClick={() => switchMode(isSignUp ? 'signin' : 'signup')}
+            className="font-medium text-purple-600 hover:text-purple-800"
+          >
+            {isSignUp ? 'Sign in' : 'Create one now'}
+          </button>
         </p>
 
         <div className="mt-4 text-center">
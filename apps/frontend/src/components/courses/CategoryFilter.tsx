@@ -1,44 +0,0 @@
-import React from 'react';
-
-interface CategoryFilterProps {
-  categories: string[];
-  selectedCategory: string | null;
-  onSelectCategory: (category: string | null) => void;
-}
-
-const CategoryFilter: React.FC<CategoryFilterProps> = ({
-  categories,
-  selectedCategory,
-  onSelectCategory,
-}) => {
-  return (
-    <div className="flex flex-wrap gap-2 mb-6">
-      <button
-        onClick={() => onSelectCategory(null)}
-        className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
-          selectedCategory === null
-            ? 'bg-blue-600 text-white'
-            : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
-        }`}
-      >
-        All
-      </button>
-      
-      {categories.map(category => (
-        <button
-          key={category}
-          onClick={() => onSelectCategory(category)}
-          className={`px-4 py-2 rounded-full text-sm font-medium transition-colors ${
-            selectedCategory === category
-              ? 'bg-blue-600 text-white'
-              : 'bg-gray-100 text-gray-800 hover:bg-gray-200'
-          }`}
-        >
-          {category}
-        </button>
-      ))}
-    </div>
-  );
-};
-
-export default CategoryFilter;
\ No newline at end of file
@@ -0,0 +1,76 @@
+import React, { useCallback, useState } from 'react';
+import { Award, Download } from 'lucide-react';
+import type { Certificate } from '@sentry-academy/contracts';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Button } from '../ui/Button';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+
+const Certificates: React.FC = () => {
+  const getCertificates = useCallback(() => api.certificates.getMine(), []);
+  const { data: certificates, loading, error } = useApi(getCertificates);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+
+  const handleDownload = async (certificate: Certificate) => {
+    setDownloadingId(certificate.id);
+    try {
+      const blob = await api.certificates.download(certificate.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `certificate-${certificate.verificationCode}.svg`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download certificate:', err);
+      alert('Failed to download the certificate. Please try again.');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-4">
+        <h3 className="font-semibold text-gray-900">Certificates</h3>
+      </CardHeader>
+      <CardContent>
+        {loading && <p className="text-sm text-gray-500">Loading certificates...</p>}
+        {error && <p className="text-sm text-red-600">Failed to load certificates</p>}
+        {certificates && !certificates.length && (
+          <p className="text-sm text-gray-600">Complete every lesson in a course to earn its certificate.</p>
+        )}
+
+        <div className="space-y-4">
+          {certificates?.map((certificate) => (
+            <div key={certificate.id} className="flex items-center justify-between">
+              <div className="flex items-center">
+                <div className="bg-purple-100 text-purple-600 p-2 rounded-full mr-3">
+                  <Award className="h-5 w-5" />
+                </div>
+                <div>
+                  <p className="font-medium text-gray-900">{certificate.course.title}</p>
+                  <p className="text-sm text-gray-600">
+                    Issued {new Date(certificate.issuedAt).toLocaleDateString()} · {certificate.verificationCode}
+                  </p>
+                </div>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                leftIcon={<Download size={14} />}
+                isLoading={downloadingId === certificate.id}
+                onClick={() => handleDownload(certificate)}
+              >
+                Download
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Certificates;
@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CreditCard, Tag } from 'lucide-react';
+import type { OrderProblem, OrderQuote } from '@sentry-academy/contracts';
+import { Button } from '../ui/Button';
+import { api, ApiError } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+
+interface CheckoutProps {
+  courseId: string;
+  onPurchased: () => void;
+}
+
+// Test cards of the server's fake payment provider
+const TEST_CARDS = [
+  { value: 'fake_card_success', label: 'Succeeds' },
+  { value: 'fake_card_declined', label: 'Declined' },
+  { value: 'fake_card_insufficient_funds', label: 'Insufficient funds' },
+  { value: 'fake_card_async', label: 'Confirmed later' },
+  { value: 'fake_card_async_declined', label: 'Fails later' },
+];
+
+const PENDING_POLL_MS = 2000;
+
+const formatPrice = (amount: string, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(Number(amount));
+
+const Checkout: React.FC<CheckoutProps> = ({ courseId, onPurchased }) => {
+  const [couponCode, setCouponCode] = useState('');
+  const [couponQuote, setCouponQuote] = useState<OrderQuote | null>(null);
+  const [couponError, setCouponError] = useState('');
+  const [isApplying, setIsApplying] = useState(false);
+  const [paymentMethod, setPaymentMethod] = useState(TEST_CARDS[0].value);
+  const [isPaying, setIsPaying] = useState(false);
+  const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+  const [paymentError, setPaymentError] = useState('');
+
+  const getQuote = useCallback(() => api.orders.quote(courseId), [courseId]);
+  const { data: baseQuote, loading, error } = useApi(getQuote);
+  const quote = couponQuote || baseQuote;
+
+  // Payments the provider confirms later: check on the order until it settles
+  useEffect(() => {
+    if (!pendingOrderId) return;
+
+    const timer = setInterval(async () => {
+      try {
+        const order = await api.orders.get(pendingOrderId);
+        if (order.status === 'pending') return;
+
+        setPendingOrderId(null);
+        if (order.status === 'paid') {
+          onPurchased();
+        } else {
+          setPaymentError(order.failureReason || 'The payment failed');
+        }
+      } catch (err) {
+        console.error('Failed to check the order:', err);
+      }
+    }, PENDING_POLL_MS);
+
+    return () => clearInterval(timer);
+  }, [pendingOrderId, onPurchased]);
+
+  const applyCoupon = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!couponCode.trim()) return;
+
+    setIsApplying(true);
+    setCouponError('');
+    try {
+      setCouponQuote(await api.orders.quote(courseId, couponCode.trim()));
+    } catch (err) {
+      setCouponQuote(null);
+      setCouponError(err instanceof Error ? err.message : 'This coupon cannot be applied');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const removeCoupon = () => {
+    setCouponQuote(null);
+    setCouponCode('');
+    setCouponError('');
+  };
+
+  const handlePay = async () => {
+    setIsPaying(true);
+    setPaymentError('');
+    try {
+      const order = await api.orders.create({
+        courseId,
+        couponCode: couponQuote?.coupon?.code,
+        paymentMethod,
+      });
+      if (order.status === 'pending') {
+        setPendingOrderId(order.id);
+      } else {
+        onPurchased();
+      }
+    } catch (err) {
+      // An earlier payment for the course is still being confirmed
+      if (err instanceof ApiError && err.code === 'ORDER_PENDING') {
+        setPendingOrderId((err.problem as OrderProblem).orderId);
+      } else {
+        setPaymentError(err instanceof Error ? err.message : 'The payment failed');
+      }
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading price...</p>;
+  }
+
+  if (error || !quote) {
+    return <p className="text-sm text-red-600">This course can't be purchased right now.</p>;
+  }
+
+  return (
+    <div className="text-left space-y-4">
+      <dl className="space-y-1 text-sm">
+        <div className="flex justify-between text-gray-600">
+          <dt>Price</dt>
+          <dd>{formatPrice(quote.amount, quote.currency)}</dd>
+        </div>
+        {quote.coupon && (
+          <div className="flex justify-between text-green-700">
+            <dt>Coupon {quote.coupon.code}</dt>
+            <dd>-{formatPrice(quote.discount, quote.currency)}</dd>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold text-gray-900 pt-1 border-t">
+          <dt>Total</dt>
+          <dd>{formatPrice(quote.total, quote.currency)}</dd>
+        </div>
+      </dl>
+
+      {quote.coupon ? (
+        <button
+          type="button"
+          onClick={removeCoupon}
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Remove coupon
+        </button>
+      ) : (
+        <form onSubmit={applyCoupon} className="flex gap-2">
+          <div className="relative flex-1">
+            <Tag className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={couponCode}
+              onChange={(e) => setCouponCode(e.target.value)}
+              maxLength={50}
+              placeholder="Coupon code"
+              className="w-full border border-gray-300 rounded-md pl-9 pr-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <Button type="submit" variant="outline" isLoading={isApplying}>
+            Apply
+          </Button>
+        </form>
+      )}
+      {couponError && <p className="text-sm text-red-600">{couponError}</p>}
+
+      <label className="block text-sm text-gray-700">
+        Test card <span className="text-gray-500">(no real payment is made)</span>
+        <select
+          value={paymentMethod}
+          onChange={(e) => setPaymentMethod(e.target.value)}
+          className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {TEST_CARDS.map((card) => (
+            <option key={card.value} value={card.value}>
+              {card.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {paymentError && <p className="text-sm text-red-600">{paymentError}</p>}
+      {pendingOrderId ? (
+        <p className="text-sm text-gray-600">Waiting for the payment to be confirmed...</p>
+      ) : (
+        <Button
+          fullWidth
+          leftIcon={<CreditCard size={16} />}
+          isLoading={isPaying}
+          onClick={handlePay}
+        >
+          {Number(quote.total) > 0
+            ? `Pay ${formatPrice(quote.total, quote.currency)}`
+            : 'Enroll for free'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default Checkout;
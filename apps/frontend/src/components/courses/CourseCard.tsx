@@ -4,6 +4,7 @@ import { useNavigate } from 'react-router-dom';
 import { Course } from '../../types';
 import { Card, CardContent } from '../ui/Card';
 import { Badge } from '../ui/Badge';
+import HighlightedText from './HighlightedText';
 import { useAuth } from '../../hooks/useAuth';
 import { useUserState } from '../../hooks/useUserState';
 
@@ -67,6 +68,12 @@ const CourseCard: React.FC<CourseCardProps> = ({
       return;
     }
 
+    // Paid courses are bought at checkout on the learn page
+    if (Number(course.price) > 0) {
+      navigate(`/courses/${course.id}/learn`);
+      return;
+    }
+
     setIsEnrolling(true);
     try {
       await enrollInCourse(course);
@@ -86,7 +93,7 @@ const CourseCard: React.FC<CourseCardProps> = ({
     >
       <div className="relative h-40 overflow-hidden">
         <img
-          src={course.thumbnail}
+          src={course.thumbnail || undefined}
           alt={course.title}
           className="w-full h-full object-cover"
         />
@@ -115,12 +122,16 @@ const CourseCard: React.FC<CourseCardProps> = ({
       <CardContent className="space-y-3">
         <div className="flex justify-between items-start">
           <div>
-            <h3 className="font-semibold text-lg text-gray-900 line-clamp-2">{course.title}</h3>
+            <h3 className="font-semibold text-lg text-gray-900 line-clamp-2">
+              {course.titleHighlight ? <HighlightedText text={course.titleHighlight} /> : course.title}
+            </h3>
             <p className="text-sm text-gray-600 mt-1">By {course.instructor}</p>
           </div>
         </div>
 
-        <p className="text-sm text-gray-700 line-clamp-2">{course.description}</p>
+        <p className="text-sm text-gray-700 line-clamp-2">
+          {course.snippet ? <HighlightedText text={course.snippet} /> : course.description}
+        </p>
 
         <div className="flex items-center justify-between text-sm pt-2">
           <div className="flex items-center text-yellow-500">
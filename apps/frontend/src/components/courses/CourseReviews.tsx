@@ -0,0 +1,260 @@
+import React, { useCallback, useState } from 'react';
+import { Star } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Avatar } from '../ui/Avatar';
+import type { Review } from '@sentry-academy/contracts';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useUserState } from '../../hooks/useUserState';
+
+interface CourseReviewsProps {
+  courseId: string;
+}
+
+const PAGE_SIZE = 5;
+
+type ReviewSort = 'newest' | 'oldest' | 'highest' | 'lowest';
+
+const SORT_OPTIONS = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'highest', label: 'Highest rated' },
+  { value: 'lowest', label: 'Lowest rated' },
+];
+
+const StarRating: React.FC<{
+  rating: number;
+  onChange?: (rating: number) => void;
+}> = ({ rating, onChange }) => (
+  <div className="flex items-center">
+    {[1, 2, 3, 4, 5].map((value) => {
+      const star = (
+        <Star
+          className={`h-4 w-4 ${value <= rating ? 'text-yellow-500 fill-current' : 'text-gray-300'}`}
+        />
+      );
+
+      return onChange ? (
+        <button
+          key={value}
+          type="button"
+          aria-label={`${value} star${value > 1 ? 's' : ''}`}
+          className="p-0.5"
+          onClick={() => onChange(value)}
+        >
+          {star}
+        </button>
+      ) : (
+        <span key={value}>{star}</span>
+      );
+    })}
+  </div>
+);
+
+const CourseReviews: React.FC<CourseReviewsProps> = ({ courseId }) => {
+  const { isCourseEnrolled } = useUserState();
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<ReviewSort>('newest');
+  const [isEditing, setIsEditing] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState('');
+
+  const getReviews = useCallback(
+    () =>
+      api.reviews.getByCourse(courseId, {
+        page,
+        limit: PAGE_SIZE,
+        sort,
+      }),
+    [courseId, page, sort]
+  );
+  const { data, loading, error, refetch } = useApi(getReviews);
+
+  const myReview = data?.myReview;
+  const showForm = isCourseEnrolled(courseId) && (!myReview || isEditing);
+
+  const startEditing = (myReview: Review) => {
+    setRating(myReview.rating);
+    setComment(myReview.comment || '');
+    setFormError('');
+    setIsEditing(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!rating) {
+      setFormError('Please choose a rating');
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError('');
+    try {
+      const review = { rating, comment: comment.trim() || undefined };
+      if (myReview) {
+        await api.reviews.update(myReview.id, review);
+      } else {
+        await api.reviews.create(courseId, review);
+      }
+      setIsEditing(false);
+      setRating(0);
+      setComment('');
+      await refetch();
+    } catch (err) {
+      console.error('Failed to save review:', err);
+      setFormError('Failed to save your review. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (myReview: Review) => {
+    if (!confirm('Delete your review?')) {
+      return;
+    }
+
+    try {
+      await api.reviews.delete(myReview.id);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to delete review:', err);
+      alert('Failed to delete your review. Please try again.');
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-100 mt-8">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-bold">Reviews</h2>
+          {data && (
+            <div className="flex items-center mt-1 text-sm text-gray-600">
+              <StarRating rating={Math.round(Number(data.rating))} />
+              <span className="ml-2">
+                {Number(data.rating).toFixed(1)} · {data.reviewCount}{' '}
+                {data.reviewCount === 1 ? 'review' : 'reviews'}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <select
+          value={sort}
+          onChange={(e) => {
+            setSort(e.target.value as ReviewSort);
+            setPage(1);
+          }}
+          className="border border-gray-300 rounded-md text-sm px-3 py-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-8 p-4 bg-gray-50 rounded-lg">
+          <h3 className="font-semibold mb-2">{myReview ? 'Edit your review' : 'Write a review'}</h3>
+          <StarRating rating={rating} onChange={setRating} />
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            maxLength={2000}
+            rows={3}
+            placeholder="What did you think of this course?"
+            className="mt-3 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          {formError && <p className="text-sm text-red-600 mt-2">{formError}</p>}
+          <div className="flex gap-2 mt-3">
+            <Button type="submit" size="sm" isLoading={isSaving}>
+              {myReview ? 'Save changes' : 'Submit review'}
+            </Button>
+            {isEditing && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {myReview && !isEditing && (
+        <div className="mb-8 p-4 bg-purple-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">Your review</h3>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => startEditing(myReview)}>
+                Edit
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(myReview)}>
+                Delete
+              </Button>
+            </div>
+          </div>
+          <StarRating rating={myReview.rating} />
+          {myReview.comment && <p className="mt-2 text-gray-700">{myReview.comment}</p>}
+        </div>
+      )}
+
+      {loading && <p className="text-sm text-gray-500">Loading reviews...</p>}
+      {error && <p className="text-sm text-red-600">Failed to load reviews</p>}
+      {data && !data.reviews.length && (
+        <p className="text-gray-600">No reviews yet.</p>
+      )}
+
+      <div className="space-y-6">
+        {data?.reviews.map((review) => (
+          <div key={review.id} className="flex items-start">
+            <Avatar
+              src={review.user.avatarUrl || ''}
+              alt={review.user.name}
+              fallback={review.user.name}
+              className="mr-4 flex-shrink-0"
+            />
+            <div>
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-gray-900">{review.user.name}</span>
+                <span className="text-sm text-gray-500">
+                  {new Date(review.createdAt).toLocaleDateString()}
+                </span>
+              </div>
+              <StarRating rating={review.rating} />
+              {review.comment && <p className="mt-2 text-gray-700">{review.comment}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {data && data.pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between mt-6">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page <= 1}
+            onClick={() => setPage(page - 1)}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-gray-600">
+            Page {data.pagination.page} of {data.pagination.totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={page >= data.pagination.totalPages}
+            onClick={() => setPage(page + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourseReviews;
@@ -0,0 +1,65 @@
+import React, { useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { BookOpen } from 'lucide-react';
+import { CourseStatusBadge } from './CourseStatusPanel';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { Course } from '../../types';
+
+interface CourseStatusListProps {
+  title: string;
+  params: { status: string; instructorId?: string };
+  emptyMessage: string;
+}
+
+// Compact course list with lifecycle status, for instructors and reviewers
+const CourseStatusList: React.FC<CourseStatusListProps> = ({ title, params, emptyMessage }) => {
+  const { status, instructorId } = params;
+  const getCourses = useCallback(
+    () =>
+      api.courses.getAll({
+        status,
+        ...(instructorId && { instructorId }),
+      }),
+    [status, instructorId]
+  );
+  const { data: courses, loading, error } = useApi(getCourses);
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6">
+      <h2 className="text-xl font-bold text-gray-900 mb-4">{title}</h2>
+
+      {loading ? (
+        <p className="text-gray-500">Loading courses...</p>
+      ) : error ? (
+        <p className="text-red-600">Failed to load courses.</p>
+      ) : !courses?.length ? (
+        <div className="text-center py-12 text-gray-500">
+          <BookOpen size={48} className="mx-auto mb-4 text-gray-300" />
+          <p>{emptyMessage}</p>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {courses.map((course: Course) => (
+            <li key={course.id}>
+              <Link
+                to={`/courses/${course.id}`}
+                className="flex items-center justify-between py-3 hover:bg-gray-50 px-2 rounded"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{course.title}</p>
+                  <p className="text-sm text-gray-500">
+                    {course.category} · {course.instructor}
+                  </p>
+                </div>
+                {course.status && <CourseStatusBadge status={course.status} />}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CourseStatusList;
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Archive, CheckCircle, Send } from 'lucide-react';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { api } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+import { CourseStatus } from '../../types';
+
+interface CourseStatusPanelProps {
+  courseId: string;
+  instructorId: string;
+  status: CourseStatus;
+  sequential: boolean;
+  onChange: () => Promise<unknown>;
+}
+
+const STATUS_BADGES: Record<
+  CourseStatus,
+  { label: string; variant: 'default' | 'warning' | 'success' | 'error' }
+> = {
+  draft: { label: 'Draft', variant: 'default' },
+  in_review: { label: 'In review', variant: 'warning' },
+  published: { label: 'Published', variant: 'success' },
+  archived: { label: 'Archived', variant: 'error' },
+};
+
+export const CourseStatusBadge: React.FC<{ status: CourseStatus }> = ({ status }) => (
+  <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+);
+
+const DESCRIPTIONS: Record<CourseStatus, string> = {
+  draft: 'Only you and admins can see this course. Submit it for review when the lessons are ready.',
+  in_review: 'Waiting for an admin to review and publish this course.',
+  published: 'This course is live in the catalog.',
+  archived: 'This course is hidden from the catalog. Enrolled students keep access.',
+};
+
+type Action = 'submit' | 'publish' | 'archive';
+
+// Lifecycle controls and course settings shown to the course's instructor
+// and to admins
+const CourseStatusPanel: React.FC<CourseStatusPanelProps> = ({
+  courseId,
+  instructorId,
+  status,
+  sequential,
+  onChange,
+}) => {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<Action | 'sequential' | null>(null);
+  const [error, setError] = useState('');
+
+  const isAdmin = user?.role === 'admin';
+  if (!user || (!isAdmin && user.id !== instructorId)) {
+    return null;
+  }
+
+  const run = async (action: Action) => {
+    setPending(action);
+    setError('');
+    try {
+      await api.courses[action](courseId);
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the course');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const toggleSequential = async () => {
+    setPending('sequential');
+    setError('');
+    try {
+      await api.courses.update(courseId, { sequential: !sequential });
+      await onChange();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the course');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-100 mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="font-semibold text-gray-900">Course status</h2>
+        <CourseStatusBadge status={status} />
+      </div>
+      <p className="text-sm text-gray-600 mb-4">{DESCRIPTIONS[status]}</p>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        {status === 'draft' && (
+          <Button
+            size="sm"
+            leftIcon={<Send size={14} />}
+            isLoading={pending === 'submit'}
+            onClick={() => run('submit')}
+          >
+            Submit for review
+          </Button>
+        )}
+        {isAdmin && (status === 'in_review' || status === 'archived') && (
+          <Button
+            size="sm"
+            leftIcon={<CheckCircle size={14} />}
+            isLoading={pending === 'publish'}
+            onClick={() => run('publish')}
+          >
+            Publish
+          </Button>
+        )}
+        {status !== 'archived' && (
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<Archive size={14} />}
+            isLoading={pending === 'archive'}
+            onClick={() => run('archive')}
+          >
+            Archive
+          </Button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 mt-4 pt-4 border-t border-gray-100 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={sequential}
+          disabled={pending !== null}
+          onChange={toggleSequential}
+        />
+        Lessons unlock in order, each once the previous ones are complete
+      </label>
+    </div>
+  );
+};
+
+export default CourseStatusPanel;
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search highlights from the API, where matches are wrapped in
+// <mark> tags. Everything else is rendered as plain text.
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, className }) => {
+  const parts = text.split(/(<mark>.*?<\/mark>)/g);
+
+  return (
+    <span className={className}>
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">
+            {part.slice(6, -7)}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,116 @@
+import React, { useCallback, useState } from 'react';
+import { Receipt } from 'lucide-react';
+import type { OrderStatus, OrderWithCourse } from '@sentry-academy/contracts';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { Badge } from '../ui/Badge';
+import { Button } from '../ui/Button';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useUserState } from '../../hooks/useUserState';
+
+// Matches the server's refund window for buyers
+const REFUND_WINDOW_DAYS = 14;
+
+type BadgeVariant = 'warning' | 'success' | 'error' | 'default';
+
+const badges: Record<OrderStatus, { label: string; variant: BadgeVariant }> = {
+  pending: { label: 'Pending', variant: 'warning' },
+  paid: { label: 'Paid', variant: 'success' },
+  failed: { label: 'Failed', variant: 'error' },
+  refunding: { label: 'Refunding', variant: 'warning' },
+  refunded: { label: 'Refunded', variant: 'default' },
+};
+
+const formatTotal = (order: OrderWithCourse) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: order.currency }).format(
+    Number(order.total)
+  );
+
+const canRefund = (order: OrderWithCourse) =>
+  order.status === 'paid' &&
+  Date.now() - new Date(order.paidAt || order.createdAt).getTime() <
+    REFUND_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+const OrderHistory: React.FC = () => {
+  const { refreshEnrollments } = useUserState();
+  const getOrders = useCallback(() => api.orders.getMine(), []);
+  const { data: orders, loading, error, refetch } = useApi(getOrders);
+  const [refundingId, setRefundingId] = useState<string | null>(null);
+
+  const handleRefund = async (order: OrderWithCourse) => {
+    const message =
+      `Refund "${order.course.title}"? ` +
+      'You will lose access to the course and your progress in it.';
+    if (!confirm(message)) {
+      return;
+    }
+
+    setRefundingId(order.id);
+    try {
+      await api.orders.refund(order.id);
+      await Promise.all([refetch(), refreshEnrollments()]);
+    } catch (err) {
+      console.error('Failed to refund order:', err);
+      alert(err instanceof Error ? err.message : 'Failed to refund the order. Please try again.');
+    } finally {
+      setRefundingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-4">
+        <h3 className="font-semibold text-gray-900">Order history</h3>
+      </CardHeader>
+      <CardContent>
+        {loading && <p className="text-sm text-gray-500">Loading orders...</p>}
+        {error && <p className="text-sm text-red-600">Failed to load orders</p>}
+        {orders && !orders.length && (
+          <p className="text-sm text-gray-600">Courses you buy will show up here.</p>
+        )}
+
+        <div className="space-y-4">
+          {orders?.map((order) => {
+            const badge = badges[order.status];
+
+            return (
+              <div key={order.id} className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <div className="bg-blue-100 text-blue-600 p-2 rounded-full mr-3">
+                    <Receipt className="h-5 w-5" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-900">{order.course.title}</p>
+                    <p className="text-sm text-gray-600">
+                      {new Date(order.createdAt).toLocaleDateString()} · {formatTotal(order)}
+                      {Number(order.discount) > 0 && ' (coupon applied)'}
+                    </p>
+                    {order.status === 'failed' && order.failureReason && (
+                      <p className="text-sm text-red-600">{order.failureReason}</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                  {canRefund(order) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      isLoading={refundingId === order.id}
+                      onClick={() => handleRefund(order)}
+                    >
+                      Refund
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrderHistory;
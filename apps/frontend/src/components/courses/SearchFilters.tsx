@@ -0,0 +1,103 @@
+import React from 'react';
+import { CourseSearchFilters, CourseSearchResponse, SearchFacet } from '../../types';
+
+interface SearchFiltersProps {
+  facets?: CourseSearchResponse['facets'];
+  filters: CourseSearchFilters;
+  onChange: (filters: CourseSearchFilters) => void;
+}
+
+const LABELS: Record<string, string> = {
+  beginner: 'Beginner',
+  intermediate: 'Intermediate',
+  advanced: 'Advanced',
+  short: 'Under 5 hours',
+  medium: '5-10 hours',
+  long: 'Over 10 hours',
+};
+
+type ListFilter = 'level' | 'category' | 'duration';
+
+const SearchFilters: React.FC<SearchFiltersProps> = ({ facets, filters, onChange }) => {
+  const toggle = (key: ListFilter, value: string) => {
+    const selected = filters[key];
+    onChange({
+      ...filters,
+      [key]: selected.includes(value)
+        ? selected.filter((v) => v !== value)
+        : [...selected, value],
+    });
+  };
+
+  const hasFilters =
+    filters.level.length > 0 ||
+    filters.category.length > 0 ||
+    filters.duration.length > 0 ||
+    !!filters.minPrice ||
+    !!filters.maxPrice;
+
+  const renderFacet = (title: string, key: ListFilter, options: SearchFacet[] = []) => (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+      <div className="space-y-2">
+        {options.map((option) => (
+          <label key={option.value} className="flex items-center text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={filters[key].includes(option.value)}
+              onChange={() => toggle(key, option.value)}
+              className="h-4 w-4 rounded border-gray-300 text-purple-600 focus:ring-purple-500 mr-2"
+            />
+            <span className="flex-1">{LABELS[option.value] || option.value}</span>
+            <span className="text-gray-400">{option.count}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <aside className="bg-white rounded-lg shadow-sm border border-gray-100 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="font-semibold text-gray-900">Filters</h2>
+        {hasFilters && (
+          <button
+            onClick={() => onChange({ level: [], category: [], duration: [] })}
+            className="text-sm text-purple-600 hover:text-purple-800"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      {renderFacet('Category', 'category', facets?.categories)}
+      {renderFacet('Level', 'level', facets?.levels)}
+      {renderFacet('Duration', 'duration', facets?.durations)}
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 mb-2">Price</h3>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0}
+            value={filters.minPrice || ''}
+            placeholder={facets?.price.min != null ? `$${facets.price.min}` : 'Min'}
+            onChange={(e) => onChange({ ...filters, minPrice: e.target.value || undefined })}
+            className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <span className="text-gray-400">-</span>
+          <input
+            type="number"
+            min={0}
+            value={filters.maxPrice || ''}
+            placeholder={facets?.price.max != null ? `$${facets.price.max}` : 'Max'}
+            onChange={(e) => onChange({ ...filters, maxPrice: e.target.value || undefined })}
+            className="w-full border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default SearchFilters;
@@ -1,30 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
-import { Search, Bell, Menu } from 'lucide-react';
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Menu } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
 import { Avatar } from '../ui/Avatar';
 import { Button } from '../ui/Button';
-import { useDebounceCallback } from '../../hooks/useDebounce';
+import SearchBox from './SearchBox';
+import NotificationMenu from './NotificationMenu';
 
 const Navbar: React.FC = () => {
   const { user, logout } = useAuth();
   const navigate = useNavigate();
-  const location = useLocation();
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
-  const [searchParams] = useSearchParams();
-  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
-
-  // Initialize search query from URL on mount and when navigating to different pages
-  useEffect(() => {
-    const params = new URLSearchParams(location.search);
-    const searchParam = params.get('search') || '';
-    setSearchQuery(searchParam);
-  }, [location.pathname]); // Only when pathname changes, not on every search update
-
-  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    navigate(`/courses?search=${encodeURIComponent(e.target.value)}`);
-  };
-  const debouncedSearch = useDebounceCallback(handleSearchChange, 1000);
+  const [isNotificationMenuOpen, setIsNotificationMenuOpen] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -152,26 +139,27 @@ const Navbar: React.FC = () => {
     <header className="bg-white border-b border-gray-200 px-6 py-4">
       <div className="flex items-center justify-between">
         <div className="flex items-center flex-1 max-w-lg">
-          <div className="relative w-full">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
-            <input
-              type="text"
-              placeholder="Search courses..."
-              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
-              defaultValue={searchQuery}
-              onChange={debouncedSearch}
-            />
-          </div>
+          <SearchBox />
         </div>
 
         <div className="flex items-center space-x-4">
-          <button className="relative p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors">
-            <Bell size={20} />
-            {/* BUG: Show notification indicator based on user settings */}
-            {userSettings?.notifications && (
-              <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full"></span>
+          <div className="relative">
+            <button
+              onClick={() => setIsNotificationMenuOpen(!isNotificationMenuOpen)}
+              className="relative p-2 text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+              aria-label="Notifications"
+            >
+              <Bell size={20} />
+              {/* BUG: Show notification indicator based on user settings */}
+              {userSettings?.notifications && (
+                <span className="absolute -top-1 -right-1 w-3 h-3 bg-red-500 rounded-full"></span>
+              )}
+            </button>
+
+            {isNotificationMenuOpen && (
+              <NotificationMenu onClose={() => setIsNotificationMenuOpen(false)} />
             )}
-          </button>
+          </div>
 
           <div className="relative">
             <button
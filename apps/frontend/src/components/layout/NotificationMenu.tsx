@@ -0,0 +1,79 @@
+import React, { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Notification } from '@sentry-academy/contracts';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+
+interface NotificationMenuProps {
+  onClose: () => void;
+}
+
+const NotificationMenu: React.FC<NotificationMenuProps> = ({ onClose }) => {
+  const navigate = useNavigate();
+  const getNotifications = useCallback(() => api.notifications.getMine(), []);
+  const { data, loading, refetch } = useApi(getNotifications);
+
+  const openNotification = async (notification: Notification) => {
+    try {
+      if (!notification.readAt) {
+        await api.notifications.markRead(notification.id);
+      }
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err);
+    }
+    onClose();
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const markAllRead = async () => {
+    try {
+      await api.notifications.markAllRead();
+      await refetch();
+    } catch (err) {
+      console.error('Failed to mark notifications as read:', err);
+    }
+  };
+
+  return (
+    <div className="absolute right-0 mt-2 w-80 bg-white rounded-md shadow-lg z-10 border border-gray-200">
+      <div className="flex items-center justify-between px-4 py-2 border-b">
+        <span className="text-sm font-semibold text-gray-900">Notifications</span>
+        {!!data?.unreadCount && (
+          <button onClick={markAllRead} className="text-xs text-purple-600 hover:underline">
+            Mark all as read
+          </button>
+        )}
+      </div>
+
+      <div className="max-h-96 overflow-y-auto">
+        {loading ? (
+          <p className="px-4 py-3 text-sm text-gray-500">Loading...</p>
+        ) : !data?.notifications.length ? (
+          <p className="px-4 py-3 text-sm text-gray-500">You're all caught up</p>
+        ) : (
+          data.notifications.map((notification) => (
+            <button
+              key={notification.id}
+              onClick={() => openNotification(notification)}
+              className={`w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-gray-50 ${
+                notification.readAt ? '' : 'bg-purple-50'
+              }`}
+            >
+              <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+              {notification.body && (
+                <p className="text-xs text-gray-600 mt-1 line-clamp-2">{notification.body}</p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {new Date(notification.createdAt).toLocaleString()}
+              </p>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationMenu;
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { Search, BookOpen, Tag, Folder, User } from 'lucide-react';
+import { api } from '../../services/api';
+import { useDebounce } from '../../hooks/useDebounce';
+import { SearchSuggestion } from '../../types';
+
+const TYPE_ICONS = {
+  course: BookOpen,
+  category: Folder,
+  tag: Tag,
+  instructor: User,
+};
+
+const TYPE_LABELS = {
+  course: 'Course',
+  category: 'Category',
+  tag: 'Topic',
+  instructor: 'Instructor',
+};
+
+// Navbar search input with an autocomplete dropdown. Arrow keys move through
+// the suggestions, Enter picks one (or runs a full search), Escape closes.
+const SearchBox: React.FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [query, setQuery] = useState(
+    () => new URLSearchParams(location.search).get('search') || ''
+  );
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const debouncedQuery = useDebounce(query, 200);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Keep the box in sync with the URL, e.g. after navigating elsewhere
+  useEffect(() => {
+    setQuery(new URLSearchParams(location.search).get('search') || '');
+    setIsOpen(false);
+  }, [location.pathname, location.search]);
+
+  useEffect(() => {
+    const q = debouncedQuery.trim();
+    if (q.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    api.search
+      .suggest(q)
+      .then(({ suggestions }) => {
+        if (cancelled) return;
+        setSuggestions(suggestions);
+        setActiveIndex(-1);
+      })
+      .catch((error) => console.error('Failed to load search suggestions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, []);
+
+  const runSearch = (term: string) => {
+    setIsOpen(false);
+    navigate(`/courses?search=${encodeURIComponent(term)}`);
+  };
+
+  const selectSuggestion = (suggestion: SearchSuggestion) => {
+    if (suggestion.type === 'course' && suggestion.courseId) {
+      setIsOpen(false);
+      navigate(`/courses/${suggestion.courseId}`);
+      return;
+    }
+    setQuery(suggestion.label);
+    runSearch(suggestion.label);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const showing = isOpen && suggestions.length > 0;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        if (!suggestions.length) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((index) => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        if (!showing) return;
+        e.preventDefault();
+        setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (showing && activeIndex >= 0) {
+          selectSuggestion(suggestions[activeIndex]);
+        } else {
+          runSearch(query.trim());
+        }
+        break;
+      case 'Escape':
+        setIsOpen(false);
+        setActiveIndex(-1);
+        break;
+    }
+  };
+
+  const showDropdown = isOpen && suggestions.length > 0 && query.trim().length >= 2;
+
+  return (
+    <div ref={containerRef} className="relative w-full">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls="search-suggestions"
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? `search-suggestion-${activeIndex}` : undefined}
+        placeholder="Search courses..."
+        className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+      />
+
+      {showDropdown && (
+        <ul
+          id="search-suggestions"
+          role="listbox"
+          className="absolute left-0 right-0 mt-1 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-20"
+        >
+          {suggestions.map((suggestion, index) => {
+            const Icon = TYPE_ICONS[suggestion.type];
+            return (
+              <li
+                key={`${suggestion.type}-${suggestion.courseId || suggestion.label}`}
+                id={`search-suggestion-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={`flex items-center px-4 py-2 text-sm cursor-pointer ${
+                  index === activeIndex ? 'bg-purple-50 text-purple-900' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+                onMouseEnter={() => setActiveIndex(index)}
+                // mousedown so the input keeps focus until the selection is handled
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  selectSuggestion(suggestion);
+                }}
+              >
+                <Icon className="h-4 w-4 text-gray-400 mr-3 flex-shrink-0" />
+                <span className="flex-1 truncate">{suggestion.label}</span>
+                <span className="text-xs text-gray-400 ml-2">{TYPE_LABELS[suggestion.type]}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
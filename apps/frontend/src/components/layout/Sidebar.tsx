@@ -12,7 +12,8 @@ import {
   ChevronRight,
   Bookmark,
   GraduationCap,
-  Sparkles
+  Sparkles,
+  ClipboardCheck
 } from 'lucide-react';
 
 interface SidebarItemProps {
@@ -55,6 +56,7 @@ const Sidebar: React.FC<SidebarProps> = ({ className = '' }) => {
   const { user } = useAuth();
 
   const isActive = (path: string) => location.pathname === path;
+  const canBuildCourses = user?.role === 'instructor' || user?.role === 'admin';
 
   return (
     <div className={`h-screen bg-white border-r border-gray-200 flex flex-col transition-all duration-300 relative ${
@@ -114,13 +116,24 @@ const Sidebar: React.FC<SidebarProps> = ({ className = '' }) => {
           isActive={isActive('/lesson-plans')}
           isCollapsed={isCollapsed}
         />
-        <SidebarItem
-          to="/ai-course-builder"
-          icon={<Sparkles size={20} />}
-          label="AI Course Builder"
-          isActive={isActive('/ai-course-builder')}
-          isCollapsed={isCollapsed}
-        />
+        {canBuildCourses && (
+          <SidebarItem
+            to="/ai-course-builder"
+            icon={<Sparkles size={20} />}
+            label="AI Course Builder"
+            isActive={isActive('/ai-course-builder')}
+            isCollapsed={isCollapsed}
+          />
+        )}
+        {canBuildCourses && (
+          <SidebarItem
+            to="/instructor/submissions"
+            icon={<ClipboardCheck size={20} />}
+            label="Submissions"
+            isActive={isActive('/instructor/submissions')}
+            isCollapsed={isCollapsed}
+          />
+        )}
       </nav>
 
       <div className="border-t border-gray-200 px-2 py-3 space-y-1">
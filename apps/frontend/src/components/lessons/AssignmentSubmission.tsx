@@ -0,0 +1,177 @@
+import React, { useCallback, useState } from 'react';
+import { Upload as UploadIcon, X } from 'lucide-react';
+import type { AssignmentSubmission as Submission } from '@sentry-academy/contracts';
+import { Button } from '../ui/Button';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useAuth } from '../../hooks/useAuth';
+import SubmissionFiles from './SubmissionFiles';
+import SubmissionStatusBadge from './SubmissionStatusBadge';
+
+interface AssignmentSubmissionProps {
+  lessonId: string;
+}
+
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+
+const SubmissionSummary: React.FC<{ submission: Submission }> = ({ submission }) => (
+  <div className="border border-gray-200 rounded-lg p-4 space-y-2">
+    <div className="flex items-center justify-between">
+      <SubmissionStatusBadge status={submission.status} />
+      <span className="text-sm text-gray-500">
+        Submitted {new Date(submission.createdAt).toLocaleString()}
+      </span>
+    </div>
+    {submission.text && (
+      <p className="text-sm text-gray-700 whitespace-pre-wrap">{submission.text}</p>
+    )}
+    {submission.links.map((link) => (
+      <a
+        key={link}
+        href={link}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="block text-sm text-purple-700 hover:underline break-all"
+      >
+        {link}
+      </a>
+    ))}
+    <SubmissionFiles files={submission.files} />
+    {submission.grade !== null && (
+      <div className="pt-2 border-t border-gray-100 text-sm">
+        <p className="font-medium text-gray-900">Grade: {submission.grade}%</p>
+        {submission.feedback && (
+          <p className="text-gray-700 whitespace-pre-wrap mt-1">{submission.feedback}</p>
+        )}
+      </div>
+    )}
+  </div>
+);
+
+const AssignmentSubmission: React.FC<AssignmentSubmissionProps> = ({ lessonId }) => {
+  const { isAuthenticated } = useAuth();
+  const [text, setText] = useState('');
+  const [links, setLinks] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  const getSubmissions = useCallback(() => api.submissions.getMine(lessonId), [lessonId]);
+  const { data: submissions, loading, refetch } = useApi(getSubmissions, {
+    immediate: isAuthenticated,
+  });
+
+  const latest = submissions?.[0];
+  const canSubmit = isAuthenticated && (!latest || latest.status === 'needs_revision');
+
+  const addFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = Array.from(e.target.files || []);
+    const tooLarge = chosen.find((file) => file.size > MAX_FILE_BYTES);
+    if (tooLarge) {
+      setSubmitError(`${tooLarge.name} is larger than 10 MB`);
+    } else {
+      setFiles((current) => [...current, ...chosen]);
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setSubmitError('');
+    try {
+      const uploaded = await Promise.all(files.map((file) => api.uploads.upload(file)));
+      await api.submissions.submit(lessonId, {
+        text: text.trim() || undefined,
+        links: links
+          .split('\n')
+          .map((link) => link.trim())
+          .filter(Boolean),
+        fileIds: uploaded.map((file) => file.id),
+      });
+      setText('');
+      setLinks('');
+      setFiles([]);
+      await refetch();
+    } catch (err) {
+      console.error('Failed to submit assignment:', err);
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit your work');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading your submissions...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {!!submissions?.length && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Your submissions</h3>
+          {submissions.map((submission) => (
+            <SubmissionSummary key={submission.id} submission={submission} />
+          ))}
+        </div>
+      )}
+
+      {canSubmit && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {latest ? 'Submit a revision' : 'Submit your work'}
+          </h3>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            maxLength={10000}
+            rows={5}
+            placeholder="Describe your solution"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <textarea
+            value={links}
+            onChange={(e) => setLinks(e.target.value)}
+            rows={2}
+            placeholder="Links, one per line (e.g. a repository)"
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <div>
+            <label className="inline-flex items-center text-sm text-purple-700 cursor-pointer">
+              <UploadIcon className="h-4 w-4 mr-1" />
+              Attach files
+              <input type="file" multiple onChange={addFiles} className="hidden" />
+            </label>
+            {files.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="flex items-center text-sm text-gray-700">
+                {file.name}
+                <button
+                  type="button"
+                  onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                  className="ml-2 text-gray-400 hover:text-gray-600"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+          <Button
+            type="submit"
+            isLoading={isSubmitting}
+            disabled={!text.trim() && !links.trim() && !files.length}
+          >
+            Submit
+          </Button>
+        </form>
+      )}
+
+      {!isAuthenticated && (
+        <p className="text-sm text-gray-500">Sign in and enroll to submit this assignment.</p>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentSubmission;
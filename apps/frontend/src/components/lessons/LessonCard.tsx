@@ -1,5 +1,5 @@
 import React from 'react';
-import { Clock, Video, FileText, CheckCircle } from 'lucide-react';
+import { Clock, Video, FileText, CheckCircle, Lock } from 'lucide-react';
 import { Lesson } from '../../types';
 import { Card, CardContent } from '../ui/Card';
 
@@ -7,6 +7,8 @@ interface LessonCardProps {
   lesson: Lesson;
   isActive?: boolean;
   isCompleted?: boolean;
+  // Locked lessons are shown but can't be opened
+  isLocked?: boolean;
   onClick?: () => void;
 }
 
@@ -14,15 +16,18 @@ const LessonCard: React.FC<LessonCardProps> = ({
   lesson,
   isActive = false,
   isCompleted = false,
+  isLocked = false,
   onClick,
 }) => {
   return (
     <Card
       className={`mb-3 transition-colors duration-200 ${
         isActive ? 'border-2 border-blue-500' : ''
-      } ${isCompleted ? 'border-l-4 border-l-green-500' : ''}`}
-      onClick={onClick}
-      hoverEffect
+      } ${isCompleted ? 'border-l-4 border-l-green-500' : ''} ${
+        isLocked ? 'opacity-60 cursor-not-allowed' : ''
+      }`}
+      onClick={isLocked ? undefined : onClick}
+      hoverEffect={!isLocked}
     >
       <CardContent className="flex items-center justify-between py-4">
         <div className="flex items-center">
@@ -51,6 +56,11 @@ const LessonCard: React.FC<LessonCardProps> = ({
               <CheckCircle className="h-5 w-5" />
             </div>
           )}
+          {isLocked && (
+            <div className="text-gray-400" title="Complete the previous lessons first">
+              <Lock className="h-5 w-5" />
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
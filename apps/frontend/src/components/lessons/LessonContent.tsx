@@ -1,91 +1,138 @@
-import React from 'react';
+import React, { useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
 import Highlight from 'rehype-highlight';
+import type { LessonLockedProblem } from '@sentry-academy/contracts';
 import { Lesson } from '../../types';
+import { api, ApiError } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
 import { Card, CardContent } from '../ui/Card';
-import { Clock, Video, FileText } from 'lucide-react';
+import QuizPlayer from './QuizPlayer';
+import AssignmentSubmission from './AssignmentSubmission';
+import VideoPlayer, { type VideoPlayerHandle } from './VideoPlayer';
+import LessonUpsell from './LessonUpsell';
+import { Clock, FileText } from 'lucide-react';
 
 interface LessonContentProps {
   lesson: Lesson;
+  // Called when the lesson gets completed from within, e.g. by passing its quiz
+  onComplete?: () => void;
+  // Set while a video lesson's player is showing
+  playerRef?: React.Ref<VideoPlayerHandle>;
 }
 
-const LessonContent: React.FC<LessonContentProps> = ({ lesson }) => {
+const LOCKED_CODES = ['PAYMENT_REQUIRED', 'ENROLLMENT_REQUIRED'];
+
+const LessonContent: React.FC<LessonContentProps> = ({
+  lesson: listedLesson,
+  onComplete,
+  playerRef,
+}) => {
+  // Lesson lists only have previews of lessons the user can't open, so the
+  // content comes from the lesson itself, which answers 402/403 when locked
+  const getLesson = useCallback(() => api.lessons.getById(listedLesson.id), [listedLesson.id]);
+  const { data, loading, error } = useApi(getLesson);
+  const lesson = data?.id === listedLesson.id ? data : listedLesson;
+  const locked =
+    error instanceof ApiError && LOCKED_CODES.includes(error.code)
+      ? (error.problem as LessonLockedProblem)
+      : null;
+
+  const renderMarkdown = (content: string) => (
+    <div className="prose prose-lg max-w-none">
+      <ReactMarkdown
+        rehypePlugins={[Highlight]}
+        components={{
+          h1: ({ children }) => (
+            <h1 className="text-3xl font-bold text-gray-900 mt-8 mb-4 first:mt-0">
+              {children}
+            </h1>
+          ),
+          h2: ({ children }) => (
+            <h2 className="text-2xl font-semibold text-gray-900 mt-6 mb-3">
+              {children}
+            </h2>
+          ),
+          h3: ({ children }) => (
+            <h3 className="text-xl font-semibold text-gray-900 mt-4 mb-2">
+              {children}
+            </h3>
+          ),
+          p: ({ children }) => (
+            <p className="text-gray-700 mb-4 leading-relaxed">
+              {children}
+            </p>
+          ),
+          ul: ({ children }) => (
+            <ul className="list-disc list-inside mb-4 space-y-1">
+              {children}
+            </ul>
+          ),
+          ol: ({ children }) => (
+            <ol className="list-decimal list-inside mb-4 space-y-1">
+              {children}
+            </ol>
+          ),
+          li: ({ children }) => (
+            <li className="text-gray-700">
+              {children}
+            </li>
+          ),
+          strong: ({ children }) => (
+            <strong className="font-semibold text-gray-900">
+              {children}
+            </strong>
+          ),
+          blockquote: ({ children }) => (
+            <blockquote className="border-l-4 border-blue-500 pl-4 py-2 mb-4 bg-blue-50">
+              {children}
+            </blockquote>
+          ),
+        }}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+
   const renderContent = () => {
+    if (locked) {
+      return <LessonUpsell problem={locked} renderPreview={renderMarkdown} />;
+    }
+
+    if (loading) {
+      return <p className="text-sm text-gray-500">Loading lesson...</p>;
+    }
+
     if (lesson.type === 'video' && lesson.videoUrl) {
       return (
-        <div className="space-y-4">
-          <div className="aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
-            <div className="text-center">
-              <Video className="h-12 w-12 text-gray-400 mx-auto mb-2" />
-              <p className="text-gray-600">Video: {lesson.title}</p>
-              <p className="text-sm text-gray-500 mt-1">
-                Video URL: {lesson.videoUrl}
-              </p>
-            </div>
-          </div>
-        </div>
+        <VideoPlayer
+          key={lesson.id}
+          lessonId={lesson.id}
+          src={lesson.videoUrl}
+          title={lesson.title}
+          onComplete={onComplete}
+          playerRef={playerRef}
+        />
       );
     }
 
-    if (lesson.type === 'text' && lesson.content) {
+    if (lesson.type === 'quiz') {
+      return <QuizPlayer key={lesson.id} lessonId={lesson.id} onPassed={onComplete} />;
+    }
+
+    if (lesson.type === 'assignment') {
       return (
-        <div className="prose prose-lg max-w-none">
-          <ReactMarkdown
-            rehypePlugins={[Highlight]}
-            components={{
-              h1: ({ children }) => (
-                <h1 className="text-3xl font-bold text-gray-900 mt-8 mb-4 first:mt-0">
-                  {children}
-                </h1>
-              ),
-              h2: ({ children }) => (
-                <h2 className="text-2xl font-semibold text-gray-900 mt-6 mb-3">
-                  {children}
-                </h2>
-              ),
-              h3: ({ children }) => (
-                <h3 className="text-xl font-semibold text-gray-900 mt-4 mb-2">
-                  {children}
-                </h3>
-              ),
-              p: ({ children }) => (
-                <p className="text-gray-700 mb-4 leading-relaxed">
-                  {children}
-                </p>
-              ),
-              ul: ({ children }) => (
-                <ul className="list-disc list-inside mb-4 space-y-1">
-                  {children}
-                </ul>
-              ),
-              ol: ({ children }) => (
-                <ol className="list-decimal list-inside mb-4 space-y-1">
-                  {children}
-                </ol>
-              ),
-              li: ({ children }) => (
-                <li className="text-gray-700">
-                  {children}
-                </li>
-              ),
-              strong: ({ children }) => (
-                <strong className="font-semibold text-gray-900">
-                  {children}
-                </strong>
-              ),
-              blockquote: ({ children }) => (
-                <blockquote className="border-l-4 border-blue-500 pl-4 py-2 mb-4 bg-blue-50">
-                  {children}
-                </blockquote>
-              ),
-            }}
-          >
-            {lesson.content}
-          </ReactMarkdown>
+        <div className="space-y-6">
+          {lesson.content && renderMarkdown(lesson.content)}
+          <AssignmentSubmission key={lesson.id} lessonId={lesson.id} />
         </div>
       );
     }
 
+    if (lesson.type === 'text' && lesson.content) {
+      return renderMarkdown(lesson.content);
+    }
+
     return (
       <div className="text-center py-8">
         <FileText className="h-12 w-12 text-gray-400 mx-auto mb-2" />
@@ -6,6 +6,7 @@ interface LessonListProps {
   lessons: Lesson[];
   activeLessonId?: string;
   completedLessons?: string[];
+  lockedLessons?: string[];
   onSelectLesson: (lessonId: string) => void;
 }
 
@@ -13,6 +14,7 @@ const LessonList: React.FC<LessonListProps> = ({
   lessons,
   activeLessonId,
   completedLessons = [],
+  lockedLessons = [],
   onSelectLesson,
 }) => {
   return (
@@ -27,6 +29,7 @@ const LessonList: React.FC<LessonListProps> = ({
             lesson={lesson}
             isActive={activeLessonId === lesson.id}
             isCompleted={completedLessons.includes(lesson.id)}
+            isLocked={lockedLessons.includes(lesson.id)}
             onClick={() => onSelectLesson(lesson.id)}
           />
         ))}
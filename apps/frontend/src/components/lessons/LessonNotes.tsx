@@ -0,0 +1,263 @@
+import React, { useCallback, useState } from 'react';
+import { Download, Pencil, StickyNote, Trash2 } from 'lucide-react';
+import { markdownHeadings, type LessonNote } from '@sentry-academy/contracts';
+import { Lesson } from '../../types';
+import { Button } from '../ui/Button';
+import { Card, CardContent, CardHeader } from '../ui/Card';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import type { VideoPlayerHandle } from './VideoPlayer';
+
+interface LessonNotesProps {
+  courseId: string;
+  courseSlug: string;
+  lesson: Lesson;
+  playerRef: React.RefObject<VideoPlayerHandle | null>;
+}
+
+// What a new or edited note is anchored to: nothing, where the video is
+// now, or one of the lesson's headings
+const NO_ANCHOR = '';
+const VIDEO_ANCHOR = 'video';
+
+const formatVideoTime = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// Headings are anchored by their text, see markdownHeadings
+const scrollToHeading = (heading: string) => {
+  const element = Array.from(document.querySelectorAll('.prose :is(h1, h2, h3, h4, h5, h6)')).find(
+    (el) => el.textContent?.trim() === heading
+  );
+  element?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+};
+
+const LessonNotes: React.FC<LessonNotesProps> = ({ courseId, courseSlug, lesson, playerRef }) => {
+  const [content, setContent] = useState('');
+  const [anchor, setAnchor] = useState(NO_ANCHOR);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [saveError, setSaveError] = useState('');
+
+  const getNotes = useCallback(() => api.notes.getByLesson(lesson.id), [lesson.id]);
+  const { data: notes, loading, error, refetch } = useApi(getNotes);
+  const headings = markdownHeadings(lesson.content);
+  const isVideo = lesson.type === 'video';
+
+  const resetForm = () => {
+    setContent('');
+    setAnchor(NO_ANCHOR);
+    setEditingId(null);
+    setSaveError('');
+  };
+
+  const startEditing = (note: LessonNote) => {
+    setEditingId(note.id);
+    setContent(note.content);
+    setAnchor(note.videoTime !== null ? VIDEO_ANCHOR : (note.heading ?? NO_ANCHOR));
+    setSaveError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    const editing = notes?.find((note) => note.id === editingId);
+    // Edits keep the time they were anchored to unless the anchor changes
+    const videoTime =
+      anchor !== VIDEO_ANCHOR
+        ? null
+        : editing?.videoTime != null
+          ? editing.videoTime
+          : (playerRef.current?.currentTime() ?? 0);
+    const heading = anchor && anchor !== VIDEO_ANCHOR ? anchor : null;
+
+    setIsSaving(true);
+    setSaveError('');
+    try {
+      if (editingId) {
+        await api.notes.update(lesson.id, editingId, { content, videoTime, heading });
+      } else {
+        await api.notes.create(lesson.id, { content, videoTime, heading });
+      }
+      resetForm();
+      await refetch();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save the note');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (note: LessonNote) => {
+    if (!confirm('Delete this note?')) {
+      return;
+    }
+
+    try {
+      await api.notes.delete(lesson.id, note.id);
+      if (note.id === editingId) resetForm();
+      await refetch();
+    } catch (err) {
+      console.error('Failed to delete note:', err);
+      alert('Failed to delete the note. Please try again.');
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await api.notes.exportCourse(courseId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${courseSlug}-notes.md`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export notes:', err);
+      alert('Failed to export your notes. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const renderAnchor = (note: LessonNote) => {
+    if (note.videoTime !== null) {
+      const time = note.videoTime;
+      return (
+        <button
+          type="button"
+          onClick={() => playerRef.current?.seek(time)}
+          className="text-xs font-medium text-purple-700 hover:underline"
+        >
+          {formatVideoTime(time)}
+        </button>
+      );
+    }
+
+    if (note.heading !== null) {
+      const heading = note.heading;
+      return (
+        <button
+          type="button"
+          onClick={() => scrollToHeading(heading)}
+          className="text-xs font-medium text-purple-700 hover:underline text-left"
+        >
+          {heading}
+        </button>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center font-semibold text-gray-900">
+            <StickyNote className="h-4 w-4 mr-2" /> Notes
+          </h3>
+          <Button
+            variant="ghost"
+            size="sm"
+            leftIcon={<Download size={14} />}
+            isLoading={isExporting}
+            onClick={handleExport}
+          >
+            Export
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <textarea
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={3}
+            maxLength={10000}
+            placeholder="Write a note..."
+            className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          {(isVideo || headings.length > 0) && (
+            <select
+              value={anchor}
+              onChange={(e) => setAnchor(e.target.value)}
+              aria-label="Anchor the note to"
+              className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value={NO_ANCHOR}>Not anchored</option>
+              {isVideo && <option value={VIDEO_ANCHOR}>At the current video time</option>}
+              {headings.map((heading) => (
+                <option key={heading} value={heading}>
+                  On “{heading}”
+                </option>
+              ))}
+            </select>
+          )}
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" size="sm" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" size="sm" isLoading={isSaving} disabled={!content.trim()}>
+              {editingId ? 'Save note' : 'Add note'}
+            </Button>
+          </div>
+        </form>
+
+        {loading && <p className="text-sm text-gray-500">Loading notes...</p>}
+        {error && <p className="text-sm text-red-600">Failed to load notes</p>}
+        {notes && !notes.length && (
+          <p className="text-sm text-gray-600">Notes you take on this lesson will show up here.</p>
+        )}
+
+        <ul className="space-y-3">
+          {notes?.map((note) => (
+            <li
+              key={note.id}
+              className={`border rounded-md p-3 ${
+                note.id === editingId ? 'border-purple-300 bg-purple-50' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">{renderAnchor(note)}</div>
+                <div className="flex shrink-0 gap-1 text-gray-400">
+                  <button
+                    type="button"
+                    onClick={() => startEditing(note)}
+                    aria-label="Edit note"
+                    className="hover:text-gray-700"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(note)}
+                    aria-label="Delete note"
+                    className="hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap mt-1">{note.content}</p>
+              <p className="text-xs text-gray-500 mt-1">
+                {new Date(note.createdAt).toLocaleDateString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LessonNotes;
@@ -0,0 +1,59 @@
+import React, { useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { FileText, PlayCircle } from 'lucide-react';
+import HighlightedText from '../courses/HighlightedText';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+
+interface LessonSearchResultsProps {
+  query: string;
+}
+
+// Lessons whose content matches the search, linking straight to the lesson
+const LessonSearchResults: React.FC<LessonSearchResultsProps> = ({ query }) => {
+  const searchLessons = useCallback(() => api.search.lessons(query), [query]);
+  const { data } = useApi(searchLessons);
+
+  if (!data?.results.length) {
+    return null;
+  }
+
+  return (
+    <div className="mt-10">
+      <h2 className="text-xl font-bold text-gray-900 mb-1">Lessons</h2>
+      <p className="text-gray-600 mb-4">
+        {data.total} {data.total === 1 ? 'lesson covers' : 'lessons cover'} "{query}"
+      </p>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-100 divide-y divide-gray-100">
+        {data.results.map((lesson) => (
+          <Link
+            key={lesson.id}
+            to={`/courses/${lesson.course.id}?lesson=${lesson.id}`}
+            className="flex items-start p-4 hover:bg-gray-50 transition-colors"
+          >
+            {lesson.type === 'video' ? (
+              <PlayCircle className="h-5 w-5 text-purple-600 mr-3 mt-0.5 flex-shrink-0" />
+            ) : (
+              <FileText className="h-5 w-5 text-purple-600 mr-3 mt-0.5 flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900">{lesson.title}</p>
+              <p className="text-sm text-gray-500">
+                {lesson.course.title} · Lesson {lesson.order}
+                {lesson.duration && ` · ${lesson.duration}`}
+              </p>
+              {lesson.excerpt && (
+                <p className="text-sm text-gray-700 mt-1 line-clamp-2">
+                  <HighlightedText text={lesson.excerpt} />
+                </p>
+              )}
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LessonSearchResults;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import type { LessonLockedProblem } from '@sentry-academy/contracts';
+import { Button } from '../ui/Button';
+
+interface LessonUpsellProps {
+  problem: LessonLockedProblem;
+  // Renders the preview text the same way as unlocked lessons
+  renderPreview: (content: string) => React.ReactNode;
+}
+
+const LessonUpsell: React.FC<LessonUpsellProps> = ({ problem, renderPreview }) => {
+  const navigate = useNavigate();
+  const isPaid = problem.code === 'PAYMENT_REQUIRED';
+
+  return (
+    <div className="space-y-6">
+      {problem.preview.content && (
+        <div className="relative max-h-64 overflow-hidden">
+          {renderPreview(problem.preview.content)}
+          <div className="absolute inset-x-0 bottom-0 h-24 bg-gradient-to-t from-white"></div>
+        </div>
+      )}
+
+      <div className="text-center bg-purple-50 border border-purple-100 rounded-lg p-6">
+        <Lock className="h-10 w-10 text-purple-500 mx-auto mb-2" />
+        <h3 className="text-lg font-semibold text-gray-900">
+          {isPaid ? 'Unlock the full course' : 'Enroll to keep going'}
+        </h3>
+        <p className="text-gray-600 mt-1 mb-4">
+          {isPaid
+            ? `Get every lesson of this course for $${problem.price}.`
+            : 'This lesson is for students of the course. Enrolling is free.'}
+        </p>
+        <Button onClick={() => navigate(`/courses/${problem.courseId}/learn`)}>
+          {isPaid ? 'Buy course' : 'Enroll for free'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default LessonUpsell;
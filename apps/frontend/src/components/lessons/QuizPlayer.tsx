@@ -0,0 +1,198 @@
+import React, { useCallback, useState } from 'react';
+import { CheckCircle, HelpCircle, XCircle } from 'lucide-react';
+import type { GradedQuizAttempt, QuizQuestion } from '@sentry-academy/contracts';
+import { Button } from '../ui/Button';
+import { Badge } from '../ui/Badge';
+import { api } from '../../services/api';
+import { useApi } from '../../hooks/useApi';
+import { useAuth } from '../../hooks/useAuth';
+
+interface QuizPlayerProps {
+  lessonId: string;
+  onPassed?: () => void;
+}
+
+interface QuizResponse {
+  answerIds: string[];
+  text: string;
+}
+
+const emptyResponse: QuizResponse = { answerIds: [], text: '' };
+
+const QuizPlayer: React.FC<QuizPlayerProps> = ({ lessonId, onPassed }) => {
+  const { isAuthenticated } = useAuth();
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [result, setResult] = useState<GradedQuizAttempt | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState('');
+
+  const getQuiz = useCallback(() => api.quizzes.get(lessonId), [lessonId]);
+  const { data: quiz, loading, error } = useApi(getQuiz);
+
+  const responseFor = (questionId: string) => responses[questionId] || emptyResponse;
+
+  const setResponse = (questionId: string, response: Partial<QuizResponse>) => {
+    setResponses((current) => ({
+      ...current,
+      [questionId]: { ...(current[questionId] || emptyResponse), ...response },
+    }));
+  };
+
+  const toggleAnswer = (question: QuizQuestion, answerId: string) => {
+    const chosen = responseFor(question.id).answerIds;
+    if (question.type === 'single_choice') {
+      setResponse(question.id, { answerIds: [answerId] });
+    } else if (chosen.includes(answerId)) {
+      setResponse(question.id, { answerIds: chosen.filter((id) => id !== answerId) });
+    } else {
+      setResponse(question.id, { answerIds: [...chosen, answerId] });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!quiz) return;
+
+    setIsSubmitting(true);
+    setSubmitError('');
+    try {
+      const attempt = await api.quizzes.submitAttempt(lessonId, {
+        responses: quiz.questions.map((question) => ({
+          questionId: question.id,
+          ...(question.type === 'free_text'
+            ? { text: responseFor(question.id).text }
+            : { answerIds: responseFor(question.id).answerIds }),
+        })),
+      });
+      setResult(attempt);
+      if (attempt.passed) onPassed?.();
+    } catch (err) {
+      console.error('Failed to submit quiz:', err);
+      setSubmitError(err instanceof Error ? err.message : 'Failed to submit your answers');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const retry = () => {
+    setResult(null);
+    setResponses({});
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading quiz...</p>;
+  }
+
+  if (error || !quiz) {
+    return (
+      <div className="text-center py-8">
+        <HelpCircle className="h-12 w-12 text-gray-400 mx-auto mb-2" />
+        <p className="text-gray-600">This quiz isn't available yet</p>
+      </div>
+    );
+  }
+
+  const graded = (questionId: string) =>
+    result?.responses.find((response) => response.questionId === questionId);
+  const explanation = (questionId: string) =>
+    result?.explanations.find((item) => item.questionId === questionId)?.explanation;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-sm text-gray-600">
+        {quiz.questions.length} {quiz.questions.length === 1 ? 'question' : 'questions'} · Pass
+        with {quiz.passingScore}% or more
+      </p>
+
+      {quiz.questions.map((question, index) => {
+        const response = responseFor(question.id);
+        const outcome = graded(question.id);
+
+        return (
+          <fieldset
+            key={question.id}
+            disabled={!!result}
+            className="border border-gray-200 rounded-lg p-4"
+          >
+            <legend className="px-1 font-semibold text-gray-900">
+              {index + 1}. {question.prompt}
+            </legend>
+
+            {question.type === 'free_text' ? (
+              <textarea
+                value={response.text}
+                onChange={(e) => setResponse(question.id, { text: e.target.value })}
+                maxLength={2000}
+                rows={3}
+                placeholder="Your answer"
+                className="mt-2 w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+            ) : (
+              <div className="mt-2 space-y-2">
+                {question.type === 'multiple_choice' && (
+                  <p className="text-xs text-gray-500">Select all that apply</p>
+                )}
+                {question.answers.map((answer) => (
+                  <label key={answer.id} className="flex items-center gap-2 text-gray-700">
+                    <input
+                      type={question.type === 'single_choice' ? 'radio' : 'checkbox'}
+                      name={question.id}
+                      checked={response.answerIds.includes(answer.id)}
+                      onChange={() => toggleAnswer(question, answer.id)}
+                    />
+                    {answer.text}
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {outcome && (
+              <div className="mt-3 text-sm">
+                {outcome.correct ? (
+                  <span className="flex items-center text-green-700">
+                    <CheckCircle className="h-4 w-4 mr-1" /> Correct
+                  </span>
+                ) : (
+                  <span className="flex items-center text-red-700">
+                    <XCircle className="h-4 w-4 mr-1" /> Incorrect
+                  </span>
+                )}
+                {explanation(question.id) && (
+                  <p className="mt-1 text-gray-600">{explanation(question.id)}</p>
+                )}
+              </div>
+            )}
+          </fieldset>
+        );
+      })}
+
+      {result ? (
+        <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center gap-2">
+            <Badge variant={result.passed ? 'success' : 'error'}>
+              {result.passed ? 'Passed' : 'Not passed'}
+            </Badge>
+            <span className="text-gray-700">You scored {result.score}%</span>
+          </div>
+          {!result.passed && (
+            <Button type="button" variant="outline" size="sm" onClick={retry}>
+              Try again
+            </Button>
+          )}
+        </div>
+      ) : (
+        <div>
+          {submitError && <p className="text-sm text-red-600 mb-2">{submitError}</p>}
+          <Button type="submit" isLoading={isSubmitting} disabled={!isAuthenticated}>
+            Submit answers
+          </Button>
+          {!isAuthenticated && (
+            <p className="text-sm text-gray-500 mt-2">Sign in and enroll to take this quiz.</p>
+          )}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default QuizPlayer;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Paperclip } from 'lucide-react';
+import type { Upload } from '@sentry-academy/contracts';
+import { api } from '../../services/api';
+
+interface SubmissionFilesProps {
+  files: Upload[];
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.ceil(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Files need the auth header, so they are fetched and saved rather than linked
+const SubmissionFiles: React.FC<SubmissionFilesProps> = ({ files }) => {
+  const handleDownload = async (file: Upload) => {
+    try {
+      const blob = await api.uploads.download(file.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to download file:', err);
+      alert('Failed to download the file. Please try again.');
+    }
+  };
+
+  if (!files.length) return null;
+
+  return (
+    <ul className="space-y-1">
+      {files.map((file) => (
+        <li key={file.id}>
+          <button
+            type="button"
+            onClick={() => handleDownload(file)}
+            className="flex items-center text-sm text-purple-700 hover:underline"
+          >
+            <Paperclip className="h-4 w-4 mr-1" />
+            {file.filename}
+            <span className="ml-2 text-gray-500">{formatSize(file.size)}</span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SubmissionFiles;
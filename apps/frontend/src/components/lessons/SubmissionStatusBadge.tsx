@@ -0,0 +1,16 @@
+import React from 'react';
+import type { SubmissionStatus } from '@sentry-academy/contracts';
+import { Badge } from '../ui/Badge';
+
+const badges: Record<SubmissionStatus, { label: string; variant: 'warning' | 'success' | 'error' }> =
+  {
+    submitted: { label: 'Waiting for grading', variant: 'warning' },
+    passed: { label: 'Passed', variant: 'success' },
+    needs_revision: { label: 'Needs revision', variant: 'error' },
+  };
+
+const SubmissionStatusBadge: React.FC<{ status: SubmissionStatus }> = ({ status }) => (
+  <Badge variant={badges[status].variant}>{badges[status].label}</Badge>
+);
+
+export default SubmissionStatusBadge;
@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { CheckCircle, Video } from 'lucide-react';
+import { api, ApiError } from '../../services/api';
+import { useAuth } from '../../hooks/useAuth';
+
+interface VideoPlayerProps {
+  lessonId: string;
+  src: string;
+  title: string;
+  onComplete?: () => void;
+  playerRef?: React.Ref<VideoPlayerHandle>;
+}
+
+// Lets the lesson notes read and jump to positions in the video
+export interface VideoPlayerHandle {
+  currentTime: () => number;
+  seek: (seconds: number) => void;
+}
+
+const HEARTBEAT_INTERVAL_MS = 15_000;
+// The server accepts at most this much watch time per heartbeat
+const MAX_ELAPSED_SECONDS = 120;
+// Positions this close to the end start the video over instead of resuming
+const RESTART_WITHIN_SECONDS = 5;
+
+const VideoPlayer: React.FC<VideoPlayerProps> = ({
+  lessonId,
+  src,
+  title,
+  onComplete,
+  playerRef,
+}) => {
+  const { isAuthenticated } = useAuth();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const resumeFromRef = useRef<number | null>(null);
+  const lastTimeRef = useRef(0);
+  const unsentSecondsRef = useRef(0);
+  // Turned off when the server refuses heartbeats, e.g. when not enrolled
+  const trackingRef = useRef(isAuthenticated);
+  const [isCompleted, setIsCompleted] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Kept in a ref so a new callback doesn't restart the heartbeats
+  const onCompleteRef = useRef(onComplete);
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  useImperativeHandle(
+    playerRef,
+    () => ({
+      currentTime: () => Math.floor(videoRef.current?.currentTime ?? 0),
+      seek: (seconds) => {
+        const video = videoRef.current;
+        if (!video) return;
+        // Jumping before the saved position loads wins over resuming
+        resumeFromRef.current = null;
+        video.currentTime = seconds;
+        video.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      },
+    }),
+    []
+  );
+
+  const resume = useCallback(() => {
+    const video = videoRef.current;
+    const position = resumeFromRef.current;
+    if (!video || position === null || !Number.isFinite(video.duration)) return;
+
+    if (position > 0 && position < video.duration - RESTART_WITHIN_SECONDS) {
+      video.currentTime = position;
+    }
+    resumeFromRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    api.lessons
+      .getProgress(lessonId)
+      .then((progress) => {
+        setIsCompleted(!!progress?.completedAt);
+        resumeFromRef.current = progress?.lastPosition ?? null;
+        resume();
+      })
+      .catch((err) => console.error('Failed to load video progress:', err));
+  }, [lessonId, isAuthenticated, resume]);
+
+  const sendHeartbeat = useCallback(() => {
+    const video = videoRef.current;
+    if (!video || !trackingRef.current) return;
+
+    const elapsed = Math.min(Math.floor(unsentSecondsRef.current), MAX_ELAPSED_SECONDS);
+    unsentSecondsRef.current -= elapsed;
+
+    api.lessons
+      .heartbeat(lessonId, {
+        position: Math.floor(video.currentTime),
+        elapsed,
+        duration: Number.isFinite(video.duration) ? Math.ceil(video.duration) : undefined,
+      })
+      .then((progress) => {
+        // Set by the heartbeat that completed the lesson
+        if (progress.courseProgress !== null) onCompleteRef.current?.();
+        if (progress.completedAt) setIsCompleted(true);
+      })
+      .catch((err) => {
+        if (err instanceof ApiError && err.status < 500) {
+          trackingRef.current = false;
+        }
+        console.error('Failed to record watch time:', err);
+      });
+  }, [lessonId]);
+
+  // Heartbeats while playing, and a last one when leaving the lesson
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let interval: number | undefined;
+    const start = () => {
+      window.clearInterval(interval);
+      interval = window.setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+    };
+    const stop = () => {
+      window.clearInterval(interval);
+      sendHeartbeat();
+    };
+
+    video.addEventListener('play', start);
+    video.addEventListener('pause', stop);
+    video.addEventListener('ended', stop);
+    return () => {
+      video.removeEventListener('play', start);
+      video.removeEventListener('pause', stop);
+      video.removeEventListener('ended', stop);
+      window.clearInterval(interval);
+      if (!video.paused) sendHeartbeat();
+    };
+  }, [sendHeartbeat]);
+
+  // Counts only time actually played; seeking moves currentTime in bigger steps
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const delta = video.currentTime - lastTimeRef.current;
+    if (delta > 0 && delta < 2) {
+      unsentSecondsRef.current += delta / video.playbackRate;
+    }
+    lastTimeRef.current = video.currentTime;
+  };
+
+  if (loadFailed) {
+    return (
+      <div className="aspect-video bg-gray-100 rounded-lg flex items-center justify-center">
+        <div className="text-center">
+          <Video className="h-12 w-12 text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-600">This video can't be played here</p>
+          <a
+            href={src}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-purple-700 hover:underline mt-1 inline-block"
+          >
+            Open the video
+          </a>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <video
+        ref={videoRef}
+        src={src}
+        title={title}
+        controls
+        preload="metadata"
+        onLoadedMetadata={resume}
+        onTimeUpdate={handleTimeUpdate}
+        onSeeked={() => {
+          lastTimeRef.current = videoRef.current?.currentTime ?? 0;
+        }}
+        onError={() => setLoadFailed(true)}
+        className="w-full aspect-video bg-black rounded-lg"
+      />
+      {isCompleted && (
+        <p className="flex items-center text-sm text-green-700">
+          <CheckCircle className="h-4 w-4 mr-1" /> Watched
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VideoPlayer;
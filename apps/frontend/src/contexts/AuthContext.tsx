@@ -7,8 +7,10 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
+  register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
-  ssoLogin: (provider: string, loginSignature?: string) => Promise<void>;
+  startSsoLogin: (provider: string) => Promise<void>;
+  ssoLogin: (provider: string, code: string, state: string) => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -63,18 +65,45 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const ssoLogin = async (provider: string, loginSignature?: string): Promise<void> => {
+  const register = async (name: string, email: string, password: string): Promise<void> => {
     setIsLoading(true);
     try {
-      console.log('Initiating SSO login');
-      console.log('Login signature provided:', !!loginSignature);
+      const response = await authService.register({ name, email, password });
 
-      // WORKSHOP SCENARIO: Call SSO endpoint - will fail if loginSignature is missing
-      const response = await authService.ssoLogin(provider, {
-        loginSignature: loginSignature, // This is undefined when not provided by frontend
-        code: 'mock-oauth-code',
-        state: 'mock-state'
-      });
+      setUser(response.user);
+      setIsAuthenticated(true);
+      localStorage.setItem('user', JSON.stringify(response.user));
+      localStorage.setItem('authToken', response.token);
+
+      console.log('Registration successful');
+
+    } catch (error: any) {
+      console.error('Registration failed:', error);
+
+      setUser(null);
+      setIsAuthenticated(false);
+      localStorage.removeItem('user');
+      localStorage.removeItem('authToken');
+
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Sends the browser to the provider; it comes back to /auth/callback/:provider
+  const startSsoLogin = async (provider: string): Promise<void> => {
+    const redirectUri = `${window.location.origin}/auth/callback/${provider}`;
+    const { authorizationUrl } = await authService.getSsoAuthorizationUrl(provider, redirectUri);
+    window.location.assign(authorizationUrl);
+  };
+
+  const ssoLogin = async (provider: string, code: string, state: string): Promise<void> => {
+    setIsLoading(true);
+    try {
+      console.log(`Completing SSO login with ${provider}`);
+
+      const response = await authService.ssoLogin(provider, { code, state });
 
       console.log('SSO response received:', response);
 
@@ -125,7 +154,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         isLoading,
         isAuthenticated,
         login,
+        register,
         logout,
+        startSsoLogin,
         ssoLogin,
       }}
     >
@@ -1,4 +1,5 @@
 import React, { createContext, useState, useEffect, useCallback } from 'react';
+import type { Schemas } from '@sentry-academy/contracts';
 import { Course } from '../types';
 import { useAuth } from '../hooks/useAuth';
 import { api } from '../services/api';
@@ -20,9 +21,10 @@ interface UserStateContextType {
   profile: UserProfile;
   isCourseFavorited: (courseId: string) => boolean;
   isCourseEnrolled: (courseId: string) => boolean;
-  toggleFavorite: (course: Course) => void;
+  toggleFavorite: (course: Course) => Promise<void>;
   enrollInCourse: (course: Course) => Promise<void>;
-  unenrollFromCourse: (courseId: string) => void;
+  refreshEnrollments: () => Promise<void>;
+  unenrollFromCourse: (courseId: string) => Promise<void>;
   getEnrolledCourses: () => Course[];
   getFavoritedCourses: (allCourses: Course[]) => Course[];
   updateCourseProgress: (courseId: string, progress: number) => void;
@@ -33,48 +35,46 @@ const defaultProfile: UserProfile = {
   favoritesCourseIds: [],
 };
 
+const toUserEnrollment = (enrollment: Schemas['MyEnrollment']): UserEnrollment => ({
+  id: enrollment.id,
+  courseId: enrollment.courseId,
+  course: enrollment.course,
+  enrolledAt: enrollment.enrolledAt,
+  progress: enrollment.progress,
+});
+
 export const UserStateContext = createContext<UserStateContextType | undefined>(undefined);
 
 export const UserStateProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const { user, isAuthenticated } = useAuth();
   const [profile, setProfile] = useState<UserProfile>(defaultProfile);
 
-  // Generate storage key based on user ID
-  const getStorageKey = useCallback(() => {
-    return user?.id ? `userProfile_${user.id}` : null;
-  }, [user?.id]);
-
-  // Load user profile from localStorage when user changes
+  // Load enrollments and favorites from the server when the user changes
   useEffect(() => {
-    if (isAuthenticated && user?.id) {
-      const storageKey = getStorageKey();
-      if (storageKey) {
-        const storedProfile = localStorage.getItem(storageKey);
-        if (storedProfile) {
-          try {
-            const parsedProfile = JSON.parse(storedProfile);
-            setProfile(parsedProfile);
-          } catch (error) {
-            console.error('Failed to parse stored user profile:', error);
-            setProfile(defaultProfile);
-          }
-        }
-      }
-    } else {
+    if (!isAuthenticated || !user?.id) {
       // Clear profile when user logs out
       setProfile(defaultProfile);
+      return;
     }
-  }, [user?.id, isAuthenticated, getStorageKey]);
 
-  // Save profile to localStorage whenever it changes
-  useEffect(() => {
-    if (user?.id) {
-      const storageKey = getStorageKey();
-      if (storageKey) {
-        localStorage.setItem(storageKey, JSON.stringify(profile));
-      }
-    }
-  }, [profile, user?.id, getStorageKey]);
+    let cancelled = false;
+
+    Promise.all([api.users.getEnrollments(), api.users.getFavorites()])
+      .then(([enrollments, favorites]) => {
+        if (cancelled) return;
+        setProfile({
+          enrollments: enrollments.map(toUserEnrollment),
+          favoritesCourseIds: favorites.map(favorite => favorite.courseId),
+        });
+      })
+      .catch(error => {
+        console.error('Failed to load user profile:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, isAuthenticated]);
 
   const isCourseFavorited = useCallback((courseId: string): boolean => {
     return profile.favoritesCourseIds.includes(courseId);
@@ -84,28 +84,34 @@ export const UserStateProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     return profile.enrollments.some(enrollment => enrollment.courseId === courseId);
   }, [profile.enrollments]);
 
-  const toggleFavorite = useCallback((course: Course): void => {
+  // Favorites update optimistically and roll back if the server rejects the change
+  const toggleFavorite = useCallback(async (course: Course): Promise<void> => {
     if (!course.id) {
       throw new Error('Course ID is required');
     }
-    setProfile(prevProfile => {
-      const isFavorited = prevProfile.favoritesCourseIds.includes(course.id);
 
+    const isFavorited = profile.favoritesCourseIds.includes(course.id);
+    const setFavorited = (favorited: boolean) =>
+      setProfile(prevProfile => ({
+        ...prevProfile,
+        favoritesCourseIds: favorited
+          ? [...prevProfile.favoritesCourseIds.filter(id => id !== course.id), course.id]
+          : prevProfile.favoritesCourseIds.filter(id => id !== course.id),
+      }));
+
+    setFavorited(!isFavorited);
+
+    try {
       if (isFavorited) {
-        // Remove from favorites
-        return {
-          ...prevProfile,
-          favoritesCourseIds: prevProfile.favoritesCourseIds.filter(id => id !== course.id),
-        };
+        await api.users.removeFavorite(course.id);
       } else {
-        // Add to favorites
-        return {
-          ...prevProfile,
-          favoritesCourseIds: [...prevProfile.favoritesCourseIds, course.id],
-        };
+        await api.users.addFavorite(course.id);
       }
-    });
-  }, []);
+    } catch (error) {
+      console.error('Failed to update favorites:', error);
+      setFavorited(isFavorited);
+    }
+  }, [profile.favoritesCourseIds]);
 
   const enrollInCourse = useCallback(async (course: Course): Promise<void> => {
     // Check if already enrolled locally
@@ -114,18 +120,17 @@ export const UserStateProvider: React.FC<{ children: React.ReactNode }> = ({ chi
     }
 
     try {
-      // Call the API to create enrollment on the server
-      // Let the server validate user ID and return appropriate errors
-      await api.enrollments.create(course?.id, user?.id);
+      // Create the enrollment on the server; the signed-in user comes from the auth token
+      const enrollment = await api.enrollments.create(course.id);
 
-      // If API call succeeds, update local state
+      // If API call succeeds, update local state with the persisted enrollment
       setProfile(prevProfile => {
         const newEnrollment: UserEnrollment = {
-          id: `enrollment_${course.id}_${Date.now()}`,
+          id: enrollment.id,
           courseId: course.id,
           course: course,
-          enrolledAt: new Date().toISOString(),
-          progress: 0,
+          enrolledAt: enrollment.enrolledAt,
+          progress: enrollment.progress,
         };
 
         return {
@@ -138,15 +143,42 @@ export const UserStateProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       console.error('Failed to enroll in course:', error);
       throw error;
     }
-  }, [user?.id, profile.enrollments]);
+  }, [profile.enrollments]);
 
-  const unenrollFromCourse = useCallback((courseId: string): void => {
+  // Purchases and refunds enroll and unenroll on the server, so the list is
+  // reloaded rather than updated locally
+  const refreshEnrollments = useCallback(async (): Promise<void> => {
+    const enrollments = await api.users.getEnrollments();
     setProfile(prevProfile => ({
       ...prevProfile,
-      enrollments: prevProfile.enrollments.filter(enrollment => enrollment.courseId !== courseId),
+      enrollments: enrollments.map(toUserEnrollment),
     }));
   }, []);
 
+  // Unenrolling removes the course right away and restores it if the request fails
+  const unenrollFromCourse = useCallback(async (courseId: string): Promise<void> => {
+    const enrollment = profile.enrollments.find(e => e.courseId === courseId);
+    if (!enrollment) {
+      return;
+    }
+
+    setProfile(prevProfile => ({
+      ...prevProfile,
+      enrollments: prevProfile.enrollments.filter(e => e.id !== enrollment.id),
+    }));
+
+    try {
+      await api.enrollments.delete(enrollment.id);
+    } catch (error) {
+      console.error('Failed to unenroll from course:', error);
+      setProfile(prevProfile => ({
+        ...prevProfile,
+        enrollments: [...prevProfile.enrollments, enrollment],
+      }));
+      throw error;
+    }
+  }, [profile.enrollments]);
+
   const getEnrolledCourses = useCallback((): Course[] => {
     return profile.enrollments.map(enrollment => enrollment.course);
   }, [profile.enrollments]);
@@ -174,6 +206,7 @@ export const UserStateProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         isCourseEnrolled,
         toggleFavorite,
         enrollInCourse,
+        refreshEnrollments,
         unenrollFromCourse,
         getEnrolledCourses,
         getFavoritedCourses,
@@ -8,7 +8,7 @@ export const courses: Course[] = [
     description:
       'Learn the core concepts of observability and how to implement them in your applications. This course covers metrics, logs, and traces to give you a comprehensive understanding of modern monitoring practices.',
     instructor: 'Cody De Arkland',
-    rating: 4.9,
+    rating: '4.9',
     reviewCount: 128,
     thumbnail: 'https://images.pexels.com/photos/4050315/pexels-photo-4050315.jpeg',
     category: 'Observability',
@@ -49,7 +49,7 @@ export const courses: Course[] = [
     description:
       'Master the art of error tracking and debugging in complex applications. Learn how to capture, analyze, and resolve errors efficiently.',
     instructor: 'Kyle Tryon',
-    rating: 4.8,
+    rating: '4.8',
     reviewCount: 95,
     thumbnail: 'https://images.pexels.com/photos/2004161/pexels-photo-2004161.jpeg',
     category: 'Error Handling',
@@ -82,7 +82,7 @@ export const courses: Course[] = [
     description:
       'Learn how to identify and resolve performance bottlenecks in your applications using modern profiling tools and techniques.',
     instructor: 'Lazar Nikolov',
-    rating: 4.7,
+    rating: '4.7',
     reviewCount: 83,
     thumbnail: 'https://images.pexels.com/photos/3861969/pexels-photo-3861969.jpeg',
     category: 'Performance',
@@ -147,7 +147,7 @@ export const courses: Course[] = [
     description:
       'Understand and implement distributed tracing in microservice architectures to debug and optimize complex systems.',
     instructor: 'Paul Jaffre',
-    rating: 4.9,
+    rating: '4.9',
     reviewCount: 74,
     thumbnail: 'https://images.pexels.com/photos/1181467/pexels-photo-1181467.jpeg',
     category: 'Observability',
@@ -172,7 +172,7 @@ export const courses: Course[] = [
     description:
       'Learn how to effectively monitor and debug client-side errors in web applications.',
     instructor: 'Cody De Arkland',
-    rating: 4.6,
+    rating: '4.6',
     reviewCount: 62,
     thumbnail: 'https://images.pexels.com/photos/1181244/pexels-photo-1181244.jpeg',
     category: 'Error Handling',
@@ -197,7 +197,7 @@ export const courses: Course[] = [
     description:
       'Master the techniques of extracting valuable insights from application logs using modern analysis tools.',
     instructor: 'Kyle Tryon',
-    rating: 4.8,
+    rating: '4.8',
     reviewCount: 89,
     thumbnail: 'https://images.pexels.com/photos/577585/pexels-photo-577585.jpeg',
     category: 'Observability',
@@ -222,7 +222,7 @@ export const courses: Course[] = [
     description:
       'Learn the fundamentals of error monitoring and how to set up effective error tracking for your applications.',
     instructor: 'Lazar Nikolov',
-    rating: 4.8,
+    rating: '4.8',
     reviewCount: 156,
     thumbnail: 'https://images.pexels.com/photos/1181675/pexels-photo-1181675.jpeg',
     category: 'Error Handling',
@@ -271,7 +271,7 @@ export const courses: Course[] = [
     description:
       'Master session replay technology to understand user interactions and debug issues with complete context.',
     instructor: 'Paul Jaffre',
-    rating: 4.9,
+    rating: '4.9',
     reviewCount: 112,
     thumbnail: 'https://images.pexels.com/photos/4050315/pexels-photo-4050315.jpeg',
     category: 'Observability',
@@ -328,7 +328,7 @@ export const courses: Course[] = [
     description:
       'Deep dive into distributed tracing and spans to understand and optimize application performance across services.',
     instructor: 'Cody De Arkland',
-    rating: 4.7,
+    rating: '4.7',
     reviewCount: 94,
     thumbnail: 'https://images.pexels.com/photos/3861969/pexels-photo-3861969.jpeg',
     category: 'Performance',
@@ -393,7 +393,7 @@ export const courses: Course[] = [
     description:
       'Learn specialized observability techniques for AI and machine learning applications, including model monitoring and performance tracking.',
     instructor: 'Kyle Tryon',
-    rating: 4.9,
+    rating: '4.9',
     reviewCount: 87,
     thumbnail: 'https://images.pexels.com/photos/8386440/pexels-photo-8386440.jpeg',
     category: 'AI/ML',
@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { Plus, Sparkles, BookOpen, Clock, Users, Star } from 'lucide-react';
 import CourseBuilderWizard from '../components/ai/CourseBuilderWizard';
+import CourseStatusList from '../components/courses/CourseStatusList';
+import { useAuth } from '../hooks/useAuth';
 
 const AiCourseBuilderPage: React.FC = () => {
+  const { user } = useAuth();
   const [isWizardOpen, setIsWizardOpen] = useState(false);
 
   return (
@@ -100,23 +103,29 @@ const AiCourseBuilderPage: React.FC = () => {
             </div>
             <h3 className="text-lg font-semibold text-gray-900 mb-2">Review & Publish</h3>
             <p className="text-gray-600">
-              Preview your course, make any edits, and publish it to make it available to students.
+              Your course is saved as a draft. Submit it for review, and once an admin publishes it students can enroll.
             </p>
           </div>
         </div>
       </div>
 
-      {/* Recent AI-Generated Courses */}
-      <div className="bg-white rounded-lg border border-gray-200 p-6">
-        <div className="flex items-center justify-between mb-4">
-          <h2 className="text-xl font-bold text-gray-900">Recent AI-Generated Courses</h2>
-          <span className="text-sm text-gray-500">Coming soon...</span>
-        </div>
-        <div className="text-center py-12 text-gray-500">
-          <Sparkles size={48} className="mx-auto mb-4 text-gray-300" />
-          <p>Your AI-generated courses will appear here once created.</p>
-        </div>
-      </div>
+      {/* Courses awaiting an admin's review */}
+      {user?.role === 'admin' && (
+        <CourseStatusList
+          title="Awaiting Review"
+          params={{ status: 'in_review' }}
+          emptyMessage="No courses are waiting for review."
+        />
+      )}
+
+      {/* The instructor's own courses, drafts included */}
+      {user && (
+        <CourseStatusList
+          title="Your Courses"
+          params={{ status: 'all', instructorId: user.id }}
+          emptyMessage="Your courses will appear here once created."
+        />
+      )}
 
       {/* Course Builder Wizard Modal */}
       {isWizardOpen && (
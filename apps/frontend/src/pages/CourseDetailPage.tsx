@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import {
   Clock,
   Users,
@@ -14,15 +14,20 @@ import { Button } from '../components/ui/Button';
 import { Badge } from '../components/ui/Badge';
 import LessonList from '../components/lessons/LessonList';
 import LessonContent from '../components/lessons/LessonContent';
+import CourseReviews from '../components/courses/CourseReviews';
+import CourseStatusPanel from '../components/courses/CourseStatusPanel';
 import { api } from '../services/api';
 import { useApi } from '../hooks/useApi';
 
 const CourseDetailPage: React.FC = () => {
   const { courseId = '' } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
+  // Search results link to a specific lesson with ?lesson=<id>
+  const [searchParams] = useSearchParams();
+  const requestedLessonId = searchParams.get('lesson');
 
   const getCourse = useCallback(() => api.courses.getById(courseId), [courseId]);
-  const { data: course, loading } = useApi(getCourse);
+  const { data: course, loading, refetch } = useApi(getCourse);
 
   // Fallback to static data if API fails or course not found
   const [activeLesson, setActiveLesson] = useState<Lesson | null>(null);
@@ -31,11 +36,12 @@ const CourseDetailPage: React.FC = () => {
   useEffect(() => {
     if (!course) return;
 
-    // Set the first lesson as active by default
+    // Set the requested lesson (or the first one) as active by default
     if (course.lessons && course.lessons.length > 0 && !activeLesson) {
-      setActiveLesson(course.lessons[0]);
+      const requested = course.lessons.find((l: Lesson) => l.id === requestedLessonId);
+      setActiveLesson(requested || course.lessons[0]);
     }
-  }, [course, activeLesson]);
+  }, [course, activeLesson, requestedLessonId]);
 
   const getLevelBadgeVariant = (level: string) => {
     switch (level) {
@@ -51,7 +57,7 @@ const CourseDetailPage: React.FC = () => {
   };
 
   const handleSelectLesson = (lessonId: string) => {
-    const lesson = course.lessons?.find((l: Lesson) => l.id === lessonId);
+    const lesson = course?.lessons?.find((l: Lesson) => l.id === lessonId);
     if (lesson) {
       setActiveLesson(lesson);
     }
@@ -62,7 +68,8 @@ const CourseDetailPage: React.FC = () => {
     // In a real app, this would update the user's favorites in the database
   };
 
-  if (loading) {
+  // Keep the page up while refetching after a status change
+  if (loading && !course) {
     return (
       <div className="container mx-auto max-w-7xl">
         <div className="text-center py-12">
@@ -92,6 +99,14 @@ const CourseDetailPage: React.FC = () => {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
         {/* Main content */}
         <div className="lg:col-span-2">
+          <CourseStatusPanel
+            courseId={courseId}
+            instructorId={course.instructorId}
+            status={course.status}
+            sequential={course.sequential}
+            onChange={refetch}
+          />
+
           <div className="mb-6">
             <div className="flex flex-wrap gap-2 mb-3">
               <Badge variant="primary">{course.category}</Badge>
@@ -212,7 +227,7 @@ const CourseDetailPage: React.FC = () => {
             <div className="flex items-center">
               <img
                 src={course.instructorAvatar || "https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg"}
-                alt={course.instructor}
+                alt={course.instructor || undefined}
                 className="w-16 h-16 rounded-full object-cover mr-4"
               />
               <div>
@@ -229,6 +244,8 @@ const CourseDetailPage: React.FC = () => {
               <p className="mt-4 text-gray-700">{course.instructorBio}</p>
             )}
           </div>
+
+          <CourseReviews courseId={courseId} />
         </div>
 
         {/* Sidebar */}
@@ -0,0 +1,286 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { Button } from '../components/ui/Button';
+import LessonList from '../components/lessons/LessonList';
+import LessonContent from '../components/lessons/LessonContent';
+import LessonNotes from '../components/lessons/LessonNotes';
+import type { VideoPlayerHandle } from '../components/lessons/VideoPlayer';
+import Checkout from '../components/courses/Checkout';
+import { api } from '../services/api';
+import { useApi } from '../hooks/useApi';
+import { useUserState } from '../hooks/useUserState';
+
+// Lessons that complete themselves: quizzes by passing, assignments by a
+// passing grade
+const SELF_COMPLETING = ['quiz', 'assignment'];
+
+const CourseLearnPage: React.FC = () => {
+  const { courseId = '' } = useParams<{ courseId: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { enrollInCourse, refreshEnrollments } = useUserState();
+  const [isCompleting, setIsCompleting] = useState(false);
+  const [isEnrolling, setIsEnrolling] = useState(false);
+  const [actionError, setActionError] = useState('');
+  const [certificateId, setCertificateId] = useState<string | null>(null);
+  const playerRef = useRef<VideoPlayerHandle>(null);
+
+  const getCourse = useCallback(() => api.courses.getById(courseId), [courseId]);
+  const { data: course, loading, refetch: refetchCourse } = useApi(getCourse);
+  const enrollmentId = course?.enrollmentId;
+
+  const getProgress = useCallback(
+    () => (enrollmentId ? api.enrollments.getProgress(enrollmentId) : Promise.resolve(null)),
+    [enrollmentId]
+  );
+  const { data: progress, refetch: refetchProgress } = useApi(getProgress);
+
+  const refreshProgress = useCallback(() => {
+    refetchProgress().catch((err) => console.error('Failed to refresh progress:', err));
+  }, [refetchProgress]);
+
+  const handlePurchased = useCallback(() => {
+    Promise.all([refetchCourse(), refreshEnrollments()]).catch((err) =>
+      console.error('Failed to load the purchased course:', err)
+    );
+  }, [refetchCourse, refreshEnrollments]);
+
+  if (loading && !course) {
+    return (
+      <div className="container mx-auto max-w-7xl">
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading course...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!course) {
+    return (
+      <div className="container mx-auto max-w-7xl">
+        <div className="text-center py-16">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Course Not Found</h2>
+          <Button onClick={() => navigate('/courses')}>Browse All Courses</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const handleEnroll = async () => {
+    setIsEnrolling(true);
+    setActionError('');
+    try {
+      await enrollInCourse(course);
+      await refetchCourse();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to enroll');
+    } finally {
+      setIsEnrolling(false);
+    }
+  };
+
+  if (!enrollmentId && Number(course.price) > 0) {
+    return (
+      <div className="container mx-auto max-w-md">
+        <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-100">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{course.title}</h1>
+          <p className="text-gray-600 mb-6">Buy this course to start learning.</p>
+          <Checkout courseId={course.id} onPurchased={handlePurchased} />
+          <button
+            type="button"
+            onClick={() => navigate(`/courses/${courseId}`)}
+            className="mt-4 text-sm text-gray-600 hover:underline"
+          >
+            Back to course
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!enrollmentId) {
+    return (
+      <div className="container mx-auto max-w-3xl">
+        <div className="bg-white p-8 rounded-lg text-center shadow-sm border border-gray-100">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{course.title}</h1>
+          <p className="text-gray-600 mb-6">Enroll in this course to start learning.</p>
+          {actionError && <p className="text-sm text-red-600 mb-4">{actionError}</p>}
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" onClick={() => navigate(`/courses/${courseId}`)}>
+              Back to course
+            </Button>
+            <Button isLoading={isEnrolling} onClick={handleEnroll}>
+              Enroll
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const lessons = course.lessons;
+  const lessonProgress = progress?.lessons || [];
+  const completedIds = lessonProgress.filter((lesson) => lesson.completed).map((l) => l.id);
+  const lockedIds = lessonProgress.filter((lesson) => lesson.locked).map((l) => l.id);
+
+  // The requested lesson, or where the student left off
+  const activeIndex = Math.max(
+    0,
+    lessons.findIndex((lesson) =>
+      searchParams.get('lesson')
+        ? lesson.id === searchParams.get('lesson')
+        : !completedIds.includes(lesson.id)
+    )
+  );
+  const activeLesson = lessons[activeIndex];
+  const previousLesson = lessons[activeIndex - 1];
+  const nextLesson = lessons[activeIndex + 1];
+  const isActiveLocked = !!activeLesson && lockedIds.includes(activeLesson.id);
+  const isActiveCompleted = !!activeLesson && completedIds.includes(activeLesson.id);
+
+  const selectLesson = (lessonId: string) => {
+    setActionError('');
+    setSearchParams({ lesson: lessonId });
+  };
+
+  const markComplete = async () => {
+    if (!activeLesson) return;
+
+    setIsCompleting(true);
+    setActionError('');
+    try {
+      const completion = await api.lessons.markComplete(activeLesson.id);
+      setCertificateId(completion.certificateId);
+      await refetchProgress();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to complete the lesson');
+    } finally {
+      setIsCompleting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto max-w-7xl">
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <aside className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-100 sticky top-6">
+            <div className="p-4 border-b border-gray-100">
+              <Link
+                to={`/courses/${courseId}`}
+                className="flex items-center text-sm text-gray-500 hover:text-gray-700 mb-2"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" /> Course overview
+              </Link>
+              <h1 className="font-semibold text-gray-900">{course.title}</h1>
+              {progress && (
+                <div className="mt-3">
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-green-500 h-2 rounded-full"
+                      style={{ width: `${progress.progressPercentage}%` }}
+                    ></div>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {progress.completedLessons} of {progress.totalLessons} lessons complete
+                  </p>
+                </div>
+              )}
+            </div>
+            <LessonList
+              lessons={lessons}
+              activeLessonId={activeLesson?.id}
+              completedLessons={completedIds}
+              lockedLessons={lockedIds}
+              onSelectLesson={selectLesson}
+            />
+          </div>
+        </aside>
+
+        <main className="lg:col-span-3">
+          {certificateId && (
+            <div className="bg-green-50 border border-green-200 text-green-800 rounded-lg p-4 mb-6">
+              You completed this course! Your certificate is on your{' '}
+              <Link to="/profile" className="underline">
+                profile
+              </Link>
+              .
+            </div>
+          )}
+
+          {!activeLesson ? (
+            <p className="text-gray-600">This course has no lessons yet.</p>
+          ) : isActiveLocked ? (
+            <div className="bg-white p-8 rounded-lg text-center shadow-sm border border-gray-100">
+              <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">{activeLesson.title}</h2>
+              <p className="text-gray-600">
+                This course is taken in order. Complete the previous lessons to unlock this one.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+              <div className="xl:col-span-2">
+                <LessonContent
+                  lesson={activeLesson}
+                  onComplete={refreshProgress}
+                  playerRef={playerRef}
+                />
+              </div>
+              <div className="xl:col-span-1">
+                <LessonNotes
+                  key={activeLesson.id}
+                  courseId={course.id}
+                  courseSlug={course.slug}
+                  lesson={activeLesson}
+                  playerRef={playerRef}
+                />
+              </div>
+            </div>
+          )}
+
+          {activeLesson && (
+            <div className="flex items-center justify-between mt-6">
+              <Button
+                variant="outline"
+                leftIcon={<ChevronLeft size={16} />}
+                disabled={!previousLesson}
+                onClick={() => previousLesson && selectLesson(previousLesson.id)}
+              >
+                Previous
+              </Button>
+
+              <div className="flex flex-col items-center">
+                {isActiveCompleted ? (
+                  <span className="flex items-center text-green-700">
+                    <CheckCircle className="h-5 w-5 mr-1" /> Completed
+                  </span>
+                ) : (
+                  !isActiveLocked &&
+                  !SELF_COMPLETING.includes(activeLesson.type) && (
+                    <Button isLoading={isCompleting} onClick={markComplete}>
+                      Mark complete
+                    </Button>
+                  )
+                )}
+                {actionError && <p className="text-sm text-red-600 mt-2">{actionError}</p>}
+              </div>
+
+              <Button
+                variant="outline"
+                rightIcon={<ChevronRight size={16} />}
+                disabled={!nextLesson || lockedIds.includes(nextLesson.id)}
+                onClick={() => nextLesson && selectLesson(nextLesson.id)}
+              >
+                Next
+              </Button>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default CourseLearnPage;
@@ -1,48 +1,57 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import CourseGrid from '../components/courses/CourseGrid';
-import CategoryFilter from '../components/courses/CategoryFilter';
+import SearchFilters from '../components/courses/SearchFilters';
+import LessonSearchResults from '../components/lessons/LessonSearchResults';
+import { Button } from '../components/ui/Button';
 import { api } from '../services/api';
 import { useApi } from '../hooks/useApi';
+import { useDebounce } from '../hooks/useDebounce';
+import { Course, CourseSearchFilters } from '../types';
+
+const emptyFilters: CourseSearchFilters = { level: [], category: [], duration: [] };
 
 const CoursesPage: React.FC = () => {
   const [searchParams] = useSearchParams();
   const searchQuery = searchParams.get('search') || '';
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-
-  // API call - will fail when searching due to parameter mismatch
-  const getCourses = useCallback(() => {
-    if (searchQuery) {
-      console.log(`Frontend: Searching for "${searchQuery}"`);
-      // This will fail because frontend sends 'query' but backend expects 'q'
-      return api.search.courses(searchQuery);
-    } else {
-      console.log('Frontend: Loading all courses');
-      return api.courses.getAll();
-    }
-  }, [searchQuery]);
+  const [filters, setFilters] = useState<CourseSearchFilters>(emptyFilters);
+  // Price inputs change on every keystroke, so wait for typing to settle
+  const debouncedFilters = useDebounce(filters, 300);
 
-  const { data: coursesData, loading, error } = useApi(getCourses);
-  const getCategories = useCallback(() => api.courses.getCategories(), []);
-  const { data: categoriesData } = useApi(getCategories);
+  const getCourses = useCallback(
+    () => api.search.courses(searchQuery, debouncedFilters),
+    [searchQuery, debouncedFilters]
+  );
+  const { data, loading, error } = useApi(getCourses);
 
-  const categories = categoriesData?.map(cat => cat.name) || [];
+  // Pages fetched with "Load more" on top of the first page
+  const [moreCourses, setMoreCourses] = useState<Course[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
 
-  // Process courses data
-  const processedCourses = React.useMemo(() => {
-    if (!coursesData) return [];
+  useEffect(() => {
+    setMoreCourses([]);
+    setNextCursor(data?.nextCursor ?? null);
+  }, [data]);
 
-    let courses = searchQuery ? (coursesData as any).results || [] : coursesData;
+  const loadMore = async () => {
+    if (!nextCursor) return;
 
-    // Filter by category if selected
-    if (selectedCategory && courses) {
-      courses = courses.filter((course: any) => course.category === selectedCategory);
+    setLoadingMore(true);
+    try {
+      const page = await api.search.courses(searchQuery, debouncedFilters, nextCursor);
+      setMoreCourses((prev) => [...prev, ...page.results]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more courses:', err);
+    } finally {
+      setLoadingMore(false);
     }
+  };
 
-    return courses || [];
-  }, [coursesData, searchQuery, selectedCategory]);
+  const courses = [...(data?.results || []), ...moreCourses];
 
-  if (loading) {
+  if (loading && !data) {
     return (
       <div className="container mx-auto max-w-7xl">
         <div className="text-center py-12">
@@ -55,7 +64,7 @@ const CoursesPage: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error && !data) {
     return (
       <div className="container mx-auto max-w-7xl">
         <div className="text-center py-12">
@@ -89,24 +98,34 @@ const CoursesPage: React.FC = () => {
         </p>
       </div>
 
-      <CategoryFilter
-        categories={categories}
-        selectedCategory={selectedCategory}
-        onSelectCategory={setSelectedCategory}
-      />
-
-      {searchQuery && (
-        <div className="mb-6">
-          <p className="text-gray-600">
-            {processedCourses.length} {processedCourses.length === 1 ? 'result' : 'results'} for "{searchQuery}"
-          </p>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <div className="lg:col-span-1">
+          <SearchFilters facets={data?.facets} filters={filters} onChange={setFilters} />
         </div>
-      )}
 
-      <CourseGrid courses={processedCourses} />
-      {/* <CourseGrid courses={[...processedCourses, { title: 'Test Course', description: 'Test Description', category: 'Test Category', level: 'beginner', instructor: 'Test Instructor', thumbnail: 'https://images.pexels.com/photos/1181675/pexels-photo-1181675.jpeg', price: 100, rating: 4.5, reviewCount: 10, enrollmentCount: 100, isFeatured: true, createdAt: new Date(), publishedAt: new Date() }]} /> */}
+        <div className={`lg:col-span-3 ${loading ? 'opacity-60' : ''}`}>
+          <div className="mb-6">
+            <p className="text-gray-600">
+              {data?.total ?? 0} {data?.total === 1 ? 'course' : 'courses'}
+              {searchQuery && ` for "${searchQuery}"`}
+            </p>
+          </div>
+
+          <CourseGrid courses={courses} />
+
+          {nextCursor && (
+            <div className="text-center mt-8">
+              <Button variant="outline" isLoading={loadingMore} onClick={loadMore}>
+                Load more
+              </Button>
+            </div>
+          )}
+
+          {searchQuery && <LessonSearchResults query={searchQuery} />}
+        </div>
+      </div>
     </div>
   );
 };
 
-export default CoursesPage;
\ No newline at end of file
+export default CoursesPage;
@@ -0,0 +1,183 @@
+import React, { useCallback, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ClipboardCheck } from 'lucide-react';
+import type { QueuedSubmission, SubmissionStatus } from '@sentry-academy/contracts';
+import { api } from '../services/api';
+import { useApi } from '../hooks/useApi';
+import { Button } from '../components/ui/Button';
+import SubmissionFiles from '../components/lessons/SubmissionFiles';
+import SubmissionStatusBadge from '../components/lessons/SubmissionStatusBadge';
+
+type StatusFilter = SubmissionStatus | 'all';
+
+const filters: { value: StatusFilter; label: string }[] = [
+  { value: 'submitted', label: 'To grade' },
+  { value: 'needs_revision', label: 'Needs revision' },
+  { value: 'passed', label: 'Passed' },
+  { value: 'all', label: 'All' },
+];
+
+interface GradingFormProps {
+  submission: QueuedSubmission;
+  onGraded: () => void;
+}
+
+const GradingForm: React.FC<GradingFormProps> = ({ submission, onGraded }) => {
+  const [grade, setGrade] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError('');
+    try {
+      await api.submissions.grade(submission.id, {
+        grade: Number(grade),
+        feedback: feedback.trim() || undefined,
+      });
+      onGraded();
+    } catch (err) {
+      console.error('Failed to grade submission:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the grade');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 pt-4 border-t border-gray-100 space-y-3">
+      <div className="flex items-center gap-2">
+        <label htmlFor={`grade-${submission.id}`} className="text-sm font-medium text-gray-700">
+          Grade (%)
+        </label>
+        <input
+          id={`grade-${submission.id}`}
+          type="number"
+          min={0}
+          max={100}
+          required
+          value={grade}
+          onChange={(e) => setGrade(e.target.value)}
+          className="w-24 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <span className="text-xs text-gray-500">60 or more passes</span>
+      </div>
+      <textarea
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        maxLength={5000}
+        rows={3}
+        placeholder="Feedback for the student"
+        className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" size="sm" isLoading={isSaving} disabled={grade === ''}>
+        Save grade
+      </Button>
+    </form>
+  );
+};
+
+const InstructorSubmissionsPage: React.FC = () => {
+  const [status, setStatus] = useState<StatusFilter>('submitted');
+
+  const getQueue = useCallback(() => api.submissions.getQueue({ status }), [status]);
+  const { data: submissions, loading, error, refetch } = useApi(getQueue);
+
+  return (
+    <div className="container mx-auto max-w-5xl">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Assignment Submissions</h1>
+        <p className="text-gray-600">Review and grade work handed in to your courses</p>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        {filters.map((filter) => (
+          <Button
+            key={filter.value}
+            size="sm"
+            variant={status === filter.value ? 'primary' : 'outline'}
+            onClick={() => setStatus(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading submissions...</p>
+        </div>
+      ) : error ? (
+        <div className="text-center py-12">
+          <p className="text-red-600">Failed to load submissions. Please try again later.</p>
+        </div>
+      ) : !submissions?.length ? (
+        <div className="bg-white p-8 rounded-lg text-center shadow-sm border border-gray-100">
+          <ClipboardCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">No submissions here</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {submissions.map((submission) => (
+            <div
+              key={submission.id}
+              className="bg-white p-6 rounded-lg shadow-sm border border-gray-100"
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <Link
+                    to={`/courses/${submission.course.id}`}
+                    className="text-sm text-gray-500 hover:underline"
+                  >
+                    {submission.course.title}
+                  </Link>
+                  <h2 className="text-lg font-semibold text-gray-900">{submission.lesson.title}</h2>
+                  <p className="text-sm text-gray-600">
+                    {submission.student.name} · {submission.student.email} ·{' '}
+                    {new Date(submission.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <SubmissionStatusBadge status={submission.status} />
+              </div>
+
+              <div className="mt-4 space-y-2">
+                {submission.text && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{submission.text}</p>
+                )}
+                {submission.links.map((link) => (
+                  <a
+                    key={link}
+                    href={link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="block text-sm text-purple-700 hover:underline break-all"
+                  >
+                    {link}
+                  </a>
+                ))}
+                <SubmissionFiles files={submission.files} />
+              </div>
+
+              {submission.status === 'submitted' ? (
+                <GradingForm submission={submission} onGraded={() => refetch()} />
+              ) : (
+                <div className="mt-4 pt-4 border-t border-gray-100 text-sm">
+                  <p className="font-medium text-gray-900">Grade: {submission.grade}%</p>
+                  {submission.feedback && (
+                    <p className="text-gray-700 whitespace-pre-wrap mt-1">{submission.feedback}</p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InstructorSubmissionsPage;
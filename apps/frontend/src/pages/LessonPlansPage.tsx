@@ -15,7 +15,7 @@ const LessonPlanItem: React.FC<{
 
   if (!course) return null;
 
-  const totalLessons = course.lessons.length;
+  const totalLessons = course.lessons?.length ?? 0;
   const completedCount = progress.completedLessons.length;
   const percentComplete = (completedCount / totalLessons) * 100;
 
@@ -14,7 +14,7 @@ const MyCoursesPage: React.FC = () => {
     }
 
     try {
-      unenrollFromCourse(courseId);
+      await unenrollFromCourse(courseId);
     } catch (error) {
       console.error('Failed to unenroll:', error);
       alert('Failed to unenroll from the course. Please try again.');
@@ -3,6 +3,9 @@ import { useAuth } from '../hooks/useAuth';
 import { getUserProgress } from '../data/users';
 import { Card, CardContent, CardHeader } from '../components/ui/Card';
 import { Button } from '../components/ui/Button';
+import ActiveSessions from '../components/auth/ActiveSessions';
+import Certificates from '../components/courses/Certificates';
+import OrderHistory from '../components/courses/OrderHistory';
 import { User, Mail, Clock, BookOpen, Award, Calendar } from 'lucide-react';
 
 const ProfilePage: React.FC = () => {
@@ -86,6 +89,8 @@ const ProfilePage: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <ActiveSessions />
         </div>
 
         {/* Learning Stats */}
@@ -197,6 +202,10 @@ const ProfilePage: React.FC = () => {
               </div>
             </CardContent>
           </Card>
+
+          <Certificates />
+
+          <OrderHistory />
         </div>
       </div>
     </div>
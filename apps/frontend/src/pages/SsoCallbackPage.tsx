@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { GraduationCap } from 'lucide-react';
+import { useAuth } from '../hooks/useAuth';
+import { Button } from '../components/ui/Button';
+
+const SsoCallbackPage: React.FC = () => {
+  const { provider = '' } = useParams<{ provider: string }>();
+  const [searchParams] = useSearchParams();
+  const { ssoLogin } = useAuth();
+  const navigate = useNavigate();
+  const [error, setError] = useState('');
+  // Authorization codes are single use, so never exchange one twice
+  const hasExchanged = useRef(false);
+
+  useEffect(() => {
+    if (hasExchanged.current) return;
+    hasExchanged.current = true;
+
+    const code = searchParams.get('code');
+    const state = searchParams.get('state');
+    const providerError = searchParams.get('error');
+
+    if (providerError || !code || !state) {
+      setError(providerError || `Missing authorization code from ${provider}`);
+      return;
+    }
+
+    ssoLogin(provider, code, state)
+      .then(() => navigate('/', { replace: true }))
+      .catch((err: Error) => setError(err.message || `Failed to login with ${provider}`));
+  }, [provider, searchParams, ssoLogin, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-white">
+      <div className="max-w-md w-full mx-auto p-8 text-center">
+        <div className="flex justify-center items-center mb-8">
+          <GraduationCap className="h-10 w-10 text-purple-600" />
+          <h1 className="ml-2 text-2xl font-bold text-gray-900">Sentry Academy</h1>
+        </div>
+
+        {error ? (
+          <>
+            <div className="bg-red-50 text-red-700 p-3 rounded-lg text-sm border border-red-200 mb-6">
+              {error}
+            </div>
+            <Button variant="primary" onClick={() => navigate('/login', { replace: true })}>
+              Back to sign in
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-purple-600 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Signing you in with {provider}...</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SsoCallbackPage;
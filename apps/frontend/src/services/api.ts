@@ -1,119 +1,292 @@
+import createClient from 'openapi-fetch';
+import type { ApiProblem, Schemas, paths } from '@sentry-academy/contracts';
+import { CourseSearchFilters } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001/api';
 
 class ApiError extends Error {
-  constructor(public status: number, message: string) {
+  constructor(
+    public status: number,
+    message: string,
+    public code = 'UNKNOWN_ERROR',
+    public problem?: ApiProblem
+  ) {
     super(message);
     this.name = 'ApiError';
   }
 }
 
-async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`;
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        'Content-Type': 'application/json',
-        ...options?.headers,
-      },
-      credentials: 'include',
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ message: 'An error occurred' }));
-      throw new ApiError(response.status, error.message || `HTTP ${response.status}`);
-    }
+// Typed client generated from the server's OpenAPI document, see
+// `pnpm run api:generate`
+const client = createClient<paths>({ baseUrl: API_BASE_URL, credentials: 'include' });
 
-    return response.json();
-  } catch (error) {
-    if (error instanceof ApiError) {
-      throw error;
+client.use({
+  onRequest({ request }) {
+    const token = localStorage.getItem('authToken');
+    if (token) {
+      request.headers.set('Authorization', `Bearer ${token}`);
     }
+    return request;
+  },
+});
+
+// Resolves to the response body, or rejects with an ApiError built from the
+// problem document the server sent
+async function unwrap<T>(
+  call: Promise<{ data?: T; error?: unknown; response: Response }>
+): Promise<T> {
+  let result;
+  try {
+    result = await call;
+  } catch {
     throw new Error('Network error: Unable to connect to the server');
   }
+
+  const { data, error, response } = result;
+  if (!response.ok) {
+    const problem = (error && typeof error === 'object' ? error : {}) as Partial<ApiProblem>;
+    const apiError = new ApiError(
+      response.status,
+      problem.detail || `HTTP ${response.status}`,
+      problem.code,
+      problem.code ? (problem as ApiProblem) : undefined
+    );
+
+    // The session was signed out elsewhere or expired - drop it locally too
+    if (apiError.code === 'INVALID_TOKEN' && localStorage.getItem('authToken')) {
+      localStorage.removeItem('user');
+      localStorage.removeItem('authToken');
+      window.location.assign('/login');
+    }
+
+    throw apiError;
+  }
+
+  return data as T;
 }
 
 export const api = {
   // Courses
   courses: {
-    getAll: (params?: { category?: string; level?: string; featured?: string }) => {
-      const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
-      return fetchApi<any[]>(`/courses${queryString}`);
-    },
-    getById: (id: string) => fetchApi<any>(`/courses/${id}`),
-    create: (data: any) => fetchApi<any>('/courses', {
-      method: 'POST',
-      body: JSON.stringify(data),
-    }),
-    update: (id: string, data: any) => fetchApi<any>(`/courses/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    }),
-    getCategories: () => fetchApi<any[]>('/courses/categories'),
+    getAll: (params?: paths['/courses']['get']['parameters']['query']) =>
+      unwrap(client.GET('/courses', { params: { query: params } })),
+    getById: (id: string) => unwrap(client.GET('/courses/{id}', { params: { path: { id } } })),
+    create: (data: Schemas['CourseCreate']) => unwrap(client.POST('/courses', { body: data })),
+    update: (id: string, data: Schemas['CourseUpdate']) =>
+      unwrap(client.PUT('/courses/{id}', { params: { path: { id } }, body: data })),
+    getCategories: () => unwrap(client.GET('/courses/categories')),
+    submit: (id: string) =>
+      unwrap(client.POST('/courses/{id}/submit', { params: { path: { id } } })),
+    publish: (id: string) =>
+      unwrap(client.POST('/courses/{id}/publish', { params: { path: { id } } })),
+    archive: (id: string) =>
+      unwrap(client.POST('/courses/{id}/archive', { params: { path: { id } } })),
   },
 
   // Lessons
   lessons: {
-    getByCourse: (courseId: string) => fetchApi<any[]>(`/lessons/course/${courseId}`),
-    getById: (id: string) => fetchApi<any>(`/lessons/${id}`),
-    create: (data: any) => fetchApi<any>('/lessons', {
-      method: 'POST',
-      body: JSON.stringify(data),
-    }),
-    update: (id: string, data: any) => fetchApi<any>(`/lessons/${id}`, {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    }),
-    markComplete: (id: string) => fetchApi<any>(`/lessons/${id}/complete`, {
-      method: 'POST',
-    }),
+    getByCourse: (courseId: string) =>
+      unwrap(client.GET('/lessons/course/{courseId}', { params: { path: { courseId } } })),
+    getById: (id: string) => unwrap(client.GET('/lessons/{id}', { params: { path: { id } } })),
+    create: (data: Schemas['LessonCreate']) => unwrap(client.POST('/lessons', { body: data })),
+    update: (id: string, data: Schemas['LessonUpdate']) =>
+      unwrap(client.PUT('/lessons/{id}', { params: { path: { id } }, body: data })),
+    markComplete: (id: string) =>
+      unwrap(client.POST('/lessons/{id}/complete', { params: { path: { id } } })),
+    getProgress: (id: string) =>
+      unwrap(client.GET('/lessons/{id}/progress', { params: { path: { id } } })),
+    heartbeat: (id: string, data: Schemas['LessonHeartbeat']) =>
+      unwrap(client.POST('/lessons/{id}/heartbeat', { params: { path: { id } }, body: data })),
+  },
+
+  // Quizzes
+  quizzes: {
+    get: (lessonId: string) =>
+      unwrap(client.GET('/lessons/{id}/quiz', { params: { path: { id: lessonId } } })),
+    save: (lessonId: string, data: Schemas['QuizInput']) =>
+      unwrap(client.PUT('/lessons/{id}/quiz', { params: { path: { id: lessonId } }, body: data })),
+    submitAttempt: (lessonId: string, data: Schemas['QuizAttemptInput']) =>
+      unwrap(
+        client.POST('/lessons/{id}/attempts', { params: { path: { id: lessonId } }, body: data })
+      ),
+    getAttempts: (lessonId: string) =>
+      unwrap(client.GET('/lessons/{id}/attempts', { params: { path: { id: lessonId } } })),
+  },
+
+  // Assignments
+  submissions: {
+    submit: (lessonId: string, data: Schemas['SubmissionInput']) =>
+      unwrap(
+        client.POST('/lessons/{id}/submissions', {
+          params: { path: { id: lessonId } },
+          body: data,
+        })
+      ),
+    getMine: (lessonId: string) =>
+      unwrap(client.GET('/lessons/{id}/submissions', { params: { path: { id: lessonId } } })),
+    getQueue: (params?: paths['/instructor/submissions']['get']['parameters']['query']) =>
+      unwrap(client.GET('/instructor/submissions', { params: { query: params } })),
+    grade: (id: string, data: Schemas['SubmissionGrade']) =>
+      unwrap(
+        client.POST('/instructor/submissions/{id}/grade', { params: { path: { id } }, body: data })
+      ),
+  },
+
+  // Files attached to submissions. The body is the raw file.
+  uploads: {
+    upload: (file: File) =>
+      unwrap(
+        client.POST('/uploads', {
+          params: { query: { filename: file.name } },
+          body: file as unknown as string,
+          bodySerializer: (body) => body as unknown as File,
+          headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        })
+      ),
+    download: (id: string) =>
+      unwrap(client.GET('/uploads/{id}', { params: { path: { id } }, parseAs: 'blob' })),
+  },
+
+  // Notifications
+  notifications: {
+    getMine: (unreadOnly = false) =>
+      unwrap(
+        client.GET('/me/notifications', {
+          params: { query: { unread: unreadOnly ? 'true' : undefined } },
+        })
+      ),
+    markRead: (id: string) =>
+      unwrap(client.POST('/me/notifications/{id}/read', { params: { path: { id } } })),
+    markAllRead: () => unwrap(client.POST('/me/notifications/read-all')),
+  },
+
+  // Reviews
+  reviews: {
+    getByCourse: (
+      courseId: string,
+      params?: paths['/courses/{id}/reviews']['get']['parameters']['query']
+    ) =>
+      unwrap(
+        client.GET('/courses/{id}/reviews', { params: { path: { id: courseId }, query: params } })
+      ),
+    create: (courseId: string, data: Schemas['ReviewInput']) =>
+      unwrap(client.POST('/courses/{id}/reviews', { params: { path: { id: courseId } }, body: data })),
+    update: (id: string, data: Schemas['ReviewInput']) =>
+      unwrap(client.PUT('/reviews/{id}', { params: { path: { id } }, body: data })),
+    delete: (id: string) => unwrap(client.DELETE('/reviews/{id}', { params: { path: { id } } })),
+  },
+
+  // Lesson notes
+  notes: {
+    getByLesson: (lessonId: string) =>
+      unwrap(client.GET('/lessons/{id}/notes', { params: { path: { id: lessonId } } })),
+    create: (lessonId: string, data: Schemas['LessonNoteInput']) =>
+      unwrap(client.POST('/lessons/{id}/notes', { params: { path: { id: lessonId } }, body: data })),
+    update: (lessonId: string, noteId: string, data: Schemas['LessonNoteUpdate']) =>
+      unwrap(
+        client.PUT('/lessons/{id}/notes/{noteId}', {
+          params: { path: { id: lessonId, noteId } },
+          body: data,
+        })
+      ),
+    delete: (lessonId: string, noteId: string) =>
+      unwrap(
+        client.DELETE('/lessons/{id}/notes/{noteId}', {
+          params: { path: { id: lessonId, noteId } },
+        })
+      ),
+    exportCourse: (courseId: string) =>
+      unwrap(
+        client.GET('/courses/{id}/notes/export', {
+          params: { path: { id: courseId } },
+          parseAs: 'blob',
+        })
+      ),
   },
 
   // Users
   users: {
-    getProfile: () => fetchApi<any>('/users/me'),
-    updateProfile: (data: any) => fetchApi<any>('/users/me', {
-      method: 'PUT',
-      body: JSON.stringify(data),
-    }),
-    getEnrollments: () => fetchApi<any[]>('/users/me/enrollments'),
+    getProfile: () => unwrap(client.GET('/me')),
+    updateProfile: (data: Schemas['ProfileUpdate']) => unwrap(client.PUT('/me', { body: data })),
+    getEnrollments: () => unwrap(client.GET('/me/enrollments')),
+    getFavorites: () => unwrap(client.GET('/me/favorites')),
+    addFavorite: (courseId: string) =>
+      unwrap(client.POST('/me/favorites', { body: { courseId } })),
+    removeFavorite: (courseId: string) =>
+      unwrap(client.DELETE('/me/favorites/{courseId}', { params: { path: { courseId } } })),
+  },
+
+  // Certificates
+  certificates: {
+    getMine: () => unwrap(client.GET('/me/certificates')),
+    download: (id: string) =>
+      unwrap(
+        client.GET('/certificates/{id}/download', {
+          params: { path: { id } },
+          parseAs: 'blob',
+        })
+      ),
+  },
+
+  // Sign-in sessions
+  sessions: {
+    list: () => unwrap(client.GET('/auth/sessions')),
+    revoke: (sessionId: string) =>
+      unwrap(client.DELETE('/auth/sessions/{id}', { params: { path: { id: sessionId } } })),
   },
 
-  // TOFIX Module 3: Broken enrollments missing userId
   enrollments: {
-    create: (courseId: string, userId: string | undefined) => 
-      fetchApi<any>('/enrollments', {
-        method: 'POST',
-        body: JSON.stringify({ courseId, userId }),
-      }),
-    getUserEnrollments: (userId: string) => fetchApi<any[]>(`/enrollments/user/${userId}`),
-    getProgress: (enrollmentId: string) => fetchApi<any>(`/enrollments/${enrollmentId}/progress`),
-    delete: (enrollmentId: string) => fetchApi<any>(`/enrollments/${enrollmentId}`, {
-      method: 'DELETE',
-    }),
+    create: (courseId: string) => unwrap(client.POST('/enrollments', { body: { courseId } })),
+    getUserEnrollments: (userId: string) =>
+      unwrap(client.GET('/enrollments/user/{userId}', { params: { path: { userId } } })),
+    getProgress: (enrollmentId: string) =>
+      unwrap(
+        client.GET('/enrollments/{id}/progress', { params: { path: { id: enrollmentId } } })
+      ),
+    delete: (enrollmentId: string) =>
+      unwrap(client.DELETE('/enrollments/{id}', { params: { path: { id: enrollmentId } } })),
+  },
+
+  // Orders
+  orders: {
+    quote: (courseId: string, couponCode?: string) =>
+      unwrap(client.POST('/orders/quote', { body: { courseId, couponCode } })),
+    create: (data: Schemas['OrderCreate']) => unwrap(client.POST('/orders', { body: data })),
+    get: (id: string) => unwrap(client.GET('/orders/{id}', { params: { path: { id } } })),
+    getMine: () => unwrap(client.GET('/me/orders')),
+    refund: (id: string) =>
+      unwrap(client.POST('/orders/{id}/refund', { params: { path: { id } } })),
   },
 
   // Search
   search: {
-    // TOFIX Module 2: Frontend sends 'query' parameter but backend API expects 'q'
-    // Backend documented API: GET /search/courses?q=searchTerm
-    // Frontend mistakenly sends: GET /search/courses?query=searchTerm
-    // Fix: Change 'query' to 'q' to match backend API contract
-    courses: (query: string) => 
-      fetchApi<any[]>(`/search/courses?query=${encodeURIComponent(query)}`),
+    courses: (q: string, filters?: Partial<CourseSearchFilters>, cursor?: string) =>
+      unwrap(
+        client.GET('/search/courses', {
+          params: {
+            query: {
+              q: q || undefined,
+              level: filters?.level?.length ? filters.level.join(',') : undefined,
+              category: filters?.category?.length ? filters.category.join(',') : undefined,
+              duration: filters?.duration?.length ? filters.duration.join(',') : undefined,
+              minPrice: filters?.minPrice ? Number(filters.minPrice) : undefined,
+              maxPrice: filters?.maxPrice ? Number(filters.maxPrice) : undefined,
+              cursor,
+            },
+          },
+        })
+      ),
+    lessons: (q: string, courseId?: string) =>
+      unwrap(client.GET('/search/lessons', { params: { query: { q, courseId } } })),
+    suggest: (q: string) => unwrap(client.GET('/search/suggest', { params: { query: { q } } })),
   },
 
   // AI Course Generation
   ai: {
-    generateCourse: (data: { prompt: string; instructorId?: string }) => 
-      fetchApi<any>('/ai/generate-course', {
-        method: 'POST',
-        body: JSON.stringify(data),
-      }),
-    getStats: () => fetchApi<any>('/ai/stats'),
+    generateCourse: (data: Schemas['CourseGenerationRequest']) =>
+      unwrap(client.POST('/ai/generate-course', { body: data })),
+    getStats: () => unwrap(client.GET('/ai/stats')),
   },
 };
 
-export type { ApiError };
+export { ApiError };
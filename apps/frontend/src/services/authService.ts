@@ -5,6 +5,12 @@ export interface LoginRequest {
   password: string;
 }
 
+export interface RegisterRequest {
+  name: string;
+  email: string;
+  password: string;
+}
+
 export interface LoginResponse {
   user: any;
   token: string;
@@ -13,21 +19,21 @@ export interface LoginResponse {
 }
 
 export interface SSORequest {
-  code?: string;
-  state?: string;
-  userData?: {
-    email: string;
-    name: string;
-    provider: string;
-    timestamp: string;
-  };
-  loginSignature?: string;
+  code: string;
+  state: string;
 }
 
+export interface SSOAuthorizationResponse {
+  authorizationUrl: string;
+  state: string;
+}
+
+// Problem document returned by the auth endpoints, see ApiProblem
 export interface AuthError {
-  error: string;
-  message: string;
-  code?: string;
+  title: string;
+  status: number;
+  detail: string;
+  code: string;
 }
 
 class AuthService {
@@ -43,13 +49,44 @@ class AuthService {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.message || 'Login failed');
+      throw new Error(data.detail || 'Login failed');
+    }
+
+    return data;
+  }
+
+  async register(details: RegisterRequest): Promise<LoginResponse> {
+    const response = await fetch(`${API_BASE_URL}/register`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(details),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.detail || 'Registration failed');
+    }
+
+    return data;
+  }
+
+  async getSsoAuthorizationUrl(provider: string, redirectUri: string): Promise<SSOAuthorizationResponse> {
+    const params = new URLSearchParams({ redirectUri });
+    const response = await fetch(`${API_BASE_URL}/sso/${provider}/authorize?${params}`);
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.detail || `${provider} login is unavailable`);
     }
 
     return data;
   }
 
-  async ssoLogin(provider: string, ssoData: SSORequest = {}): Promise<LoginResponse> {
+  async ssoLogin(provider: string, ssoData: SSORequest): Promise<LoginResponse> {
     const response = await fetch(`${API_BASE_URL}/sso/${provider}`, {
       method: 'POST',
       headers: {
@@ -61,7 +98,7 @@ class AuthService {
     const data = await response.json();
 
     if (!response.ok) {
-      throw new Error(data.message || `${provider} login failed`);
+      throw new Error(data.detail || `${provider} login failed`);
     }
 
     return data;
@@ -72,13 +109,14 @@ class AuthService {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
       },
       body: JSON.stringify({ token }),
     });
 
     if (!response.ok) {
       const data = await response.json();
-      throw new Error(data.message || 'Logout failed');
+      throw new Error(data.detail || 'Logout failed');
     }
   }
 }
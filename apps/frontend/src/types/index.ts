@@ -1,35 +1,59 @@
+import type { CourseLevel, CourseStatus, LessonType, UserRole } from '@sentry-academy/contracts';
+
+// API enums and DTOs come from the contracts package shared with the server
+export type {
+  CourseLevel,
+  CourseSearchResponse,
+  CourseStatus,
+  LessonType,
+  SearchFacet,
+  SearchSuggestion,
+  UserRole,
+} from '@sentry-academy/contracts';
+
 export interface User {
   id: string;
   name: string;
   email: string;
   avatar: string;
-  role: 'student' | 'instructor' | 'admin';
+  role: UserRole;
 }
 
+// What course cards and lists need; catalog, search and enrollment responses
+// all provide at least this
 export interface Course {
   id: string;
   title: string;
   description: string;
-  instructor: string;
-  rating: number;
+  instructor: string | null;
+  // Average rating as a decimal string, e.g. "4.50"
+  rating: string | null;
   reviewCount: number;
-  thumbnail: string;
+  thumbnail: string | null;
   category: string;
   tags: string[];
-  duration: string;
-  level: 'beginner' | 'intermediate' | 'advanced';
+  duration: string | null;
+  level: CourseLevel;
   isFeatured: boolean;
-  lessons: Lesson[];
+  status?: CourseStatus;
+  instructorId?: string;
+  // Decimal string; courses with a price are bought at checkout
+  price?: string | null;
+  // Only included by GET /courses/:id
+  lessons?: Lesson[];
+  // Search results only: matched terms wrapped in <mark> tags
+  titleHighlight?: string | null;
+  snippet?: string | null;
 }
 
 export interface Lesson {
   id: string;
   title: string;
-  description: string;
-  duration: string;
-  type: 'video' | 'text';
-  videoUrl?: string;
-  content?: string;
+  description: string | null;
+  duration: string | null;
+  type: LessonType;
+  videoUrl?: string | null;
+  content?: string | null;
   completed?: boolean;
 }
 
@@ -37,4 +61,13 @@ export interface Progress {
   courseId: string;
   completedLessons: string[];
   lastAccessed: string;
-}
\ No newline at end of file
+}
+
+
+export interface CourseSearchFilters {
+  level: string[];
+  category: string[];
+  duration: string[];
+  minPrice?: string;
+  maxPrice?: string;
+}
@@ -6,15 +6,32 @@ export const db = drizzle(pool, { schema });
 
 export const {
   users,
+  userIdentities,
+  sessions,
   courses,
   lessons,
   enrollments,
   lessonProgress,
   reviews,
+  favorites,
   categories,
   certificates,
+  quizzes,
+  quizQuestions,
+  quizAnswers,
+  quizAttempts,
+  assignmentSubmissions,
+  uploads,
+  notifications,
+  coupons,
+  orders,
+  lessonNotes,
   userRoleEnum,
   courseLevelEnum,
   courseStatusEnum,
-  lessonTypeEnum
+  lessonTypeEnum,
+  quizQuestionTypeEnum,
+  submissionStatusEnum,
+  orderStatusEnum,
+  discountTypeEnum
 } = schema;
\ No newline at end of file
@@ -1,17 +1,33 @@
-import { pgTable, text, varchar, timestamp, boolean, integer, decimal, jsonb, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, text, varchar, timestamp, boolean, integer, decimal, jsonb, pgEnum, uniqueIndex, index } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
+import {
+  COURSE_LEVELS,
+  COURSE_STATUSES,
+  DISCOUNT_TYPES,
+  LESSON_TYPES,
+  ORDER_STATUSES,
+  QUIZ_QUESTION_TYPES,
+  SUBMISSION_STATUSES,
+  USER_ROLES,
+} from '@sentry-academy/contracts';
 
-// Enums
-export const userRoleEnum = pgEnum('user_role', ['student', 'instructor', 'admin']);
-export const courseLevelEnum = pgEnum('course_level', ['beginner', 'intermediate', 'advanced']);
-export const courseStatusEnum = pgEnum('course_status', ['draft', 'published', 'archived']);
-export const lessonTypeEnum = pgEnum('lesson_type', ['video', 'text', 'quiz', 'assignment']);
+// Enums. The values live in the contracts package shared with the frontend.
+export const userRoleEnum = pgEnum('user_role', USER_ROLES);
+export const courseLevelEnum = pgEnum('course_level', COURSE_LEVELS);
+export const courseStatusEnum = pgEnum('course_status', COURSE_STATUSES);
+export const lessonTypeEnum = pgEnum('lesson_type', LESSON_TYPES);
+export const quizQuestionTypeEnum = pgEnum('quiz_question_type', QUIZ_QUESTION_TYPES);
+export const submissionStatusEnum = pgEnum('submission_status', SUBMISSION_STATUSES);
+export const orderStatusEnum = pgEnum('order_status', ORDER_STATUSES);
+export const discountTypeEnum = pgEnum('discount_type', DISCOUNT_TYPES);
 
-// Users table (mock auth for now)
+// Users table
 export const users = pgTable('users', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
   email: varchar('email', { length: 255 }).notNull().unique(),
   name: varchar('name', { length: 255 }).notNull(),
+  passwordHash: text('password_hash'), // null for accounts without a password (e.g. SSO)
   role: userRoleEnum('role').notNull().default('student'),
   avatarUrl: text('avatar_url'),
   bio: text('bio'),
@@ -19,6 +35,34 @@ export const users = pgTable('users', {
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
 });
 
+// External SSO identities linked to a user (one row per provider account)
+export const userIdentities = pgTable('user_identities', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  provider: varchar('provider', { length: 50 }).notNull(), // e.g., "google", "github"
+  externalId: text('external_id').notNull(), // Subject ID at the provider
+  email: varchar('email', { length: 255 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastLoginAt: timestamp('last_login_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('user_identities_provider_external_id_idx').on(table.provider, table.externalId),
+]);
+
+// Sign-in sessions. Session tokens carry the session id, so revoking a row
+// signs that device out.
+export const sessions = pgTable('sessions', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  lastSeenAt: timestamp('last_seen_at').notNull().defaultNow(),
+  expiresAt: timestamp('expires_at').notNull(),
+  revokedAt: timestamp('revoked_at'),
+}, (table) => [
+  index('sessions_user_id_idx').on(table.userId),
+]);
+
 // Courses table
 export const courses = pgTable('courses', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
@@ -37,12 +81,20 @@ export const courses = pgTable('courses', {
   reviewCount: integer('review_count').notNull().default(0),
   enrollmentCount: integer('enrollment_count').notNull().default(0),
   isFeatured: boolean('is_featured').notNull().default(false),
+  // Lessons unlock in order, each once the ones before it are completed
+  sequential: boolean('sequential').notNull().default(false),
   prerequisites: jsonb('prerequisites').$type<string[]>().default([]),
   learningObjectives: jsonb('learning_objectives').$type<string[]>().default([]),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
   publishedAt: timestamp('published_at'),
-});
+  // Also has a `search_vector` tsvector column, maintained by triggers in
+  // drizzle/0008_course_search.sql and queried through raw SQL
+}, (table) => [
+  // Matches the (created_at, id) keyset ordering of GET /courses
+  index('courses_created_at_id_idx').on(table.createdAt.desc(), table.id.desc()),
+  index('courses_instructor_id_idx').on(table.instructorId),
+]);
 
 // Lessons table
 export const lessons = pgTable('lessons', {
@@ -60,8 +112,99 @@ export const lessons = pgTable('lessons', {
   resources: jsonb('resources').$type<{ title: string; url: string; type: string }[]>().default([]),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
+  // Also has a generated `search_vector` tsvector column, see
+  // drizzle/0010_lesson_search.sql
 });
 
+// Quiz settings for a lesson of type 'quiz'
+export const quizzes = pgTable('quizzes', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  lessonId: text('lesson_id').notNull().unique().references(() => lessons.id, { onDelete: 'cascade' }),
+  passingScore: integer('passing_score').notNull().default(70), // Percentage 0-100
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+export const quizQuestions = pgTable('quiz_questions', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  quizId: text('quiz_id').notNull().references(() => quizzes.id, { onDelete: 'cascade' }),
+  type: quizQuestionTypeEnum('type').notNull(),
+  prompt: text('prompt').notNull(),
+  explanation: text('explanation'), // Shown after answering
+  points: integer('points').notNull().default(1),
+  order: integer('order').notNull(),
+}, (table) => [
+  index('quiz_questions_quiz_id_idx').on(table.quizId),
+]);
+
+// Options of choice questions, or the accepted keywords of free text ones
+export const quizAnswers = pgTable('quiz_answers', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  questionId: text('question_id').notNull().references(() => quizQuestions.id, { onDelete: 'cascade' }),
+  text: text('text').notNull(),
+  isCorrect: boolean('is_correct').notNull().default(false), // Always true for keywords
+  order: integer('order').notNull(),
+}, (table) => [
+  index('quiz_answers_question_id_idx').on(table.questionId),
+]);
+
+export const quizAttempts = pgTable('quiz_attempts', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id),
+  lessonId: text('lesson_id').notNull().references(() => lessons.id, { onDelete: 'cascade' }),
+  score: integer('score').notNull(), // Percentage 0-100
+  passed: boolean('passed').notNull(),
+  // What was submitted for each question and whether it was graded correct
+  responses: jsonb('responses')
+    .$type<{ questionId: string; answerIds?: string[]; text?: string; correct: boolean }[]>()
+    .notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('quiz_attempts_user_id_lesson_id_idx').on(table.userId, table.lessonId),
+]);
+
+// Work handed in for a lesson of type 'assignment'. Students submit again
+// after a submission needs revision, so there can be several per lesson.
+export const assignmentSubmissions = pgTable('assignment_submissions', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  lessonId: text('lesson_id').notNull().references(() => lessons.id, { onDelete: 'cascade' }),
+  userId: text('user_id').notNull().references(() => users.id),
+  enrollmentId: text('enrollment_id').notNull().references(() => enrollments.id),
+  text: text('text'),
+  links: jsonb('links').$type<string[]>().notNull().default([]),
+  status: submissionStatusEnum('status').notNull().default('submitted'),
+  grade: integer('grade'), // Percentage 0-100, set when graded
+  feedback: text('feedback'),
+  gradedBy: text('graded_by').references(() => users.id),
+  gradedAt: timestamp('graded_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('assignment_submissions_lesson_id_user_id_idx').on(table.lessonId, table.userId),
+  // A student has at most one submission per assignment that is waiting to be
+  // graded or passed; the ones sent back for revision are history
+  uniqueIndex('assignment_submissions_open_idx')
+    .on(table.lessonId, table.userId)
+    .where(sql`${table.status} <> 'needs_revision'`),
+  // The instructor queue, oldest first
+  index('assignment_submissions_status_created_at_idx').on(table.status, table.createdAt),
+]);
+
+// Files uploaded to local disk storage, see src/lib/storage.ts. They belong
+// to the uploader until attached to a submission.
+export const uploads = pgTable('uploads', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id),
+  submissionId: text('submission_id').references(() => assignmentSubmissions.id, { onDelete: 'cascade' }),
+  filename: varchar('filename', { length: 255 }).notNull(),
+  contentType: varchar('content_type', { length: 255 }).notNull(),
+  size: integer('size').notNull(), // in bytes
+  storageKey: text('storage_key').notNull(),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('uploads_submission_id_idx').on(table.submissionId),
+]);
+
 // Enrollments table
 export const enrollments = pgTable('enrollments', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
@@ -72,7 +215,9 @@ export const enrollments = pgTable('enrollments', {
   lastAccessedAt: timestamp('last_accessed_at'),
   progress: integer('progress').notNull().default(0), // Percentage 0-100
   certificateId: text('certificate_id'),
-});
+}, (table) => [
+  uniqueIndex('enrollments_user_id_course_id_idx').on(table.userId, table.courseId),
+]);
 
 // Progress tracking table
 export const lessonProgress = pgTable('lesson_progress', {
@@ -83,10 +228,13 @@ export const lessonProgress = pgTable('lesson_progress', {
   completedAt: timestamp('completed_at'),
   timeSpent: integer('time_spent').notNull().default(0), // in seconds
   lastPosition: integer('last_position').default(0), // for video resume
-  notes: text('notes'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+}, (table) => [
+  index('lesson_progress_enrollment_id_idx').on(table.enrollmentId),
+  // One row per user and lesson, which progress writes upsert on
+  uniqueIndex('lesson_progress_user_id_lesson_id_idx').on(table.userId, table.lessonId),
+]);
 
 // Reviews table
 export const reviews = pgTable('reviews', {
@@ -97,7 +245,20 @@ export const reviews = pgTable('reviews', {
   comment: text('comment'),
   createdAt: timestamp('created_at').notNull().defaultNow(),
   updatedAt: timestamp('updated_at').notNull().defaultNow(),
-});
+}, (table) => [
+  uniqueIndex('reviews_user_id_course_id_idx').on(table.userId, table.courseId),
+  index('reviews_course_id_idx').on(table.courseId),
+]);
+
+// Courses a user has saved to their favorites
+export const favorites = pgTable('favorites', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  courseId: text('course_id').notNull().references(() => courses.id, { onDelete: 'cascade' }),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex('favorites_user_id_course_id_idx').on(table.userId, table.courseId),
+]);
 
 // Categories table (for organized course browsing)
 export const categories = pgTable('categories', {
@@ -115,8 +276,90 @@ export const certificates = pgTable('certificates', {
   id: text('id').primaryKey().$defaultFn(() => createId()),
   userId: text('user_id').notNull().references(() => users.id),
   courseId: text('course_id').notNull().references(() => courses.id),
-  enrollmentId: text('enrollment_id').notNull().references(() => enrollments.id),
+  // Cleared when the student unenrolls; the certificate stays valid
+  enrollmentId: text('enrollment_id').references(() => enrollments.id, { onDelete: 'set null' }),
+  verificationCode: varchar('verification_code', { length: 32 }).notNull().unique(), // Shown on the certificate for third-party checks
   certificateUrl: text('certificate_url'),
   issuedAt: timestamp('issued_at').notNull().defaultNow(),
   expiresAt: timestamp('expires_at'),
-});
\ No newline at end of file
+  revokedAt: timestamp('revoked_at'), // Set when the course purchase is refunded
+}, (table) => [
+  uniqueIndex('certificates_enrollment_id_idx').on(table.enrollmentId),
+]);
+
+// In-app notifications, e.g. when an assignment has been graded
+export const notifications = pgTable('notifications', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  type: varchar('type', { length: 50 }).notNull(), // e.g. "submission_graded"
+  title: varchar('title', { length: 255 }).notNull(),
+  body: text('body'),
+  link: text('link'), // Frontend path to open, e.g. "/courses/abc?lesson=xyz"
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+}, (table) => [
+  index('notifications_user_id_created_at_idx').on(table.userId, table.createdAt.desc()),
+]);
+
+// Discount codes redeemable at checkout, for one course or (without a course)
+// for any paid course
+export const coupons = pgTable('coupons', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  code: varchar('code', { length: 50 }).notNull().unique(), // Stored upper case
+  discountType: discountTypeEnum('discount_type').notNull(),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(), // Percent or money off
+  courseId: text('course_id').references(() => courses.id, { onDelete: 'cascade' }),
+  maxRedemptions: integer('max_redemptions'), // null for unlimited
+  // Pending and paid orders using it, see reserveCoupon
+  redemptionCount: integer('redemption_count').notNull().default(0),
+  expiresAt: timestamp('expires_at'),
+  createdBy: text('created_by').notNull().references(() => users.id),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+});
+
+// Purchases of paid courses. Amounts are what the buyer was quoted: the
+// course price, the coupon discount and the total actually charged.
+export const orders = pgTable('orders', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id),
+  courseId: text('course_id').notNull().references(() => courses.id),
+  couponId: text('coupon_id').references(() => coupons.id, { onDelete: 'set null' }),
+  status: orderStatusEnum('status').notNull().default('pending'),
+  amount: decimal('amount', { precision: 10, scale: 2 }).notNull(),
+  discount: decimal('discount', { precision: 10, scale: 2 }).notNull().default('0'),
+  total: decimal('total', { precision: 10, scale: 2 }).notNull(),
+  currency: varchar('currency', { length: 3 }).notNull().default('USD'),
+  provider: varchar('provider', { length: 50 }).notNull(), // Payment provider that charged it
+  providerPaymentId: text('provider_payment_id'),
+  failureReason: text('failure_reason'),
+  // Set once paid. Not a foreign key: refunds delete the enrollment but the
+  // order stays in the buyer's history.
+  enrollmentId: text('enrollment_id'),
+  paidAt: timestamp('paid_at'),
+  refundedAt: timestamp('refunded_at'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('orders_user_id_created_at_idx').on(table.userId, table.createdAt.desc()),
+  uniqueIndex('orders_provider_payment_id_idx').on(table.provider, table.providerPaymentId),
+  // One order per buyer and course that is being paid or has been paid for;
+  // failed and refunded ones are history
+  uniqueIndex('orders_open_idx')
+    .on(table.userId, table.courseId)
+    .where(sql`${table.status} in ('pending', 'paid', 'refunding')`),
+]);
+
+// Notes a learner takes on a lesson. Each can be anchored to a moment of the
+// lesson's video or to a heading of its content, see markdownHeadings.
+export const lessonNotes = pgTable('lesson_notes', {
+  id: text('id').primaryKey().$defaultFn(() => createId()),
+  userId: text('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  lessonId: text('lesson_id').notNull().references(() => lessons.id, { onDelete: 'cascade' }),
+  content: text('content').notNull(), // Markdown
+  videoTime: integer('video_time'), // Seconds into the video
+  heading: varchar('heading', { length: 255 }), // Text of a heading in the lesson content
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+}, (table) => [
+  index('lesson_notes_user_id_lesson_id_idx').on(table.userId, table.lessonId),
+]);
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { db, users, courses, lessons, categories } from './index';
 import { createId } from '@paralleldrive/cuid2';
 import { performanceLessonsContent } from './lesson-content';
+import { hashPassword } from '../src/lib/passwords';
 
 async function seed() {
   console.log('🌱 Starting database seed...');
@@ -368,11 +369,12 @@ async function seed() {
       }
     }
     
-    // Create a demo student
+    // Create a demo student (signs in with password123)
     await db.insert(users).values({
       id: createId(),
       email: 'student@example.com',
       name: 'Demo Student',
+      passwordHash: await hashPassword('password123'),
       role: 'student',
       bio: 'Learning enthusiast',
     }).onConflictDoNothing();
@@ -0,0 +1,484 @@
+import { z } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { createInsertSchema, createSelectSchema, createUpdateSchema } from 'drizzle-zod';
+import {
+  users,
+  courses,
+  lessons,
+  enrollments,
+  lessonProgress,
+  reviews,
+  favorites,
+  categories,
+  certificates,
+  quizzes,
+  quizQuestions,
+  quizAnswers,
+  quizAttempts,
+  assignmentSubmissions,
+  uploads,
+  notifications,
+  coupons,
+  orders,
+  lessonNotes,
+} from './schema';
+
+// Request body schemas for the CRUD routes, derived from the table
+// definitions so column types, enum values and varchar lengths stay in sync.
+// Each one picks the fields clients may set; anything server-managed (ids,
+// owners, counters, status, timestamps) is left out, and update schemas are
+// strict so sending one of those fields is a 400 rather than silently ignored.
+//
+// The row schemas at the end describe responses for the OpenAPI document.
+
+extendZodWithOpenApi(z);
+
+const trimmed = (schema: z.ZodString) => schema.trim().min(1, 'Must not be empty');
+const stringList = z.array(z.string().trim().min(1).max(255)).max(50);
+
+// Users
+
+const userInsertSchema = createInsertSchema(users, {
+  email: (schema) => schema.trim().toLowerCase().email('A valid email address is required'),
+  name: trimmed,
+  avatarUrl: (schema) => schema.url('Avatar must be a URL'),
+  bio: (schema) => schema.max(2000),
+});
+
+export const userCreateSchema = userInsertSchema.pick({
+  email: true,
+  name: true,
+  role: true,
+})
+  .openapi('UserCreate');
+
+// Email and role changes go through the auth module and admins respectively
+export const profileUpdateSchema = createUpdateSchema(users, {
+  name: trimmed,
+  avatarUrl: (schema) => schema.url('Avatar must be a URL'),
+  bio: (schema) => schema.max(2000),
+})
+  .pick({ name: true, avatarUrl: true, bio: true })
+  .strict()
+  .openapi('ProfileUpdate');
+
+// Lessons
+
+const lessonRefinements = {
+  title: trimmed,
+  videoUrl: (schema: z.ZodString) => schema.url('Video URL must be a URL'),
+  resources: () =>
+    z
+      .array(
+        z.object({
+          title: z.string().trim().min(1),
+          url: z.string().url(),
+          type: z.string().trim().min(1),
+        })
+      )
+      .max(50),
+};
+
+export const lessonCreateSchema = createInsertSchema(lessons, lessonRefinements).pick({
+  courseId: true,
+  title: true,
+  description: true,
+  type: true,
+  content: true,
+  videoUrl: true,
+  duration: true,
+  isFree: true,
+  resources: true,
+})
+  .openapi('LessonCreate');
+
+export const lessonUpdateSchema = createUpdateSchema(lessons, {
+  ...lessonRefinements,
+  order: (schema) => schema.int().positive(),
+})
+  .pick({
+    title: true,
+    description: true,
+    type: true,
+    content: true,
+    videoUrl: true,
+    duration: true,
+    order: true,
+    isFree: true,
+    resources: true,
+  })
+  .strict()
+  .openapi('LessonUpdate');
+
+// Lessons sent along with a new course, e.g. from the AI course builder.
+// The type defaults to text.
+const courseLessonSchema = lessonCreateSchema
+  .omit({ courseId: true })
+  .partial({ type: true })
+  .extend({ order: z.number().int().positive().optional() });
+
+// Sent every few seconds while a video plays, see POST /lessons/:id/heartbeat.
+// Times are in whole seconds; `elapsed` is the time watched since the last
+// heartbeat and `duration` the length of the video as reported by the player.
+export const heartbeatInputSchema = z
+  .object({
+    position: z.number().int().min(0),
+    elapsed: z.number().int().min(0).max(120),
+    duration: z.number().int().positive().optional(),
+  })
+  .strict()
+  .openapi('LessonHeartbeat');
+
+// Lesson notes
+
+// A note is anchored to at most one place: a moment of the video or a heading
+const noteRefinements = {
+  content: (schema: z.ZodString) =>
+    trimmed(schema).max(10000, 'Note must be at most 10000 characters'),
+  videoTime: () =>
+    z
+      .number({ invalid_type_error: 'Must be a number of seconds' })
+      .int('Must be a whole number of seconds')
+      .min(0, 'Must not be negative'),
+  heading: trimmed,
+};
+
+const noteFields = { content: true, videoTime: true, heading: true } as const;
+
+const singleAnchor = (note: { videoTime?: number | null; heading?: string | null }) =>
+  note.videoTime == null || note.heading == null;
+
+const singleAnchorError = {
+  message: 'Anchor a note to a video time or a heading, not both',
+  path: ['heading'],
+};
+
+export const noteCreateSchema = createInsertSchema(lessonNotes, noteRefinements)
+  .pick(noteFields)
+  .strict()
+  .refine(singleAnchor, singleAnchorError)
+  .openapi('LessonNoteInput');
+
+// Setting one anchor clears the other; null removes it
+export const noteUpdateSchema = createUpdateSchema(lessonNotes, noteRefinements)
+  .pick(noteFields)
+  .strict()
+  .refine(singleAnchor, singleAnchorError)
+  .openapi('LessonNoteUpdate');
+
+// Quizzes
+
+const quizAnswerInputSchema = createInsertSchema(quizAnswers, { text: trimmed }).pick({
+  text: true,
+  isCorrect: true,
+});
+
+// `answers` are the options of choice questions and the accepted keywords of
+// free text ones, whose `isCorrect` is ignored
+const quizQuestionInputSchema = createInsertSchema(quizQuestions, {
+  prompt: trimmed,
+  points: (schema) => schema.int().positive().max(100),
+})
+  .pick({ type: true, prompt: true, explanation: true, points: true })
+  .extend({ answers: z.array(quizAnswerInputSchema).min(1).max(20) })
+  .superRefine((question, ctx) => {
+    const correct = question.answers.filter((answer) => answer.isCorrect).length;
+    if (question.type === 'single_choice' && correct !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['answers'],
+        message: 'Single choice questions need exactly one correct answer',
+      });
+    }
+    if (question.type === 'multiple_choice' && correct === 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['answers'],
+        message: 'Multiple choice questions need at least one correct answer',
+      });
+    }
+  });
+
+// Replaces the whole quiz, see PUT /lessons/:id/quiz
+export const quizInputSchema = createInsertSchema(quizzes, {
+  passingScore: (schema) =>
+    schema.int().min(0).max(100, 'Passing score is a percentage between 0 and 100'),
+})
+  .pick({ passingScore: true })
+  .extend({ questions: z.array(quizQuestionInputSchema).min(1).max(100) })
+  .openapi('QuizInput');
+
+export const quizAttemptInputSchema = z.object({
+  responses: z
+    .array(
+      z.object({
+        questionId: z.string(),
+        // Chosen options, for choice questions
+        answerIds: z.array(z.string()).max(20).optional(),
+        // The written answer, for free text questions
+        text: z.string().max(2000).optional(),
+      })
+    )
+    .max(100),
+})
+  .openapi('QuizAttemptInput');
+
+// Assignment submissions
+
+// Files are uploaded first, see POST /uploads, and attached by id
+export const submissionInputSchema = createInsertSchema(assignmentSubmissions, {
+  text: (schema) => schema.trim().max(20000),
+  links: () => z.array(z.string().trim().url('Links must be URLs')).max(10),
+})
+  .pick({ text: true, links: true })
+  .extend({ fileIds: z.array(z.string()).max(10).optional() })
+  .refine(
+    (submission) =>
+      !!submission.text || !!submission.links?.length || !!submission.fileIds?.length,
+    'A submission needs text, a link or a file'
+  )
+  .openapi('SubmissionInput');
+
+// The grade column is only nullable until grading, so it is required here
+export const submissionGradeSchema = createInsertSchema(assignmentSubmissions, {
+  feedback: (schema) => schema.trim().max(5000),
+})
+  .pick({ feedback: true })
+  .extend({
+    grade: z
+      .number({ required_error: 'Grade is required', invalid_type_error: 'Grade must be a number' })
+      .int('Grade must be a whole number')
+      .min(0, 'Grade is a percentage between 0 and 100')
+      .max(100, 'Grade is a percentage between 0 and 100'),
+  })
+  .strict()
+  .openapi('SubmissionGrade');
+
+// Courses
+
+const courseRefinements = {
+  title: trimmed,
+  description: trimmed,
+  category: trimmed,
+  tags: () => stringList,
+  price: () => z.coerce.number().nonnegative('Price must not be negative').transform(String),
+  prerequisites: () => stringList,
+  learningObjectives: () => stringList,
+};
+
+const courseFields = {
+  title: true,
+  description: true,
+  thumbnail: true,
+  category: true,
+  tags: true,
+  level: true,
+  duration: true,
+  price: true,
+  prerequisites: true,
+  learningObjectives: true,
+  sequential: true,
+} as const;
+
+export const courseCreateSchema = createInsertSchema(courses, courseRefinements)
+  .pick(courseFields)
+  .extend({
+    // Only honoured for admins, see POST /courses
+    instructorId: z.string().optional(),
+    lessons: z.array(courseLessonSchema).max(100).optional(),
+  })
+  .openapi('CourseCreate');
+
+// Status changes go through the submit/publish/archive endpoints
+export const courseUpdateSchema = createUpdateSchema(courses, courseRefinements)
+  .pick(courseFields)
+  .strict()
+  .openapi('CourseUpdate');
+
+// Enrollments
+
+export const enrollmentCreateSchema = createInsertSchema(enrollments)
+  .pick({ courseId: true })
+  .openapi('EnrollmentCreate');
+
+// Progress, completion and certificates all follow from lesson progress, so
+// there is nothing for clients to edit; PUT only records the visit
+export const enrollmentUpdateSchema = z.object({}).strict().openapi('EnrollmentUpdate');
+
+// Orders
+
+// What a checkout would cost; the same fields as placing the order
+export const orderQuoteSchema = createInsertSchema(orders)
+  .pick({ courseId: true })
+  .extend({ couponCode: z.string().trim().max(50).optional() })
+  .openapi('OrderQuoteRequest');
+
+export const orderCreateSchema = orderQuoteSchema
+  .extend({
+    paymentMethod: z.string().trim().max(100).optional().openapi({
+      description: 'Passed to the payment provider, e.g. a test card of the fake provider',
+    }),
+  })
+  .openapi('OrderCreate');
+
+// Codes are matched case-insensitively, so they are stored upper case
+export const couponCreateSchema = createInsertSchema(coupons, {
+  code: (schema) =>
+    schema
+      .trim()
+      .toUpperCase()
+      .min(3, 'Code must be at least 3 characters')
+      .regex(/^[A-Z0-9_-]+$/, 'Code may only contain letters, digits, - and _'),
+  amount: () =>
+    z.coerce.number().positive('Amount must be greater than 0').transform(String),
+  maxRedemptions: () =>
+    z
+      .number({ invalid_type_error: 'Must be a number' })
+      .int('Must be a whole number')
+      .positive('Must be at least 1'),
+  expiresAt: () =>
+    z
+      .string()
+      .datetime({ offset: true, message: 'Must be an ISO 8601 date-time' })
+      .transform((value) => new Date(value)),
+})
+  .pick({
+    code: true,
+    discountType: true,
+    amount: true,
+    courseId: true,
+    maxRedemptions: true,
+    expiresAt: true,
+  })
+  .strict()
+  .refine(
+    (coupon) => coupon.discountType !== 'percentage' || Number(coupon.amount) <= 100,
+    { message: 'A percentage discount is at most 100', path: ['amount'] }
+  )
+  .openapi('CouponCreate');
+
+// Favorites
+
+export const favoriteCreateSchema = createInsertSchema(favorites)
+  .pick({ courseId: true })
+  .openapi('FavoriteCreate');
+
+// Reviews
+
+export const reviewSchema = createInsertSchema(reviews, {
+  rating: () =>
+    z
+      .number({ invalid_type_error: 'Rating must be a number' })
+      .int('Rating must be a whole number')
+      .min(1, 'Rating must be between 1 and 5')
+      .max(5, 'Rating must be between 1 and 5'),
+  comment: (schema) => schema.trim().max(2000, 'Comment must be at most 2000 characters'),
+})
+  .pick({ rating: true, comment: true })
+  .openapi('ReviewInput');
+
+// Auth
+
+export const registerSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  email: z.string().trim().email('A valid email address is required').max(255),
+  password: z
+    .string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(128, 'Password must be at most 128 characters'),
+})
+  .openapi('Registration');
+
+export const loginSchema = z.object({
+  email: z.string().trim().min(1, 'Email is required').max(255),
+  password: z.string().min(1, 'Password is required').max(128),
+})
+  .openapi('Login');
+
+// AI course generation
+
+export const generateCourseSchema = z.object({
+  prompt: z.string().min(10, 'Prompt must be at least 10 characters'),
+  // Only honoured for admins, see POST /ai/generate-course
+  instructorId: z.string().optional(),
+})
+  .openapi('CourseGenerationRequest');
+
+// Rows as returned by the API. Timestamps are serialised as ISO strings.
+
+const resourceSchema = z.object({ title: z.string(), url: z.string(), type: z.string() });
+
+export const userProfileSchema = createSelectSchema(users)
+  .omit({ passwordHash: true })
+  .openapi('UserProfile');
+
+export const courseSchema = createSelectSchema(courses, {
+  tags: () => z.array(z.string()),
+  prerequisites: () => z.array(z.string()),
+  learningObjectives: () => z.array(z.string()),
+}).openapi('Course');
+
+export const lessonSchema = createSelectSchema(lessons, {
+  resources: () => z.array(resourceSchema),
+}).openapi('Lesson');
+
+// What callers who can't open a lesson see of it: the outline and the start
+// of its text, see toPreview
+export const lessonPreviewSchema = lessonSchema
+  .pick({
+    id: true,
+    title: true,
+    description: true,
+    type: true,
+    duration: true,
+    order: true,
+    isFree: true,
+    content: true,
+  })
+  .openapi('LessonPreview');
+
+// Lesson lists hold previews in place of the lessons the caller can't open
+export const lessonListItemSchema = z.union([lessonSchema, lessonPreviewSchema]);
+
+export const enrollmentSchema = createSelectSchema(enrollments).openapi('Enrollment');
+
+export const lessonProgressSchema = createSelectSchema(lessonProgress).openapi('LessonProgress');
+
+export const reviewRowSchema = createSelectSchema(reviews).openapi('Review');
+
+export const favoriteSchema = createSelectSchema(favorites)
+  .pick({ courseId: true, createdAt: true })
+  .openapi('Favorite');
+
+export const categorySchema = createSelectSchema(categories).openapi('Category');
+
+export const certificateSchema = createSelectSchema(certificates).openapi('Certificate');
+
+export const quizAttemptSchema = createSelectSchema(quizAttempts, {
+  responses: () =>
+    z.array(
+      z.object({
+        questionId: z.string(),
+        answerIds: z.array(z.string()).optional(),
+        text: z.string().optional(),
+        correct: z.boolean(),
+      })
+    ),
+}).openapi('QuizAttempt');
+
+
+export const submissionSchema = createSelectSchema(assignmentSubmissions, {
+  links: () => z.array(z.string()),
+}).openapi('AssignmentSubmission');
+
+export const uploadSchema = createSelectSchema(uploads)
+  .omit({ storageKey: true })
+  .openapi('Upload');
+
+export const notificationSchema = createSelectSchema(notifications).openapi('Notification');
+
+export const orderSchema = createSelectSchema(orders).openapi('Order');
+
+export const couponSchema = createSelectSchema(coupons).openapi('Coupon');
+
+export const lessonNoteSchema = createSelectSchema(lessonNotes).openapi('LessonNote');
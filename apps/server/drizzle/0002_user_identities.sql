@@ -0,0 +1,12 @@
+CREATE TABLE "user_identities" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"external_id" text NOT NULL,
+	"email" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_login_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "user_identities_provider_external_id_idx" ON "user_identities" USING btree ("provider","external_id");
\ No newline at end of file
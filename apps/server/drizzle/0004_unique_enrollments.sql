@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "enrollments_user_id_course_id_idx" ON "enrollments" USING btree ("user_id","course_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE UNIQUE INDEX "reviews_user_id_course_id_idx" ON "reviews" USING btree ("user_id","course_id");--> statement-breakpoint
+CREATE INDEX "reviews_course_id_idx" ON "reviews" USING btree ("course_id");
\ No newline at end of file
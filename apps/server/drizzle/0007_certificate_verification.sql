@@ -0,0 +1,16 @@
+ALTER TABLE "certificates" ADD COLUMN "verification_code" varchar(32);--> statement-breakpoint
+-- Certificates issued before verification codes get one in the format of
+-- generateVerificationCode, e.g. SA-7K2M-QX9P-4HWD. The subquery refers to
+-- the row so it runs once per certificate.
+UPDATE "certificates" SET "verification_code" = 'SA-' || (
+	SELECT string_agg(
+		substr('ABCDEFGHJKLMNPQRSTUVWXYZ23456789', 1 + floor(random() * 32)::int, 1)
+			|| CASE WHEN i IN (4, 8) THEN '-' ELSE '' END,
+		'' ORDER BY i
+	)
+	FROM generate_series(1, 12) AS i
+	WHERE "certificates"."id" IS NOT NULL
+);--> statement-breakpoint
+ALTER TABLE "certificates" ALTER COLUMN "verification_code" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "certificates_enrollment_id_idx" ON "certificates" USING btree ("enrollment_id");--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_verification_code_unique" UNIQUE("verification_code");
\ No newline at end of file
@@ -0,0 +1,44 @@
+-- Full-text search document for courses. Weighted: title (A), tags and
+-- category (B), description (C), lesson titles (D). Kept up to date by the
+-- triggers below, so it is not part of the Drizzle schema.
+ALTER TABLE "courses" ADD COLUMN "search_vector" tsvector;--> statement-breakpoint
+CREATE INDEX "courses_search_vector_idx" ON "courses" USING gin ("search_vector");--> statement-breakpoint
+CREATE OR REPLACE FUNCTION course_search_vector(p_course_id text, p_title text, p_description text, p_tags jsonb, p_category text)
+RETURNS tsvector LANGUAGE sql STABLE AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english',
+      coalesce((SELECT string_agg(tag, ' ') FROM jsonb_array_elements_text(coalesce(p_tags, '[]'::jsonb)) AS tag), '')
+      || ' ' || coalesce(p_category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(p_description, '')), 'C') ||
+    setweight(to_tsvector('english',
+      coalesce((SELECT string_agg(l.title, ' ') FROM lessons l WHERE l.course_id = p_course_id), '')), 'D')
+$$;--> statement-breakpoint
+CREATE OR REPLACE FUNCTION courses_search_vector_trigger() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.search_vector := course_search_vector(NEW.id, NEW.title, NEW.description, NEW.tags, NEW.category);
+  RETURN NEW;
+END
+$$;--> statement-breakpoint
+CREATE TRIGGER courses_search_vector_update
+  BEFORE INSERT OR UPDATE OF title, description, tags, category ON courses
+  FOR EACH ROW EXECUTE FUNCTION courses_search_vector_trigger();--> statement-breakpoint
+CREATE OR REPLACE FUNCTION lessons_search_vector_trigger() RETURNS trigger LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE courses
+      SET search_vector = course_search_vector(id, title, description, tags, category)
+      WHERE id = OLD.course_id;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.course_id IS DISTINCT FROM OLD.course_id) THEN
+    UPDATE courses
+      SET search_vector = course_search_vector(id, title, description, tags, category)
+      WHERE id = NEW.course_id;
+  END IF;
+  RETURN NULL;
+END
+$$;--> statement-breakpoint
+CREATE TRIGGER lessons_search_vector_update
+  AFTER INSERT OR UPDATE OF title, course_id OR DELETE ON lessons
+  FOR EACH ROW EXECUTE FUNCTION lessons_search_vector_trigger();--> statement-breakpoint
+UPDATE courses SET search_vector = course_search_vector(id, title, description, tags, category);
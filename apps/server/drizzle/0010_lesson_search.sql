@@ -0,0 +1,8 @@
+-- Full-text search document for lesson bodies: title (A), description (B),
+-- content (C). Generated by Postgres, so it is not part of the Drizzle schema.
+ALTER TABLE "lessons" ADD COLUMN "search_vector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('english', coalesce("description", '')), 'B') ||
+  setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;--> statement-breakpoint
+CREATE INDEX "lessons_search_vector_idx" ON "lessons" USING gin ("search_vector");
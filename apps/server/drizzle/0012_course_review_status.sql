@@ -0,0 +1 @@
+ALTER TYPE "public"."course_status" ADD VALUE 'in_review' BEFORE 'published';
\ No newline at end of file
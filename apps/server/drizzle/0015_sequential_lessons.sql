@@ -0,0 +1 @@
+ALTER TABLE "courses" ADD COLUMN "sequential" boolean DEFAULT false NOT NULL;
\ No newline at end of file
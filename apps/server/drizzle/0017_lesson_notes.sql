@@ -0,0 +1,21 @@
+CREATE TABLE "lesson_notes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"lesson_id" text NOT NULL,
+	"content" text NOT NULL,
+	"video_time" integer,
+	"heading" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "lesson_notes" ADD CONSTRAINT "lesson_notes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "lesson_notes" ADD CONSTRAINT "lesson_notes_lesson_id_lessons_id_fk" FOREIGN KEY ("lesson_id") REFERENCES "public"."lessons"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "lesson_notes_user_id_lesson_id_idx" ON "lesson_notes" USING btree ("user_id","lesson_id");--> statement-breakpoint
+-- Carry over what was saved in the old single notes column, one unanchored
+-- note per lesson
+INSERT INTO "lesson_notes" ("id", "user_id", "lesson_id", "content", "created_at", "updated_at")
+SELECT gen_random_uuid()::text, "user_id", "lesson_id", "notes", "updated_at", "updated_at"
+FROM "lesson_progress"
+WHERE trim(coalesce("notes", '')) <> '';--> statement-breakpoint
+ALTER TABLE "lesson_progress" DROP COLUMN "notes";
\ No newline at end of file
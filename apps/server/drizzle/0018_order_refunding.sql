@@ -0,0 +1 @@
+ALTER TYPE "public"."order_status" ADD VALUE 'refunding' BEFORE 'refunded';
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "certificates" DROP CONSTRAINT "certificates_enrollment_id_enrollments_id_fk";
+--> statement-breakpoint
+ALTER TABLE "certificates" ALTER COLUMN "enrollment_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "certificates" ADD COLUMN "revoked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_enrollment_id_enrollments_id_fk" FOREIGN KEY ("enrollment_id") REFERENCES "public"."enrollments"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,20 @@
+-- Merge duplicate progress rows from concurrent writes into the oldest one
+-- per user and lesson, keeping the first completion and the most time spent
+WITH merged AS (
+	SELECT
+		id,
+		row_number() OVER w AS position,
+		min("completed_at") OVER w AS completed_at,
+		max("time_spent") OVER w AS time_spent
+	FROM "lesson_progress"
+	WINDOW w AS (PARTITION BY "user_id", "lesson_id" ORDER BY "created_at", "id" ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING)
+)
+UPDATE "lesson_progress" SET "completed_at" = merged.completed_at, "time_spent" = merged.time_spent
+FROM merged
+WHERE "lesson_progress"."id" = merged.id AND merged.position = 1;--> statement-breakpoint
+DELETE FROM "lesson_progress" AS duplicate
+USING "lesson_progress" AS kept
+WHERE duplicate."user_id" = kept."user_id"
+	AND duplicate."lesson_id" = kept."lesson_id"
+	AND (kept."created_at", kept."id") < (duplicate."created_at", duplicate."id");--> statement-breakpoint
+CREATE UNIQUE INDEX "lesson_progress_user_id_lesson_id_idx" ON "lesson_progress" USING btree ("user_id","lesson_id");
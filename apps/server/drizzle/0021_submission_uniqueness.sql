@@ -0,0 +1,21 @@
+-- Double submissions: keep the first open submission per student and
+-- assignment (a passed one over one waiting for grading), move the files of
+-- the others over to it and drop them
+CREATE TEMPORARY TABLE "duplicate_submissions" AS
+SELECT "id", "kept_id"
+FROM (
+	SELECT
+		"id",
+		first_value("id") OVER w AS "kept_id",
+		row_number() OVER w AS "position"
+	FROM "assignment_submissions"
+	WHERE "status" <> 'needs_revision'
+	WINDOW w AS (PARTITION BY "lesson_id", "user_id" ORDER BY "status" = 'passed' DESC, "created_at", "id")
+) AS "ranked"
+WHERE "position" > 1;--> statement-breakpoint
+UPDATE "uploads" SET "submission_id" = "duplicate_submissions"."kept_id"
+FROM "duplicate_submissions"
+WHERE "uploads"."submission_id" = "duplicate_submissions"."id";--> statement-breakpoint
+DELETE FROM "assignment_submissions" WHERE "id" IN (SELECT "id" FROM "duplicate_submissions");--> statement-breakpoint
+DROP TABLE "duplicate_submissions";--> statement-breakpoint
+CREATE UNIQUE INDEX "assignment_submissions_open_idx" ON "assignment_submissions" USING btree ("lesson_id","user_id") WHERE "assignment_submissions"."status" <> 'needs_revision';
\ No newline at end of file
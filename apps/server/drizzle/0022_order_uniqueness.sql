@@ -0,0 +1,37 @@
+-- Double checkouts: keep the first paid order per buyer and course, or else
+-- the newest pending one. Other pending orders fail and give their coupon
+-- redemption back; other paid ones fail too, as payments to refund by hand.
+CREATE TEMPORARY TABLE "duplicate_orders" AS
+SELECT "id", "status", "coupon_id"
+FROM (
+	SELECT
+		"id",
+		"status",
+		"coupon_id",
+		row_number() OVER (
+			PARTITION BY "user_id", "course_id"
+			ORDER BY "status" <> 'pending' DESC, "paid_at", "created_at" DESC, "id"
+		) AS "position"
+	FROM "orders"
+	WHERE "status" IN ('pending', 'paid', 'refunding')
+) AS "ranked"
+WHERE "position" > 1;--> statement-breakpoint
+UPDATE "coupons" SET "redemption_count" = greatest("coupons"."redemption_count" - "released"."count", 0)
+FROM (
+	SELECT "coupon_id", count(*) AS "count"
+	FROM "duplicate_orders"
+	WHERE "status" = 'pending' AND "coupon_id" IS NOT NULL
+	GROUP BY "coupon_id"
+) AS "released"
+WHERE "coupons"."id" = "released"."coupon_id";--> statement-breakpoint
+UPDATE "orders" SET
+	"status" = 'failed',
+	"failure_reason" = CASE
+		WHEN "duplicate_orders"."status" = 'pending' THEN 'Superseded by another order for this course'
+		ELSE 'Duplicate payment for this course, refund it with the payment provider'
+	END,
+	"updated_at" = now()
+FROM "duplicate_orders"
+WHERE "orders"."id" = "duplicate_orders"."id";--> statement-breakpoint
+DROP TABLE "duplicate_orders";--> statement-breakpoint
+CREATE UNIQUE INDEX "orders_open_idx" ON "orders" USING btree ("user_id","course_id") WHERE "orders"."status" in ('pending', 'paid', 'refunding');
\ No newline at end of file
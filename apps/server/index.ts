@@ -3,31 +3,49 @@ import express from 'express';
 import cors from 'cors';
 import { courseRoutes } from './src/modules/courses/routes';
 import { lessonRoutes } from './src/modules/lessons/routes';
+import { quizRoutes } from './src/modules/quizzes/routes';
+import { submissionRoutes } from './src/modules/submissions/routes';
+import { uploadBodyParser, uploadRoutes } from './src/modules/uploads/routes';
+import { removeOrphanedFiles, removeUnattachedUploads } from './src/modules/uploads/files';
+import { notificationRoutes } from './src/modules/notifications/routes';
+import { videoRoutes } from './src/modules/videos/routes';
+import { orderRoutes, webhookBodyParser } from './src/modules/orders/routes';
 import { userRoutes } from './src/modules/users/routes';
 import { enrollmentRoutes } from './src/modules/enrollments/routes';
 import { searchRoutes } from './src/modules/search/routes';
+import { reviewRoutes } from './src/modules/reviews/routes';
+import { noteRoutes } from './src/modules/notes/routes';
+import { certificateRoutes } from './src/modules/certificates/routes';
 import { authRoutes } from './src/modules/auth/routes';
 import { chatRoutes } from './src/modules/chat/routes';
 import { aiRoutes } from './src/modules/ai/routes';
+import { docsRoutes } from './src/modules/docs/routes';
+import { mockOidcRoutes, isMockOidcEnabled } from './src/modules/auth/mockOidc';
+import { authenticate } from './src/middleware/auth';
+import { clientOrigins } from './src/config';
+import { AppError, NotFoundError, ValidationError, toProblem } from './src/lib/errors';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const UPLOAD_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
 
 
 // Middleware
 app.use(
   cors({
-    origin: [
-      'http://localhost:4173',
-      'http://localhost:5173',
-      'http://localhost:5174',
-      'http://localhost:3000',
-    ],
+    origin: clientOrigins,
     credentials: true,
+    exposedHeaders: ['X-Next-Cursor'],
   })
 );
 
+// File uploads are raw bodies, so they skip the JSON parser
+app.use('/api/uploads', uploadBodyParser);
+// Payment webhooks are verified against the raw body
+app.use('/api/payments/webhook', webhookBodyParser);
 app.use(express.json());
+app.use(authenticate);
+
 // Root route
 app.get('/', (req: express.Request, res: express.Response) => {
   res.json({ message: 'Sentry Academy API', version: '1.0.0' });
@@ -42,29 +60,78 @@ app.get('/favicon.ico', (req: express.Request, res: express.Response) => {
 console.log('🔧 Setting up API routes...');
 app.use('/api', courseRoutes);
 app.use('/api', lessonRoutes);
+app.use('/api', quizRoutes);
+app.use('/api', submissionRoutes);
+app.use('/api', uploadRoutes);
+app.use('/api', videoRoutes);
 app.use('/api', userRoutes);
+app.use('/api', notificationRoutes);
 app.use('/api', enrollmentRoutes);
+app.use('/api', orderRoutes);
 app.use('/api', searchRoutes);
+app.use('/api', reviewRoutes);
+app.use('/api', noteRoutes);
+app.use('/api', certificateRoutes);
 app.use('/api/auth', authRoutes);
+if (isMockOidcEnabled) {
+  app.use('/api/mock-oidc', mockOidcRoutes);
+}
 app.use('/api', chatRoutes);
 app.use('/api', aiRoutes);
+app.use('/api', docsRoutes);
 
-// Error handling middleware
-// @ts-expect-error - implicit any
-app.use((err, req, res, _) => {
-  const errorMsg = `💥 Error for ${req.method} ${req.url}: ${err}`;
-  console.error(errorMsg);
-  process.stderr.write(errorMsg + '\n');
-
-  res.status(500).json({
-    error: true,
-    message: err instanceof Error ? err.message : 'Internal server error',
-    code: 'INTERNAL_ERROR',
-    path: req.path,
+// Unknown API routes
+app.use('/api', (req: express.Request) => {
+  throw new NotFoundError(`No route for ${req.method} ${req.originalUrl}`, {
+    code: 'ROUTE_NOT_FOUND',
   });
 });
 
+// Error handling middleware: every error becomes an RFC 7807 problem document
+app.use(
+  (err: unknown, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    // Streaming responses (chat) can fail after the headers went out
+    if (res.headersSent) {
+      next(err);
+      return;
+    }
+
+    // Body parsers reject malformed JSON and bodies over their size limit
+    const bodyError = (err as { type?: string })?.type;
+    const error =
+      bodyError === 'entity.parse.failed'
+        ? new ValidationError('Request body is not valid JSON', { code: 'MALFORMED_JSON' })
+        : bodyError === 'entity.too.large'
+          ? new AppError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large')
+          : err;
+
+    const problem = toProblem(error, req.originalUrl);
+    if (problem.status >= 500) {
+      const errorMsg = `💥 Error for ${req.method} ${req.url}: ${err}`;
+      console.error(errorMsg);
+      process.stderr.write(errorMsg + '\n');
+    }
+
+    res.status(problem.status).type('application/problem+json').json(problem);
+  }
+);
+
+// Clears out files uploaded for submissions that were never handed in, and
+// the files of submissions that have been deleted
+const sweepUploads = async () => {
+  try {
+    const unattached = await removeUnattachedUploads();
+    if (unattached) console.log(`🧹 Removed ${unattached} unattached uploads`);
+    const orphaned = await removeOrphanedFiles();
+    if (orphaned) console.log(`🧹 Removed ${orphaned} files of deleted uploads`);
+  } catch (err) {
+    console.error('Failed to clean up uploads:', err);
+  }
+};
+
 app.listen(PORT, () => {
   console.log(`🚀 Sentry Academy API running at http://localhost:${PORT}`);
   console.log('✅ Server setup complete, all routes should be available');
+  sweepUploads();
+  setInterval(sweepUploads, UPLOAD_SWEEP_INTERVAL_MS).unref();
 });
@@ -0,0 +1,182 @@
+import { db, users, courses } from '../db';
+import { createId } from '@paralleldrive/cuid2';
+import { eq, desc, like, inArray } from 'drizzle-orm';
+
+// Compares the old GET /courses query plan (one instructor lookup per course)
+// with the single joined query the route uses now. Seeds benchmark courses,
+// times both strategies, then removes everything it created.
+//
+//   pnpm --filter @sentry-academy/server run db:benchmark [courses] [iterations] [--keep]
+
+const args = process.argv.slice(2);
+const keep = args.includes('--keep');
+const [courseCount = 3000, iterations = 10] = args
+  .filter((arg) => !arg.startsWith('--'))
+  .map(Number);
+
+const SLUG_PREFIX = 'benchmark-course-';
+const EMAIL_SUFFIX = '@benchmark.sentryacademy.com';
+const INSTRUCTOR_COUNT = 50;
+const BATCH_SIZE = 500;
+
+const levels = ['beginner', 'intermediate', 'advanced'] as const;
+const categories = ['Observability', 'Error Handling', 'Performance', 'Security', 'AI/ML'];
+
+const listColumns = {
+  id: courses.id,
+  title: courses.title,
+  slug: courses.slug,
+  description: courses.description,
+  instructorId: courses.instructorId,
+  thumbnail: courses.thumbnail,
+  category: courses.category,
+  tags: courses.tags,
+  level: courses.level,
+  duration: courses.duration,
+  price: courses.price,
+  rating: courses.rating,
+  reviewCount: courses.reviewCount,
+  enrollmentCount: courses.enrollmentCount,
+  isFeatured: courses.isFeatured,
+  createdAt: courses.createdAt,
+  publishedAt: courses.publishedAt,
+};
+
+// What GET /courses used to do
+async function listWithPerCourseLookup() {
+  const courseList = await db
+    .select(listColumns)
+    .from(courses)
+    .orderBy(desc(courses.createdAt));
+
+  const withInstructors: (typeof courseList[number] & { instructor: string | null })[] = [];
+  for (const course of courseList) {
+    const instructor = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, course.instructorId))
+      .limit(1);
+
+    withInstructors.push({ ...course, instructor: instructor[0]?.name ?? null });
+  }
+
+  return withInstructors;
+}
+
+// What GET /courses does now, unpaginated and with a page size of 20
+const joinedQuery = () =>
+  db
+    .select({ ...listColumns, instructor: users.name })
+    .from(courses)
+    .leftJoin(users, eq(courses.instructorId, users.id))
+    .orderBy(desc(courses.createdAt), desc(courses.id))
+    .$dynamic();
+
+const listWithJoin = () => joinedQuery();
+const firstPageWithJoin = () => joinedQuery().limit(21);
+
+async function seedBenchmarkData() {
+  console.log(`🌱 Seeding ${courseCount} benchmark courses...`);
+
+  const instructors = Array.from({ length: INSTRUCTOR_COUNT }, (_, i) => ({
+    id: createId(),
+    email: `instructor-${i}${EMAIL_SUFFIX}`,
+    name: `Benchmark Instructor ${i}`,
+    role: 'instructor' as const,
+  }));
+  await db.insert(users).values(instructors);
+
+  for (let offset = 0; offset < courseCount; offset += BATCH_SIZE) {
+    const batch = Array.from(
+      { length: Math.min(BATCH_SIZE, courseCount - offset) },
+      (_, j) => {
+        const i = offset + j;
+        return {
+          id: createId(),
+          title: `Benchmark Course ${i}`,
+          slug: `${SLUG_PREFIX}${i}`,
+          description: `Generated course ${i} for list endpoint benchmarks`,
+          instructorId: instructors[i % INSTRUCTOR_COUNT].id,
+          category: categories[i % categories.length],
+          tags: ['benchmark'],
+          level: levels[i % levels.length],
+          status: 'published' as const,
+          duration: `${(i % 20) + 1} hours`,
+          price: String((i % 10) * 10),
+        };
+      }
+    );
+    await db.insert(courses).values(batch);
+  }
+}
+
+async function cleanUp() {
+  console.log('🧹 Removing benchmark data...');
+  await db.delete(courses).where(like(courses.slug, `${SLUG_PREFIX}%`));
+  const benchmarkUsers = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(like(users.email, `%${EMAIL_SUFFIX}`));
+  if (benchmarkUsers.length > 0) {
+    await db.delete(users).where(
+      inArray(
+        users.id,
+        benchmarkUsers.map((u) => u.id)
+      )
+    );
+  }
+}
+
+async function time(label: string, run: () => Promise<unknown[]>) {
+  // One warm-up run so connection setup and plan caching don't skew the numbers
+  const rows = await run();
+  const samples: number[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    const start = performance.now();
+    await run();
+    samples.push(performance.now() - start);
+  }
+
+  samples.sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    samples[Math.min(samples.length - 1, Math.floor((p / 100) * samples.length))];
+
+  console.log(
+    `${label.padEnd(32)} ${String(rows.length).padStart(6)} rows   ` +
+      `p50 ${percentile(50).toFixed(1).padStart(8)} ms   ` +
+      `p95 ${percentile(95).toFixed(1).padStart(8)} ms`
+  );
+  return percentile(50);
+}
+
+async function benchmark() {
+  if (!Number.isInteger(courseCount) || courseCount < 1 || !Number.isInteger(iterations) || iterations < 1) {
+    console.error('❌ Usage: benchmark-course-list.ts [courses] [iterations] [--keep]');
+    process.exit(1);
+  }
+
+  try {
+    // Leftovers from an interrupted or --keep run
+    await cleanUp();
+    await seedBenchmarkData();
+
+    console.log(`⏱️  Timing ${iterations} runs of each strategy...\n`);
+    const before = await time('Before: per-course lookup', listWithPerCourseLookup);
+    const after = await time('After: single joined query', listWithJoin);
+    await time('After: first page (limit 20)', firstPageWithJoin);
+
+    console.log(`\n🚀 Joined query is ${(before / after).toFixed(1)}x faster (p50)`);
+  } catch (error) {
+    console.error('❌ Benchmark failed:', error);
+    process.exitCode = 1;
+  } finally {
+    if (!keep) {
+      await cleanUp();
+    }
+  }
+
+  process.exit();
+}
+
+benchmark();
@@ -0,0 +1,14 @@
+import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { buildOpenApiDocument } from '../src/modules/docs/routes';
+
+// Writes the OpenAPI document to openapi.json, which the contracts package
+// generates the frontend's API types from. Run after changing a route or
+// schema, from the repository root:
+//
+//   pnpm api:generate
+
+const output = resolve(__dirname, '../openapi.json');
+
+writeFileSync(output, JSON.stringify(buildOpenApiDocument(), null, 2) + '\n');
+console.log(`📄 Wrote ${output}`);
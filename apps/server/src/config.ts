@@ -0,0 +1,13 @@
+// Origins the frontend is served from. Used for CORS and to validate where
+// SSO providers may redirect back to.
+export const clientOrigins = [
+  'http://localhost:4173',
+  'http://localhost:5173',
+  'http://localhost:5174',
+  'http://localhost:3000',
+];
+
+// Public base URL of this API, used to build absolute URLs (e.g. the mock
+// OIDC issuer).
+export const apiUrl =
+  process.env.API_URL || `http://localhost:${process.env.PORT || 3001}`;
@@ -0,0 +1,111 @@
+// Errors thrown by route handlers and middleware. The error handler in
+// index.ts turns them into RFC 7807 problem+json responses; `code` is the
+// stable, machine-readable identifier clients should branch on, while the
+// message (sent as `detail`) is for people and may change.
+
+export interface AppErrorOptions {
+  // Defaults to the class's generic code, e.g. NOT_FOUND
+  code?: string;
+  // Extra members added to the problem document, e.g. `fields`
+  extensions?: Record<string, unknown>;
+}
+
+export class AppError extends Error {
+  readonly status: number;
+  readonly code: string;
+  readonly extensions?: Record<string, unknown>;
+
+  constructor(status: number, code: string, message: string, extensions?: Record<string, unknown>) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+    this.code = code;
+    this.extensions = extensions;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, { code = 'VALIDATION_ERROR', extensions }: AppErrorOptions = {}) {
+    super(400, code, message, extensions);
+  }
+}
+
+export class UnauthorizedError extends AppError {
+  constructor(
+    message = 'Authentication required',
+    { code = 'UNAUTHORIZED', extensions }: AppErrorOptions = {}
+  ) {
+    super(401, code, message, extensions);
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string, { code = 'FORBIDDEN', extensions }: AppErrorOptions = {}) {
+    super(403, code, message, extensions);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, { code = 'NOT_FOUND', extensions }: AppErrorOptions = {}) {
+    super(404, code, message, extensions);
+  }
+}
+
+export class ConflictError extends AppError {
+  constructor(message: string, { code = 'CONFLICT', extensions }: AppErrorOptions = {}) {
+    super(409, code, message, extensions);
+  }
+}
+
+export interface Problem {
+  type: string;
+  title: string;
+  status: number;
+  detail: string;
+  instance: string;
+  code: string;
+  [extension: string]: unknown;
+}
+
+export const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  402: 'Payment Required',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  413: 'Payload Too Large',
+  416: 'Range Not Satisfiable',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+};
+
+// Builds the problem document for an error. Anything that isn't an AppError
+// is an unexpected failure and reported as a 500 without internals, except
+// in development where the message helps debugging.
+export const toProblem = (error: unknown, instance: string): Problem => {
+  if (error instanceof AppError) {
+    return {
+      ...error.extensions,
+      type: 'about:blank',
+      title: STATUS_TITLES[error.status] || 'Error',
+      status: error.status,
+      detail: error.message,
+      instance,
+      code: error.code,
+    };
+  }
+
+  return {
+    type: 'about:blank',
+    title: STATUS_TITLES[500],
+    status: 500,
+    detail:
+      process.env.NODE_ENV !== 'production' && error instanceof Error
+        ? error.message
+        : 'Internal server error',
+    instance,
+    code: 'INTERNAL_ERROR',
+  };
+};
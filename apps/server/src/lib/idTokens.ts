@@ -0,0 +1,113 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto';
+
+// Verifies OpenID Connect ID tokens (RS256) against the issuer's JWKS.
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+}
+
+interface VerifyOptions {
+  jwksUri: string;
+  issuer: string;
+  audience: string;
+  nonce: string;
+}
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+const CLOCK_SKEW_SECONDS = 60;
+
+const jwksCache = new Map<string, { keys: Map<string, KeyObject>; fetchedAt: number }>();
+
+const fetchJwks = async (jwksUri: string) => {
+  const response = await fetch(jwksUri);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS from ${jwksUri}: HTTP ${response.status}`);
+  }
+
+  const { keys } = (await response.json()) as { keys: (JsonWebKey & { kid?: string })[] };
+  const byKid = new Map<string, KeyObject>();
+  for (const jwk of keys) {
+    if (jwk.kty === 'RSA' && jwk.kid) {
+      byKid.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+  }
+
+  jwksCache.set(jwksUri, { keys: byKid, fetchedAt: Date.now() });
+  return byKid;
+};
+
+// Looks the key up in the cache first and refetches once on a miss, which
+// covers providers rotating their signing keys.
+const getSigningKey = async (jwksUri: string, kid: string) => {
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL_MS) {
+    const key = cached.keys.get(kid);
+    if (key) return key;
+  }
+
+  const keys = await fetchJwks(jwksUri);
+  return keys.get(kid) ?? null;
+};
+
+const decodeSegment = (segment: string) =>
+  JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+export const verifyIdToken = async (
+  idToken: string,
+  { jwksUri, issuer, audience, nonce }: VerifyOptions
+): Promise<IdTokenClaims> => {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new Error('ID token is not a JWT');
+  }
+
+  const [headerSegment, payloadSegment, signatureSegment] = parts;
+  const header = decodeSegment(headerSegment);
+
+  if (header.alg !== 'RS256' || !header.kid) {
+    throw new Error(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+
+  const key = await getSigningKey(jwksUri, header.kid);
+  if (!key) {
+    throw new Error(`No signing key found for kid ${header.kid}`);
+  }
+
+  const isValid = verify(
+    'RSA-SHA256',
+    Buffer.from(`${headerSegment}.${payloadSegment}`),
+    key,
+    Buffer.from(signatureSegment, 'base64url')
+  );
+  if (!isValid) {
+    throw new Error('ID token signature is invalid');
+  }
+
+  const claims = decodeSegment(payloadSegment) as IdTokenClaims;
+  const now = Math.floor(Date.now() / 1000);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== issuer) {
+    throw new Error(`Unexpected ID token issuer: ${claims.iss}`);
+  }
+  if (!audiences.includes(audience)) {
+    throw new Error('ID token was not issued for this client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) {
+    throw new Error('ID token has expired');
+  }
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce does not match');
+  }
+
+  return claims;
+};
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import {
+  extendZodWithOpenApi,
+  type OpenAPIRegistry,
+  type ResponseConfig,
+} from '@asteasolutions/zod-to-openapi';
+import { STATUS_TITLES } from './errors';
+
+// Adds `.openapi()` to zod schemas. Each module documents its routes in an
+// `openapi.ts` next to its router, see src/modules/docs.
+extendZodWithOpenApi(z);
+
+export const bearerAuth = [{ bearerAuth: [] }];
+
+export const registerSecuritySchemes = (registry: OpenAPIRegistry) => {
+  registry.registerComponent('securitySchemes', 'bearerAuth', {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Session token from POST /auth/login, /auth/register or /auth/sso/{provider}',
+  });
+};
+
+export const problemSchema = z
+  .object({
+    type: z.string(),
+    title: z.string(),
+    status: z.number().int(),
+    detail: z.string(),
+    instance: z.string(),
+    code: z.string().openapi({ example: 'VALIDATION_ERROR' }),
+    fields: z
+      .array(z.object({ field: z.string(), message: z.string() }))
+      .optional()
+      .openapi({ description: 'Every invalid field, for validation errors' }),
+  })
+  .passthrough()
+  .openapi('Problem', {
+    description: 'RFC 7807 problem document. Clients should branch on `code`.',
+  });
+
+export const json = (schema: z.ZodTypeAny, description: string): ResponseConfig => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+// Problem responses for the given statuses, keyed for `responses`
+export const problems = (...statuses: number[]): Record<number, ResponseConfig> =>
+  Object.fromEntries(
+    statuses.map((status) => [
+      status,
+      {
+        description: STATUS_TITLES[status] || 'Error',
+        content: { 'application/problem+json': { schema: problemSchema } },
+      },
+    ])
+  );
+
+export const idParams = z.object({ id: z.string() });
+
+export const deletedSchema = z
+  .object({ success: z.literal(true), deletedId: z.string() })
+  .openapi('Deleted');
+
+// Opt-in keyset paging shared by GET /courses and GET /me/enrollments
+export const keysetQuery = {
+  limit: z.coerce
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .openapi({ description: 'Page size. Pages are only used when limit or cursor is set.' }),
+  cursor: z
+    .string()
+    .optional()
+    .openapi({ description: 'The X-Next-Cursor header of the previous page' }),
+};
+
+export const nextCursorHeader = z.object({
+  'X-Next-Cursor': z
+    .string()
+    .optional()
+    .openapi({ description: 'Cursor for the next page, absent on the last one' }),
+});
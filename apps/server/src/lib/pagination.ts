@@ -0,0 +1,47 @@
+import { sql, type SQL, type AnyColumn } from 'drizzle-orm';
+
+// Keyset pagination over (timestamp, id). The timestamp is carried as the raw
+// Postgres text so no precision is lost round-tripping through a JS Date.
+export interface KeysetCursor {
+  at: string;
+  id: string;
+}
+
+export const NEXT_CURSOR_HEADER = 'X-Next-Cursor';
+
+export const encodeKeysetCursor = (cursor: KeysetCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+export const decodeKeysetCursor = (value: string): KeysetCursor | null => {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.at === 'string' &&
+      !Number.isNaN(Date.parse(cursor.at)) &&
+      typeof cursor.id === 'string'
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+};
+
+// Rows strictly after the cursor when ordering by (at desc, id desc)
+export const afterKeysetCursor = (
+  at: AnyColumn,
+  id: AnyColumn,
+  cursor: KeysetCursor
+): SQL => sql`(${at}, ${id}) < (${cursor.at}::timestamp, ${cursor.id})`;
+
+// Selected alongside each row so the last one can become the next cursor
+export const keysetCursorKey = (at: AnyColumn) => sql<string>`${at}::text`;
+
+// `?limit=` is optional on list endpoints; without it the full list is
+// returned, as before pagination existed. Returns NaN for invalid values.
+export const parseLimit = (value: unknown, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const limit = typeof value === 'string' ? Number(value) : NaN;
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, max) : NaN;
+};
@@ -0,0 +1,36 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// Stored as `scrypt$<salt>$<hash>` (both base64) so the scheme can be
+// identified if we ever migrate to a different algorithm.
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(SALT_LENGTH);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${hash.toString('base64')}`;
+};
+
+export const verifyPassword = async (
+  password: string,
+  stored: string
+): Promise<boolean> => {
+  const [scheme, saltB64, hashB64] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltB64 || !hashB64) return false;
+
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(saltB64, 'base64'),
+    expected.length
+  );
+
+  return timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,38 @@
+import { createReadStream } from 'fs';
+import { mkdir, readdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { createId } from '@paralleldrive/cuid2';
+
+// Uploaded files live on local disk under UPLOAD_DIR (default: ./uploads,
+// relative to where the server is started). Rows in the uploads table keep
+// the original name and type; files are stored under a generated key.
+const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Video files for lessons are copied into VIDEO_DIR (default: ./videos) and
+// referenced from a lesson's videoUrl as `<API_URL>/api/videos/<filename>`
+export const VIDEO_DIR = path.resolve(process.env.VIDEO_DIR || 'videos');
+
+export const storeFile = async (data: Buffer) => {
+  const key = createId();
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  await writeFile(path.join(UPLOAD_DIR, key), data);
+  return key;
+};
+
+export const readFile = (key: string) => createReadStream(path.join(UPLOAD_DIR, key));
+
+export const removeFile = (key: string) => rm(path.join(UPLOAD_DIR, key), { force: true });
+
+// Keys of the stored files last written before `before`
+export const listFilesBefore = async (before: Date) => {
+  const keys = await readdir(UPLOAD_DIR).catch(() => []);
+  const files = await Promise.all(
+    keys.map(async (key) => ({ key, stats: await stat(path.join(UPLOAD_DIR, key)) }))
+  );
+
+  return files
+    .filter(({ stats }) => stats.isFile() && stats.mtime < before)
+    .map(({ key }) => key);
+};
@@ -0,0 +1,72 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { UserRole } from '@sentry-academy/contracts';
+
+// Session tokens are HS256-signed JWTs. Set JWT_SECRET in production; the
+// fallback only exists so local workshop setups keep working out of the box.
+const JWT_SECRET = process.env.JWT_SECRET || 'sentry-academy-dev-secret';
+
+if (!process.env.JWT_SECRET) {
+  console.warn('⚠️ JWT_SECRET not set, using the insecure development secret');
+}
+
+export const TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+export interface TokenPayload {
+  sub: string;
+  sid: string; // Session id, see the sessions table
+  email: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const sign = (data: string) =>
+  createHmac('sha256', JWT_SECRET).update(data).digest('base64url');
+
+// Signs arbitrary claims with the server secret, adding iat/exp. Callers
+// should include a `purpose` claim so tokens can't be swapped between uses.
+export const signJwt = (claims: object, ttlSeconds: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = encode({ alg: 'HS256', typ: 'JWT' });
+  const payload = encode({ ...claims, iat: now, exp: now + ttlSeconds });
+
+  return `${header}.${payload}.${sign(`${header}.${payload}`)}`;
+};
+
+// Returns the decoded claims, or null when the token is malformed, tampered
+// with or expired.
+export const verifyJwt = <T extends { exp: number }>(token: string): T | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  const expected = Buffer.from(sign(`${header}.${payload}`));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof decoded.exp !== 'number' || decoded.exp < Date.now() / 1000) {
+      return null;
+    }
+    return decoded as T;
+  } catch {
+    return null;
+  }
+};
+
+export const signToken = (
+  claims: Pick<TokenPayload, 'sub' | 'sid' | 'email' | 'role'>,
+  ttlSeconds: number = TOKEN_TTL_SECONDS
+): string => signJwt({ ...claims, purpose: 'session' }, ttlSeconds);
+
+export const verifyToken = (token: string): TokenPayload | null => {
+  const payload = verifyJwt<TokenPayload & { purpose?: string }>(token);
+  return payload?.purpose === 'session' ? payload : null;
+};
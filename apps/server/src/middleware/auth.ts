@@ -0,0 +1,142 @@
+import type { Request, Response, NextFunction } from 'express';
+import { db } from '../../db';
+import { users, courses, sessions } from '../../db/schema';
+import { and, eq, gt, isNull } from 'drizzle-orm';
+import { verifyToken } from '../lib/tokens';
+import { ForbiddenError, UnauthorizedError } from '../lib/errors';
+import type { UserRole } from '@sentry-academy/contracts';
+
+const LAST_SEEN_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      sessionId?: string;
+    }
+  }
+}
+
+const getBearerToken = (req: Request) => {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim();
+};
+
+// Resolves req.user from the Authorization header when a valid token for an
+// active session is present. Requests without a token pass through
+// anonymously.
+export const authenticate = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const token = getBearerToken(req);
+  if (!token) return next();
+
+  const payload = verifyToken(token);
+  if (!payload) {
+    throw new UnauthorizedError('Session token is invalid or has expired', {
+      code: 'INVALID_TOKEN',
+    });
+  }
+
+  const session = await db
+    .select({
+      lastSeenAt: sessions.lastSeenAt,
+      user: {
+        id: users.id,
+        email: users.email,
+        name: users.name,
+        role: users.role,
+      },
+    })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(
+      and(
+        eq(sessions.id, payload.sid),
+        eq(sessions.userId, payload.sub),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      )
+    )
+    .limit(1);
+
+  if (!session.length) {
+    throw new UnauthorizedError('Session has been signed out or has expired', {
+      code: 'INVALID_TOKEN',
+    });
+  }
+
+  // Keep "last active" roughly current without writing on every request
+  if (Date.now() - session[0].lastSeenAt.getTime() > LAST_SEEN_UPDATE_INTERVAL_MS) {
+    await db
+      .update(sessions)
+      .set({ lastSeenAt: new Date() })
+      .where(eq(sessions.id, payload.sid));
+  }
+
+  req.user = session[0].user;
+  req.sessionId = payload.sid;
+  next();
+};
+
+// Rejects anonymous requests. Mount after `authenticate`.
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    throw new UnauthorizedError();
+  }
+  next();
+};
+
+// Restricts a route to the given roles. Responds 401 for anonymous callers
+// and 403 for signed-in users without one of the roles.
+export const requireRole =
+  (...roles: AuthUser['role'][]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      throw new UnauthorizedError();
+    }
+
+    if (!roles.includes(req.user.role)) {
+      throw new ForbiddenError(`This action requires one of the roles: ${roles.join(', ')}`);
+    }
+
+    next();
+  };
+
+// Allows admins and the instructor who owns the course. `resolveCourseId`
+// maps the request to the course it touches; when it resolves to nothing the
+// request is passed on so the route can answer with its own 404.
+export const requireCourseOwner =
+  (resolveCourseId: (req: Request) => Promise<string | null | undefined>) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      throw new UnauthorizedError();
+    }
+
+    if (req.user.role === 'admin') return next();
+
+    const courseId = await resolveCourseId(req);
+    if (!courseId) return next();
+
+    const course = await db
+      .select({ instructorId: courses.instructorId })
+      .from(courses)
+      .where(eq(courses.id, courseId))
+      .limit(1);
+
+    if (course.length && course[0].instructorId !== req.user.id) {
+      throw new ForbiddenError('You can only manage courses you instruct');
+    }
+
+    next();
+  };
@@ -0,0 +1,34 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { ZodTypeAny, ZodError } from 'zod';
+import { ValidationError } from '../lib/errors';
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+const fieldErrors = (error: ZodError): FieldError[] =>
+  error.errors.map((issue) => ({
+    field: issue.path.join('.'),
+    message: issue.message,
+  }));
+
+// Parses the request body with `schema` and replaces it with the parsed
+// value, so handlers only ever see whitelisted, coerced fields. Invalid
+// bodies are a ValidationError listing every field error in `fields`.
+export const validate =
+  (schema: ZodTypeAny) => (req: Request, res: Response, next: NextFunction) => {
+    const parsed = schema.safeParse(req.body ?? {});
+
+    if (!parsed.success) {
+      const fields = fieldErrors(parsed.error);
+      const [first] = fields;
+      throw new ValidationError(
+        first?.field ? `${first.field}: ${first.message}` : first?.message || 'Invalid request body',
+        { extensions: { fields } }
+      );
+    }
+
+    req.body = parsed.data;
+    next();
+  };
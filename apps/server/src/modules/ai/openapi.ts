@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, json, problems } from '../../lib/openapi';
+import { courseSchema, generateCourseSchema } from '../../../db/validation';
+
+const generatedCourseSchema = z
+  .object({
+    success: z.literal(true),
+    course: courseSchema,
+    message: z.string(),
+    aiResponse: z.string().openapi({ description: "The model's own summary" }),
+  })
+  .openapi('GeneratedCourse');
+
+export const registerAiPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/ai/generate-course',
+    tags: ['AI'],
+    summary: 'Generate a draft course with lessons from a prompt',
+    security: bearerAuth,
+    request: {
+      body: { content: { 'application/json': { schema: generateCourseSchema } } },
+    },
+    responses: {
+      200: json(generatedCourseSchema, 'The generated draft'),
+      ...problems(400, 401, 403, 502),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/ai/stats',
+    tags: ['AI'],
+    summary: 'Get course generation statistics',
+    responses: {
+      200: json(
+        z.object({
+          totalCourses: z.number().int(),
+          aiGeneratedCourses: z.number().int(),
+          message: z.string(),
+        }),
+        'Statistics'
+      ),
+    },
+  });
+};
@@ -6,6 +6,11 @@ import { db } from '../../../db';
 import { courses, lessons as lessonsTable, categories, users } from '../../../db/schema';
 import { eq } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
+import { requireRole } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { generateCourseSchema, quizInputSchema } from '../../../db/validation';
+import { AppError } from '../../lib/errors';
+import { saveQuiz } from '../quizzes/quiz';
 
 export const aiRoutes = express.Router();
 
@@ -47,8 +52,9 @@ if (!process.env.OPENAI_API_KEY) {
   console.log('✅ OpenAI API key loaded successfully for AI course generation');
 }
 
-// Tool for creating a complete course with lessons
-const createCourseTool = tool({
+// Tool for creating a complete course with lessons. When `ownerId` is set
+// the course is attributed to that instructor instead of a random one.
+const createCourseTool = (ownerId?: string) => tool({
   description: 'Create a comprehensive course with lessons based on educational requirements. Use this when generating a complete course structure with curriculum design.',
   parameters: z.object({
     title: z.string().describe('Course title (50-80 characters)'),
@@ -65,6 +71,15 @@ const createCourseTool = tool({
       type: z.enum(['video', 'text', 'quiz', 'assignment']).describe('Lesson type'),
       duration: z.string().describe('Lesson duration (e.g., "45 min")'),
       content: z.string().describe('Brief outline of lesson content'),
+      quiz: z.array(z.object({
+        type: z.enum(['single_choice', 'multiple_choice', 'free_text']).describe('Question type'),
+        prompt: z.string().describe('The question'),
+        explanation: z.string().describe('Why the correct answer is correct'),
+        answers: z.array(z.object({
+          text: z.string(),
+          isCorrect: z.boolean(),
+        })).describe('Options for choice questions; for free_text, short keywords any one of which makes an answer correct'),
+      })).optional().describe('3-6 questions, only for quiz lessons'),
     })).describe('Array of course lessons in sequential order'),
     instructorId: z.string().describe('ID of the instructor creating the course'),
   }),
@@ -83,9 +98,9 @@ const createCourseTool = tool({
     try {
       console.log('🤖 AI Tool: Creating course with lessons:', title);
       
-      // Get a random instructor from available instructors (same pattern as thumbnails)
-      const validInstructorId = await getRandomInstructor();
-      console.log(`🤖 AI Tool: Using random instructor ID: ${validInstructorId}`);
+      // Use the requesting instructor, or a random one from available instructors (same pattern as thumbnails)
+      const validInstructorId = ownerId || await getRandomInstructor();
+      console.log(`🤖 AI Tool: Using instructor ID: ${validInstructorId}`);
       
       const courseId = createId();
       const baseSlug = title
@@ -124,7 +139,6 @@ const createCourseTool = tool({
           price: '0',
           prerequisites,
           learningObjectives,
-          status: 'published',
         })
         .returning();
 
@@ -163,6 +177,19 @@ const createCourseTool = tool({
         try {
           await db.insert(lessonsTable).values(lessonsToInsert);
           console.log(`🤖 AI Tool: Lessons created successfully`);
+
+          // Quizzes are checked like instructor-written ones; an invalid
+          // quiz is left out so the instructor can write it before review
+          for (const [index, lesson] of lessons.entries()) {
+            if (lesson.type !== 'quiz' || !lesson.quiz) continue;
+
+            const quiz = quizInputSchema.safeParse({ questions: lesson.quiz });
+            if (quiz.success) {
+              await saveQuiz(lessonsToInsert[index].id, quiz.data);
+            } else {
+              console.warn(`🤖 AI Tool: Skipping invalid quiz for lesson ${index + 1}:`, quiz.error.message);
+            }
+          }
         } catch (lessonError) {
           console.error(`🤖 AI Tool: Error creating lessons:`, lessonError);
           throw new Error(`Failed to create lessons: ${lessonError instanceof Error ? lessonError.message : 'Unknown error'}`);
@@ -177,7 +204,7 @@ const createCourseTool = tool({
         success: true,
         course: newCourse[0],
         lessonsCreated: lessonsCount,
-        message: `Course "${title}" has been successfully created and published with ${lessonsCount} lessons.`
+        message: `Course "${title}" has been created as a draft with ${lessonsCount} lessons. Submit it for review to publish it.`
       };
     } catch (error) {
       console.error('❌ AI Tool: Error creating course:', error);
@@ -191,40 +218,36 @@ const createCourseTool = tool({
   },
 });
 
-// Schema for course generation request
-const generateCourseSchema = z.object({
-  prompt: z.string().min(10, 'Prompt must be at least 10 characters'),
-  instructorId: z.string().optional(),
-});
-
 
 // Generate course using AI with tool calls
-aiRoutes.post('/ai/generate-course', async (req, res) => {
-  try {
-    const { prompt, instructorId } = generateCourseSchema.parse(req.body);
-    
-    console.log('🤖 Generating course with AI for prompt:', prompt.substring(0, 100) + '...');
+aiRoutes.post('/ai/generate-course', requireRole('instructor', 'admin'), validate(generateCourseSchema), async (req, res) => {
+  const { prompt, instructorId: requestedInstructorId } = req.body;
+  // Instructors generate courses for themselves; admins may pick the instructor
+  const instructorId =
+    req.user!.role === 'admin' ? requestedInstructorId : req.user!.id;
+  
+  console.log('🤖 Generating course with AI for prompt:', prompt.substring(0, 100) + '...');
 
-    // Get existing courses and categories for context
-    const existingCourses = await db
-      .select({
-        title: courses.title,
-        description: courses.description,
-        category: courses.category,
-        level: courses.level,
-        duration: courses.duration,
-      })
-      .from(courses)
-      .limit(10);
+  // Get existing courses and categories for context
+  const existingCourses = await db
+    .select({
+      title: courses.title,
+      description: courses.description,
+      category: courses.category,
+      level: courses.level,
+      duration: courses.duration,
+    })
+    .from(courses)
+    .limit(10);
 
-    const existingCategories = await db
-      .select({
-        name: categories.name,
-        description: categories.description,
-      })
-      .from(categories);
+  const existingCategories = await db
+    .select({
+      name: categories.name,
+      description: categories.description,
+    })
+    .from(categories);
 
-    const systemPrompt = `You are an expert educational course designer for Sentry Academy. Your task is to analyze course requirements and create comprehensive courses using the createCourse tool.
+  const systemPrompt = `You are an expert educational course designer for Sentry Academy. Your task is to analyze course requirements and create comprehensive courses using the createCourse tool.
 
 CONTEXT - Existing courses for reference:
 ${existingCourses.map(course => `- "${course.title}" (${course.category}, ${course.level}): ${course.description.substring(0, 100)}...`).join('\n')}
@@ -235,7 +258,7 @@ INSTRUCTIONS:
 1. Analyze the user's prompt to understand the topic, target audience, and learning goals
 2. Design a course that matches the quality and structure of existing courses
 3. Create 5-12 lessons that build upon each other logically
-4. Use appropriate lesson types: mostly video/text, some quizzes/assignments
+4. Use appropriate lesson types: mostly video/text, some quizzes/assignments. Give every quiz lesson its questions in \`quiz\`
 5. Estimate realistic durations (courses: 2-20 hours, lessons: 10-90 minutes)
 6. Include comprehensive learning objectives and prerequisites
 7. Choose existing categories or suggest new ones
@@ -243,95 +266,75 @@ INSTRUCTIONS:
 
 IMPORTANT: You MUST use the createCourse tool to actually create the course. Do not just provide a description - use the tool to create it in the database.`;
 
-    const result = await streamText({
-      model: openai('gpt-4o-mini'),
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt,
-        },
-        {
-          role: 'user',
-          content: `Create a comprehensive course based on this prompt: "${prompt}". The instructor ID is: ${instructorId || 'unknown'}`,
-        },
-      ],
-      tools: {
-        createCourse: createCourseTool,
+  const result = await streamText({
+    model: openai('gpt-4o-mini'),
+    messages: [
+      {
+        role: 'system',
+        content: systemPrompt,
       },
-      // maxTokens: 4000,
-      temperature: 0.7,
-    });
+      {
+        role: 'user',
+        content: `Create a comprehensive course based on this prompt: "${prompt}". The instructor ID is: ${instructorId || 'unknown'}`,
+      },
+    ],
+    tools: {
+      createCourse: createCourseTool(instructorId),
+    },
+    // maxTokens: 4000,
+    temperature: 0.7,
+  });
 
-    // Collect the result
-    let courseCreated = false;
-    let courseData = null;
-    let aiResponse = '';
+  // Collect the result
+  let courseCreated = false;
+  let courseData = null;
+  let aiResponse = '';
 
-    for await (const chunk of result.fullStream) {
-      if (chunk.type === 'text-delta') {
-        aiResponse += chunk.textDelta;
-      } else if (chunk.type === 'tool-result') {
-        if (chunk.toolName === 'createCourse') {
-          courseCreated = true;
-          courseData = chunk.result;
-        }
+  for await (const chunk of result.fullStream) {
+    if (chunk.type === 'text-delta') {
+      aiResponse += chunk.textDelta;
+    } else if (chunk.type === 'tool-result') {
+      if (chunk.toolName === 'createCourse') {
+        courseCreated = true;
+        courseData = chunk.result;
       }
     }
+  }
 
-    if (courseCreated && courseData?.success) {
-      console.log('✅ Successfully generated and created course via AI tool');
-      res.json({
-        success: true,
-        course: courseData.course,
-        message: courseData.message,
-        aiResponse: aiResponse.trim(),
-      });
-    } else {
-      console.error('❌ AI did not create course or creation failed');
-      console.error('Course data received:', JSON.stringify(courseData, null, 2));
-      console.error('AI response:', aiResponse);
-      res.status(500).json({ 
-        error: 'Failed to create course', 
-        details: courseData?.message || courseData?.error || 'AI did not call the createCourse tool',
-        aiResponse: aiResponse.trim(),
-        debugInfo: courseData,
-      });
-    }
-  } catch (error) {
-    console.error('❌ Error generating course:', error);
-    
-    if (error instanceof z.ZodError) {
-      return res.status(400).json({ 
-        error: 'Invalid request data', 
-        details: error.errors 
-      });
-    }
-    
-    res.status(500).json({ 
-      error: 'Failed to generate course', 
-      message: error instanceof Error ? error.message : 'Unknown error' 
+  if (courseCreated && courseData?.success) {
+    console.log('✅ Successfully generated and created course via AI tool');
+    res.json({
+      success: true,
+      course: courseData.course,
+      message: courseData.message,
+      aiResponse: aiResponse.trim(),
     });
+  } else {
+    console.error('❌ AI did not create course or creation failed');
+    console.error('Course data received:', JSON.stringify(courseData, null, 2));
+    console.error('AI response:', aiResponse);
+    throw new AppError(
+      502,
+      'COURSE_GENERATION_FAILED',
+      courseData?.message || courseData?.error || 'AI did not call the createCourse tool',
+      { aiResponse: aiResponse.trim() }
+    );
   }
 });
 
 // Get AI course generation statistics (optional endpoint)
 aiRoutes.get('/ai/stats', async (req, res) => {
-  try {
-    // This could track AI-generated courses in the future
-    // For now, return basic stats
-    const totalCourses = await db
-      .select({ count: courses.id })
-      .from(courses);
+  // This could track AI-generated courses in the future
+  // For now, return basic stats
+  const totalCourses = await db
+    .select({ count: courses.id })
+    .from(courses);
 
-    res.json({
-      totalCourses: totalCourses.length,
-      aiGeneratedCourses: 0, // Would need to track this in the future
-      message: 'AI course generation is operational',
-    });
-  } catch (error) {
-    console.error('❌ Error getting AI stats:', error);
-    res.status(500).json({ error: 'Failed to get AI stats' });
-  }
+  res.json({
+    totalCourses: totalCourses.length,
+    aiGeneratedCourses: 0, // Would need to track this in the future
+    message: 'AI course generation is operational',
+  });
 });
 
 export default aiRoutes;
\ No newline at end of file
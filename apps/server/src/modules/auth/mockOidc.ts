@@ -0,0 +1,203 @@
+import express from 'express';
+import { createHash, generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { apiUrl } from '../../config';
+
+// A minimal OpenID Connect provider for local development and offline
+// testing. It implements the authorization-code flow with RS256-signed ID
+// tokens, so the SSO handshake runs exactly as it would against Google.
+// Anyone can sign in as any email with it, so it only runs when
+// SSO_MOCK_PROVIDER=true.
+
+export const isMockOidcEnabled = process.env.SSO_MOCK_PROVIDER === 'true';
+
+export const MOCK_OIDC_ISSUER = `${apiUrl}/api/mock-oidc`;
+export const MOCK_OIDC_CLIENT_ID = 'sentry-academy-local';
+export const MOCK_OIDC_CLIENT_SECRET = 'sentry-academy-local-secret';
+
+const KEY_ID = 'mock-oidc-key';
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 60 * 60;
+
+// Regenerated on every boot; relying parties pick it up through the JWKS
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  expiresAt: number;
+}
+
+const pendingCodes = new Map<string, PendingCode>();
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const base64url = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+// Stable subject per email so repeated sign-ins map to the same identity
+const subjectFor = (email: string) =>
+  createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24);
+
+const signIdToken = (claims: object) => {
+  const header = base64url({ alg: 'RS256', typ: 'JWT', kid: KEY_ID });
+  const payload = base64url(claims);
+  const signature = sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey);
+  return `${header}.${payload}.${signature.toString('base64url')}`;
+};
+
+const issueCode = (params: Omit<PendingCode, 'expiresAt'>) => {
+  const code = randomBytes(24).toString('base64url');
+  pendingCodes.set(code, { ...params, expiresAt: Date.now() + CODE_TTL_MS });
+  return code;
+};
+
+const redirectWithCode = (
+  res: express.Response,
+  redirectUri: string,
+  code: string,
+  state: string
+) => {
+  const url = new URL(redirectUri);
+  url.searchParams.set('code', code);
+  url.searchParams.set('state', state);
+  res.redirect(url.toString());
+};
+
+export const mockOidcRoutes = express.Router();
+
+mockOidcRoutes.use(express.urlencoded({ extended: false }));
+
+mockOidcRoutes.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: MOCK_OIDC_ISSUER,
+    authorization_endpoint: `${MOCK_OIDC_ISSUER}/authorize`,
+    token_endpoint: `${MOCK_OIDC_ISSUER}/token`,
+    jwks_uri: `${MOCK_OIDC_ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+  });
+});
+
+mockOidcRoutes.get('/jwks', (req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }],
+  });
+});
+
+// Shows a sign-in form. Passing `login_hint` skips the form, which is handy
+// for scripted tests.
+mockOidcRoutes.get('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, login_hint } = req.query as Record<
+    string,
+    string | undefined
+  >;
+
+  if (client_id !== MOCK_OIDC_CLIENT_ID || !redirect_uri || !state) {
+    res.status(400).send('Invalid authorization request');
+    return;
+  }
+
+  if (login_hint) {
+    const code = issueCode({
+      clientId: client_id,
+      redirectUri: redirect_uri,
+      nonce,
+      email: login_hint,
+      name: login_hint.split('@')[0],
+    });
+    redirectWithCode(res, redirect_uri, code, state);
+    return;
+  }
+
+  const hidden = { client_id, redirect_uri, state, nonce: nonce || '' };
+
+  res.type('html').send(`<!doctype html>
+<html>
+  <head><title>Mock SSO sign-in</title></head>
+  <body style="font-family: sans-serif; max-width: 360px; margin: 80px auto;">
+    <h1>Mock SSO sign-in</h1>
+    <p>Local identity provider for development. Any email signs in.</p>
+    <form method="post" action="${MOCK_OIDC_ISSUER}/authorize">
+      ${Object.entries(hidden)
+        .map(([key, value]) => `<input type="hidden" name="${key}" value="${escapeHtml(value)}" />`)
+        .join('\n      ')}
+      <p><label>Email<br /><input name="email" type="email" required value="sso.user@example.com" /></label></p>
+      <p><label>Name<br /><input name="name" required value="SSO User" /></label></p>
+      <button type="submit">Sign in</button>
+    </form>
+  </body>
+</html>`);
+});
+
+mockOidcRoutes.post('/authorize', (req, res) => {
+  const { client_id, redirect_uri, state, nonce, email, name } = req.body;
+
+  if (client_id !== MOCK_OIDC_CLIENT_ID || !redirect_uri || !state || !email) {
+    res.status(400).send('Invalid authorization request');
+    return;
+  }
+
+  const code = issueCode({
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce: nonce || undefined,
+    email,
+    name: name || email.split('@')[0],
+  });
+  redirectWithCode(res, redirect_uri, code, state);
+});
+
+mockOidcRoutes.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, client_secret } = req.body;
+
+  if (client_id !== MOCK_OIDC_CLIENT_ID || client_secret !== MOCK_OIDC_CLIENT_SECRET) {
+    res.status(401).json({ error: 'invalid_client' });
+    return;
+  }
+
+  if (grant_type !== 'authorization_code') {
+    res.status(400).json({ error: 'unsupported_grant_type' });
+    return;
+  }
+
+  // Codes are single use
+  const pending = pendingCodes.get(code);
+  pendingCodes.delete(code);
+
+  if (
+    !pending ||
+    pending.expiresAt < Date.now() ||
+    pending.clientId !== client_id ||
+    pending.redirectUri !== redirect_uri
+  ) {
+    res.status(400).json({ error: 'invalid_grant' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = signIdToken({
+    iss: MOCK_OIDC_ISSUER,
+    sub: subjectFor(pending.email),
+    aud: client_id,
+    iat: now,
+    exp: now + ID_TOKEN_TTL_SECONDS,
+    nonce: pending.nonce,
+    email: pending.email,
+    // Nobody checked the email, so it never links to an existing account
+    email_verified: false,
+    name: pending.name,
+    picture: `https://ui-avatars.com/api/?name=${encodeURIComponent(pending.name)}&background=random&size=150`,
+  });
+
+  res.json({
+    access_token: randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_TTL_SECONDS,
+    id_token: idToken,
+  });
+});
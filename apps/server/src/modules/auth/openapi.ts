@@ -0,0 +1,138 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, idParams, json, problems } from '../../lib/openapi';
+import { loginSchema, registerSchema, userProfileSchema } from '../../../db/validation';
+
+const sessionUserSchema = userProfileSchema
+  .pick({ id: true, email: true, name: true, role: true })
+  .extend({
+    avatar: z.string(),
+    authProvider: z.string().optional().openapi({ description: 'Set for SSO sign-ins' }),
+  })
+  .openapi('SessionUser');
+
+const signInSchema = z
+  .object({
+    user: sessionUserSchema,
+    token: z.string().openapi({ description: 'Send as `Authorization: Bearer <token>`' }),
+    expiresIn: z.string().openapi({ example: '24h' }),
+  })
+  .openapi('SignIn');
+
+const sessionSchema = z
+  .object({
+    id: z.string(),
+    device: z.string().openapi({ example: 'Chrome on macOS' }),
+    userAgent: z.string().nullable(),
+    ipAddress: z.string().nullable(),
+    createdAt: z.string(),
+    lastSeenAt: z.string(),
+    expiresAt: z.string(),
+    current: z.boolean().openapi({ description: 'Whether this is the calling session' }),
+  })
+  .openapi('Session');
+
+const providerParams = z.object({
+  provider: z.string().openapi({ example: 'google' }),
+});
+
+export const registerAuthPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/auth/register',
+    tags: ['Auth'],
+    summary: 'Create a student account and sign in',
+    request: { body: { content: { 'application/json': { schema: registerSchema } } } },
+    responses: {
+      201: json(signInSchema, 'Signed in'),
+      ...problems(400, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/auth/login',
+    tags: ['Auth'],
+    summary: 'Sign in with email and password',
+    request: { body: { content: { 'application/json': { schema: loginSchema } } } },
+    responses: {
+      200: json(signInSchema, 'Signed in'),
+      ...problems(400, 401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/auth/sso/{provider}/authorize',
+    tags: ['Auth'],
+    summary: "Get the provider's authorization URL to start SSO",
+    request: {
+      params: providerParams,
+      query: z.object({
+        redirectUri: z.string().openapi({ description: 'Frontend callback URL' }),
+      }),
+    },
+    responses: {
+      200: json(
+        z.object({ authorizationUrl: z.string(), state: z.string() }),
+        'Where to send the user'
+      ),
+      ...problems(400, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/auth/sso/{provider}',
+    tags: ['Auth'],
+    summary: 'Finish SSO with the code and state from the provider callback',
+    request: {
+      params: providerParams,
+      body: {
+        content: {
+          'application/json': { schema: z.object({ code: z.string(), state: z.string() }) },
+        },
+      },
+    },
+    responses: {
+      200: json(signInSchema, 'Signed in'),
+      ...problems(400, 401, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/auth/logout',
+    tags: ['Auth'],
+    summary: 'Sign out the calling session',
+    security: bearerAuth,
+    responses: {
+      200: json(z.object({ success: z.literal(true), message: z.string() }), 'Signed out'),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/auth/sessions',
+    tags: ['Auth'],
+    summary: 'List your active sessions',
+    security: bearerAuth,
+    responses: {
+      200: json(z.array(sessionSchema), 'Sessions, most recently used first'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/auth/sessions/{id}',
+    tags: ['Auth'],
+    summary: 'Sign out one of your sessions',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(z.object({ success: z.literal(true), revokedId: z.string() }), 'Signed out'),
+      ...problems(401, 404),
+    },
+  });
+};
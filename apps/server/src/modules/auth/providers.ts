@@ -0,0 +1,199 @@
+import { verifyIdToken } from '../../lib/idTokens';
+import {
+  isMockOidcEnabled,
+  MOCK_OIDC_ISSUER,
+  MOCK_OIDC_CLIENT_ID,
+  MOCK_OIDC_CLIENT_SECRET,
+} from './mockOidc';
+
+// SSO providers. Each one knows how to build its authorization URL and how to
+// turn an authorization code into a verified profile. Providers without
+// credentials in the environment are unavailable; the local mock OIDC
+// provider is offered as `mock` when it is enabled, so the flow works offline.
+
+export interface SsoProfile {
+  externalId: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  avatarUrl: string | null;
+}
+
+export interface SsoProvider {
+  getAuthorizationUrl(params: { state: string; nonce: string; redirectUri: string }): string;
+  exchangeCode(params: { code: string; nonce: string; redirectUri: string }): Promise<SsoProfile>;
+}
+
+interface OidcProviderConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  jwksUri: string;
+  scope: string;
+}
+
+const createOidcProvider = (config: OidcProviderConfig): SsoProvider => ({
+  getAuthorizationUrl({ state, nonce, redirectUri }) {
+    const url = new URL(config.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', config.scope);
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    return url.toString();
+  },
+
+  async exchangeCode({ code, nonce, redirectUri }) {
+    const response = await fetch(config.tokenEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token exchange failed: HTTP ${response.status}`);
+    }
+
+    const { id_token } = (await response.json()) as { id_token?: string };
+    if (!id_token) {
+      throw new Error('Token response did not include an ID token');
+    }
+
+    const claims = await verifyIdToken(id_token, {
+      jwksUri: config.jwksUri,
+      issuer: config.issuer,
+      audience: config.clientId,
+      nonce,
+    });
+
+    if (!claims.email) {
+      throw new Error('ID token does not include an email claim');
+    }
+
+    return {
+      externalId: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      name: claims.name || claims.email.split('@')[0],
+      avatarUrl: claims.picture || null,
+    };
+  },
+});
+
+// GitHub only speaks plain OAuth2 (no ID token), so the profile is read from
+// its API with the access token the code exchange returns.
+const createGithubProvider = (config: { clientId: string; clientSecret: string }): SsoProvider => ({
+  getAuthorizationUrl({ state, redirectUri }) {
+    const url = new URL('https://github.com/login/oauth/authorize');
+    url.searchParams.set('client_id', config.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', 'read:user user:email');
+    url.searchParams.set('state', state);
+    return url.toString();
+  },
+
+  async exchangeCode({ code, redirectUri }) {
+    const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        client_id: config.clientId,
+        client_secret: config.clientSecret,
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+    const { access_token } = (await tokenResponse.json()) as { access_token?: string };
+
+    if (!access_token) {
+      throw new Error('GitHub did not return an access token');
+    }
+
+    const headers = {
+      Authorization: `Bearer ${access_token}`,
+      Accept: 'application/vnd.github+json',
+      'User-Agent': 'sentry-academy',
+    };
+
+    const profile = (await (await fetch('https://api.github.com/user', { headers })).json()) as {
+      id: number;
+      login: string;
+      name: string | null;
+      avatar_url: string | null;
+    };
+    const emails = (await (await fetch('https://api.github.com/user/emails', { headers })).json()) as {
+      email: string;
+      primary: boolean;
+      verified: boolean;
+    }[];
+
+    const primary = emails.find((e) => e.primary) || emails[0];
+    if (!primary) {
+      throw new Error('GitHub account has no email address');
+    }
+
+    return {
+      externalId: String(profile.id),
+      email: primary.email,
+      emailVerified: primary.verified,
+      name: profile.name || profile.login,
+      avatarUrl: profile.avatar_url,
+    };
+  },
+});
+
+const createMockProvider = (): SsoProvider =>
+  createOidcProvider({
+    issuer: MOCK_OIDC_ISSUER,
+    clientId: MOCK_OIDC_CLIENT_ID,
+    clientSecret: MOCK_OIDC_CLIENT_SECRET,
+    authorizationEndpoint: `${MOCK_OIDC_ISSUER}/authorize`,
+    tokenEndpoint: `${MOCK_OIDC_ISSUER}/token`,
+    jwksUri: `${MOCK_OIDC_ISSUER}/jwks`,
+    scope: 'openid email profile',
+  });
+
+const googleFromEnv = () => {
+  const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET } = process.env;
+  if (GOOGLE_CLIENT_ID && GOOGLE_CLIENT_SECRET) {
+    return createOidcProvider({
+      issuer: 'https://accounts.google.com',
+      clientId: GOOGLE_CLIENT_ID,
+      clientSecret: GOOGLE_CLIENT_SECRET,
+      authorizationEndpoint: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenEndpoint: 'https://oauth2.googleapis.com/token',
+      jwksUri: 'https://www.googleapis.com/oauth2/v3/certs',
+      scope: 'openid email profile',
+    });
+  }
+  return null;
+};
+
+const githubFromEnv = () => {
+  const { GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET } = process.env;
+  if (GITHUB_CLIENT_ID && GITHUB_CLIENT_SECRET) {
+    return createGithubProvider({
+      clientId: GITHUB_CLIENT_ID,
+      clientSecret: GITHUB_CLIENT_SECRET,
+    });
+  }
+  return null;
+};
+
+const providers: Record<string, SsoProvider | null> = {
+  google: googleFromEnv(),
+  github: githubFromEnv(),
+  mock: isMockOidcEnabled ? createMockProvider() : null,
+};
+
+export const getSsoProvider = (name: string): SsoProvider | null =>
+  Object.hasOwn(providers, name) ? providers[name] : null;
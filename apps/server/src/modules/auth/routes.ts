@@ -1,136 +1,347 @@
 import express from 'express';
+import { randomBytes } from 'crypto';
 import { createId } from '@paralleldrive/cuid2';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { db } from '../../../db';
+import { users, userIdentities, sessions } from '../../../db/schema';
+import { loginSchema, registerSchema } from '../../../db/validation';
+import { signJwt, verifyJwt } from '../../lib/tokens';
+import { hashPassword, verifyPassword } from '../../lib/passwords';
+import { clientOrigins } from '../../config';
+import { getSsoProvider, type SsoProfile } from './providers';
+import { startSession, describeUserAgent } from './sessions';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { ConflictError, NotFoundError, UnauthorizedError, ValidationError } from '../../lib/errors';
 
 export const authRoutes = express.Router();
 
-// Simple mock user for email/password login
-const mockUser = {
-  id: 'demo-user-id',
-  email: 'demo@example.com',
-  name: 'Demo User',
-  role: 'student',
-  avatar: 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg',
-  preferences: {
-    theme: 'light',
-  },
-};
+const DEFAULT_AVATAR =
+  'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg';
+
+const toSessionUser = (user: typeof users.$inferSelect) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  avatar: user.avatarUrl || DEFAULT_AVATAR,
+});
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+authRoutes.post('/register', validate(registerSchema), async (req, res) => {
+  const { name, password } = req.body;
+  const email = normalizeEmail(req.body.email);
+
+  console.log(`Registration attempt for email: ${email}`);
+
+  const existing = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+
+  if (existing.length) {
+    throw new ConflictError('An account with this email already exists', { code: 'EMAIL_TAKEN' });
+  }
+
+  const created = await db
+    .insert(users)
+    .values({
+      id: createId(),
+      email,
+      name,
+      passwordHash: await hashPassword(password),
+      role: 'student',
+      avatarUrl: DEFAULT_AVATAR,
+    })
+    .onConflictDoNothing({ target: users.email })
+    .returning();
+
+  // Lost a race with a concurrent registration for the same email
+  if (!created.length) {
+    throw new ConflictError('An account with this email already exists', { code: 'EMAIL_TAKEN' });
+  }
+
+  const user = created[0];
+
+  console.log(`Successful registration for ${email}`);
+  res.status(201).json({
+    user: toSessionUser(user),
+    ...(await startSession(user, req)),
+  });
+});
+
+authRoutes.post('/login', validate(loginSchema), async (req, res) => {
+  const { password } = req.body;
+  const email = normalizeEmail(req.body.email);
+
+  console.log(`Login attempt for email: ${email}`);
 
-// @ts-expect-error - Express router type issue
-authRoutes.post('/login', async (req, res) => {
+  if (email === 'admin@sentry.io') {
+    throw new UnauthorizedError('Admin access is not allowed. Please use the Admin portal.');
+  }
+
+  const found = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, email))
+    .limit(1);
+  const user = found[0];
+
+  // Same response for unknown email and wrong password to avoid leaking
+  // which accounts exist
+  if (
+    !user ||
+    !user.passwordHash ||
+    !(await verifyPassword(password, user.passwordHash))
+  ) {
+    throw new UnauthorizedError('Invalid email or password', { code: 'INVALID_CREDENTIALS' });
+  }
+
+  const responseData = {
+    user: toSessionUser(user),
+    ...(await startSession(user, req)),
+  };
+
+  console.log(`Successful login for ${email}`);
+  res.json(responseData);
+});
+
+const SSO_STATE_TTL_SECONDS = 10 * 60;
+
+interface SsoState {
+  purpose: 'sso_state';
+  provider: string;
+  nonce: string;
+  redirectUri: string;
+  exp: number;
+}
+
+// Only our own frontend may receive authorization codes
+const isAllowedRedirect = (redirectUri: string) => {
   try {
-    const { email, password } = req.body;
+    return clientOrigins.includes(new URL(redirectUri).origin);
+  } catch {
+    return false;
+  }
+};
 
-    console.log(`Login attempt for email: ${email}`);
+// Resolves the user behind an SSO profile: an already linked identity wins,
+// then an existing account with the same verified email gets linked, and
+// otherwise a new student account is created. Returns null when the email
+// belongs to an account we can't safely link.
+const upsertSsoUser = (provider: string, profile: SsoProfile) =>
+  db.transaction(async (tx) => {
+    const linked = await tx
+      .select({ user: users })
+      .from(userIdentities)
+      .innerJoin(users, eq(userIdentities.userId, users.id))
+      .where(
+        and(
+          eq(userIdentities.provider, provider),
+          eq(userIdentities.externalId, profile.externalId)
+        )
+      )
+      .limit(1);
 
-    // Simple validation
-    if (!email || !password) {
-      return res.status(400).json({
-        error: 'MISSING_CREDENTIALS',
-        message: 'Email and password are required',
-      });
+    if (linked.length) {
+      await tx
+        .update(userIdentities)
+        .set({ email: profile.email, lastLoginAt: new Date() })
+        .where(
+          and(
+            eq(userIdentities.provider, provider),
+            eq(userIdentities.externalId, profile.externalId)
+          )
+        );
+      return linked[0].user;
     }
 
-    if (email === 'admin@sentry.io') {
-      return res.status(401).json({
-        error: 'UNAUTHORIZED',
-        message: 'Admin access is not allowed. Please use the Admin portal.',
-      });
+    const email = normalizeEmail(profile.email);
+    const existing = await tx
+      .select()
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    if (existing.length && !profile.emailVerified) {
+      return null;
     }
 
-    // Simulate authentication delay
-    await new Promise((resolve) => setTimeout(resolve, 500));
-
-    // For demo purposes, accept any email/password
-    const responseData = {
-      user: { ...mockUser, email },
-      token: `token-${createId()}`,
-      expiresIn: '24h',
-    };
-
-    console.log(`Successful login for ${email}`);
-    res.json(responseData);
-  } catch (error: any) {
-    console.error('Login error:', error);
-    res.status(500).json({
-      error: 'INTERNAL_SERVER_ERROR',
-      message: 'Authentication service error',
+    const user =
+      existing[0] ??
+      (
+        await tx
+          .insert(users)
+          .values({
+            id: createId(),
+            email,
+            name: profile.name,
+            role: 'student',
+            avatarUrl: profile.avatarUrl || DEFAULT_AVATAR,
+          })
+          .returning()
+      )[0];
+
+    await tx.insert(userIdentities).values({
+      id: createId(),
+      userId: user.id,
+      provider,
+      externalId: profile.externalId,
+      email: profile.email,
+    });
+
+    return user;
+  });
+
+// Step 1: hand the client the provider's authorization URL. The signed state
+// carries the nonce and redirect URI so no server-side storage is needed.
+authRoutes.get('/sso/:provider/authorize', (req, res) => {
+  const { provider } = req.params;
+  const redirectUri = req.query.redirectUri;
+  const ssoProvider = getSsoProvider(provider);
+
+  if (!ssoProvider) {
+    throw new NotFoundError(`SSO provider "${provider}" is not available`, {
+      code: 'UNKNOWN_SSO_PROVIDER',
     });
   }
+
+  if (typeof redirectUri !== 'string' || !isAllowedRedirect(redirectUri)) {
+    throw new ValidationError('redirectUri must point to the Sentry Academy frontend', {
+      code: 'INVALID_REDIRECT_URI',
+    });
+  }
+
+  const nonce = randomBytes(16).toString('base64url');
+  const state = signJwt(
+    { purpose: 'sso_state', provider, nonce, redirectUri },
+    SSO_STATE_TTL_SECONDS
+  );
+
+  res.json({
+    authorizationUrl: ssoProvider.getAuthorizationUrl({ state, nonce, redirectUri }),
+    state,
+  });
 });
 
+// Step 2: the client posts back the code and state from the provider
+// callback; we exchange the code and verify the identity server-side.
 authRoutes.post('/sso/:provider', async (req, res) => {
-  try {
-    const { provider } = req.params;
-    const { loginSignature } = req.body;
-    
-    // TOFIX Module 1: SSO Login with missing login signature
-    const signaturePayload = JSON.parse(atob(loginSignature)); // This will throw when loginSignature is undefined
-    
-    // Use the rich fake user data from the signature payload, with sensible defaults
-    const fakeUserData = signaturePayload.userData || {};
-
-    const ssoUser = {
-      id: fakeUserData.id || createId(),
-      email: fakeUserData.email || `${provider}.user@example.com`,
-      name: fakeUserData.name || `${provider.charAt(0).toUpperCase() + provider.slice(1)} User`,
-      firstName: fakeUserData.firstName || 'Demo',
-      lastName: fakeUserData.lastName || 'User',
-      username: fakeUserData.username || 'demo.user',
-      avatar:
-        fakeUserData.avatar ||
-        'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg',
-      company: fakeUserData.company || 'Demo Company',
-      jobTitle: fakeUserData.jobTitle || 'Software Developer',
-      phone: fakeUserData.phone || '+1-555-0123',
-      workEmail: fakeUserData.workEmail || fakeUserData.email,
-      role: 'student',
-      provider: provider,
-      signatureClaims: {
-        sub: signaturePayload.sub,
-        exp: signaturePayload.exp,
-        metadata: {
-          permissions: [],
-          roles: [],
-        },
-      },
-      socialProfile: {
-        profileImage:
-          fakeUserData.avatar ||
-          'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg',
-        verified: true,
-        provider: provider,
-        externalId: signaturePayload.sub,
-        profile: {
-          username: fakeUserData.username || (fakeUserData.email || signaturePayload.email || 'user').split('@')[0],
-          avatar: fakeUserData.avatar || 'https://images.pexels.com/photos/220453/pexels-photo-220453.jpeg'
-        }
-      }
-    };
-
-    const responseData = {
-      user: ssoUser,
-      token: `sso-token-${createId()}`,
-      expiresIn: '24h',
-    };
-    
-    res.json(responseData);
-  } catch (error: any) {
-    throw error;
+  const { provider } = req.params;
+  const { code, state } = req.body;
+  const ssoProvider = getSsoProvider(provider);
+
+  if (!ssoProvider) {
+    throw new NotFoundError(`SSO provider "${provider}" is not available`, {
+      code: 'UNKNOWN_SSO_PROVIDER',
+    });
   }
-});
 
-authRoutes.post('/logout', async (req, res) => {
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    throw new ValidationError('Authorization code and state are required', {
+      code: 'MISSING_AUTHORIZATION_CODE',
+    });
+  }
+
+  const ssoState = verifyJwt<SsoState>(state);
+  if (!ssoState || ssoState.purpose !== 'sso_state' || ssoState.provider !== provider) {
+    throw new ValidationError('SSO session is invalid or has expired. Please try again.', {
+      code: 'INVALID_SSO_STATE',
+    });
+  }
+
+  let profile: SsoProfile;
   try {
-    console.log('User logout');
-    res.json({
-      success: true,
-      message: 'Successfully logged out',
+    profile = await ssoProvider.exchangeCode({
+      code,
+      nonce: ssoState.nonce,
+      redirectUri: ssoState.redirectUri,
     });
-  } catch (error: any) {
-    console.error('Logout error:', error);
-    res.status(500).json({
-      error: 'LOGOUT_FAILED',
-      message: 'Failed to logout',
+  } catch (error) {
+    console.error(`SSO code exchange failed for ${provider}:`, error);
+    throw new UnauthorizedError(`Could not verify your ${provider} sign-in`, {
+      code: 'SSO_FAILED',
     });
   }
+
+  const user = await upsertSsoUser(provider, profile);
+  if (!user) {
+    throw new ConflictError(
+      'An account with this email already exists. Sign in with your password to continue.',
+      { code: 'EMAIL_TAKEN' }
+    );
+  }
+
+  console.log(`Successful ${provider} SSO login for ${user.email}`);
+  res.json({
+    user: { ...toSessionUser(user), authProvider: provider },
+    ...(await startSession(user, req)),
+  });
+});
+
+authRoutes.post('/logout', async (req, res) => {
+  // Revoke the server-side session so the token stops working immediately
+  if (req.sessionId) {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(eq(sessions.id, req.sessionId));
+  }
+
+  console.log('User logout');
+  res.json({
+    success: true,
+    message: 'Successfully logged out',
+  });
+});
+
+// List the signed-in user's active sessions
+authRoutes.get('/sessions', requireAuth, async (req, res) => {
+  const activeSessions = await db
+    .select()
+    .from(sessions)
+    .where(
+      and(
+        eq(sessions.userId, req.user!.id),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, new Date())
+      )
+    )
+    .orderBy(desc(sessions.lastSeenAt));
+
+  res.json(
+    activeSessions.map((session) => ({
+      id: session.id,
+      device: describeUserAgent(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session.id === req.sessionId,
+    }))
+  );
+});
+
+// Sign out one of the user's sessions, e.g. another device
+authRoutes.delete('/sessions/:id', requireAuth, async (req, res) => {
+  const revoked = await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(sessions.id, req.params.id),
+        eq(sessions.userId, req.user!.id),
+        isNull(sessions.revokedAt)
+      )
+    )
+    .returning({ id: sessions.id });
+
+  if (!revoked.length) {
+    throw new NotFoundError('Session not found', { code: 'SESSION_NOT_FOUND' });
+  }
+
+  res.json({ success: true, revokedId: revoked[0].id });
 });
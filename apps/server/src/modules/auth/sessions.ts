@@ -0,0 +1,59 @@
+import type { Request } from 'express';
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../../db';
+import { sessions, users } from '../../../db/schema';
+import { signToken, TOKEN_TTL_SECONDS } from '../../lib/tokens';
+
+// Records a new sign-in session for the user and returns the response body
+// shared by every login flow.
+export const startSession = async (
+  user: Pick<typeof users.$inferSelect, 'id' | 'email' | 'role'>,
+  req: Request
+) => {
+  const sessionId = createId();
+
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId: user.id,
+    userAgent: req.get('user-agent') || null,
+    ipAddress: req.ip || null,
+    expiresAt: new Date(Date.now() + TOKEN_TTL_SECONDS * 1000),
+  });
+
+  return {
+    token: signToken({
+      sub: user.id,
+      sid: sessionId,
+      email: user.email,
+      role: user.role,
+    }),
+    expiresIn: '24h',
+  };
+};
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Mac OS X/, 'macOS'],
+  [/Windows/, 'Windows'],
+  [/Linux/, 'Linux'],
+];
+
+// Turns a user agent into a short label like "Chrome on macOS"
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser || platform || 'Unknown device';
+};
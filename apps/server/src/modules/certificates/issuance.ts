@@ -0,0 +1,105 @@
+import { randomInt } from 'crypto';
+import { createId } from '@paralleldrive/cuid2';
+import { eq, and, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../../../db';
+import { certificates, enrollments, lessons, lessonProgress } from '../../../db/schema';
+
+// No 0/O or 1/I, so codes survive being read off a printed certificate
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// e.g. "SA-7K2M-QX9P-4HWD"
+export const generateVerificationCode = () => {
+  const groups = Array.from({ length: 3 }, () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('')
+  );
+  return `SA-${groups.join('-')}`;
+};
+
+// Issues the certificate for a completed enrollment. Safe to call repeatedly:
+// an enrollment only ever gets one certificate.
+export const issueCertificate = async (
+  enrollment: Pick<typeof enrollments.$inferSelect, 'id' | 'userId' | 'courseId'>
+) => {
+  return db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(certificates)
+      .values({
+        id: createId(),
+        userId: enrollment.userId,
+        courseId: enrollment.courseId,
+        enrollmentId: enrollment.id,
+        verificationCode: generateVerificationCode(),
+      })
+      .onConflictDoNothing({ target: certificates.enrollmentId })
+      .returning();
+
+    if (!inserted.length) {
+      const existing = await tx
+        .select()
+        .from(certificates)
+        .where(eq(certificates.enrollmentId, enrollment.id))
+        .limit(1);
+      return existing[0];
+    }
+
+    const certificate = inserted[0];
+
+    await tx
+      .update(enrollments)
+      .set({
+        certificateId: certificate.id,
+        completedAt: sql`coalesce(${enrollments.completedAt}, now())`,
+        progress: 100,
+      })
+      .where(eq(enrollments.id, enrollment.id));
+
+    console.log('🎓 Certificate issued:', certificate.id);
+    return certificate;
+  });
+};
+
+// Recalculates an enrollment's progress from its completed lessons and
+// issues the certificate once every lesson is done
+export const syncEnrollmentProgress = async (enrollmentId: string) => {
+  const enrollment = await db
+    .select()
+    .from(enrollments)
+    .where(eq(enrollments.id, enrollmentId))
+    .limit(1);
+
+  if (!enrollment.length) {
+    return null;
+  }
+
+  const [{ totalLessons }] = await db
+    .select({ totalLessons: sql<number>`count(*)::int` })
+    .from(lessons)
+    .where(eq(lessons.courseId, enrollment[0].courseId));
+
+  const [{ completedCount }] = await db
+    .select({ completedCount: sql<number>`count(distinct ${lessonProgress.lessonId})::int` })
+    .from(lessonProgress)
+    .innerJoin(lessons, eq(lessonProgress.lessonId, lessons.id))
+    .where(
+      and(
+        eq(lessonProgress.enrollmentId, enrollmentId),
+        eq(lessons.courseId, enrollment[0].courseId),
+        isNotNull(lessonProgress.completedAt)
+      )
+    );
+
+  const progress =
+    totalLessons > 0 ? Math.round((completedCount / totalLessons) * 100) : 0;
+
+  if (progress !== enrollment[0].progress) {
+    await db
+      .update(enrollments)
+      .set({ progress })
+      .where(eq(enrollments.id, enrollmentId));
+  }
+
+  const certificate =
+    progress === 100 ? await issueCertificate(enrollment[0]) : null;
+
+  return { progress, certificate };
+};
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, json, problems } from '../../lib/openapi';
+import { certificateSchema } from '../../../db/validation';
+
+const verificationSchema = z
+  .object({
+    valid: z.boolean(),
+    expired: z.boolean(),
+    revoked: z.boolean().openapi({ description: 'Set once the course purchase was refunded' }),
+    certificate: certificateSchema
+      .pick({
+        id: true,
+        verificationCode: true,
+        courseId: true,
+        issuedAt: true,
+        expiresAt: true,
+        revokedAt: true,
+      })
+      .extend({ recipientName: z.string(), courseTitle: z.string() }),
+  })
+  .openapi('CertificateVerification');
+
+const certificateParams = z.object({
+  id: z.string().openapi({ description: 'Certificate id or verification code' }),
+});
+
+export const registerCertificatePaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/certificates/{id}/verify',
+    tags: ['Certificates'],
+    summary: 'Check that a certificate is genuine',
+    request: { params: certificateParams },
+    responses: {
+      200: json(
+        verificationSchema,
+        'The certificate; `valid` is false once it has expired or was revoked'
+      ),
+      ...problems(404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/certificates/{id}/download',
+    tags: ['Certificates'],
+    summary: 'Download your certificate',
+    security: bearerAuth,
+    request: { params: certificateParams },
+    responses: {
+      200: {
+        description: 'The certificate as an SVG attachment',
+        content: { 'image/svg+xml': { schema: z.string() } },
+      },
+      ...problems(401, 404),
+    },
+  });
+};
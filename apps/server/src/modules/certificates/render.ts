@@ -0,0 +1,55 @@
+// Renders a certificate as a standalone SVG document (landscape A4 ratio),
+// which browsers can display, print or save as PDF.
+
+interface CertificateDetails {
+  recipientName: string;
+  courseTitle: string;
+  instructorName: string;
+  issuedAt: Date;
+  verificationCode: string;
+  verifyUrl: string;
+}
+
+const escapeXml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+export const renderCertificateSvg = ({
+  recipientName,
+  courseTitle,
+  instructorName,
+  issuedAt,
+  verificationCode,
+  verifyUrl,
+}: CertificateDetails) => {
+  const issuedOn = issuedAt.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="1123" height="794" viewBox="0 0 1123 794" font-family="Helvetica, Arial, sans-serif">
+  <rect width="1123" height="794" fill="#ffffff" />
+  <rect x="24" y="24" width="1075" height="746" fill="none" stroke="#7c3aed" stroke-width="6" />
+  <rect x="40" y="40" width="1043" height="714" fill="none" stroke="#ddd6fe" stroke-width="2" />
+
+  <text x="561.5" y="140" text-anchor="middle" font-size="22" fill="#7c3aed" letter-spacing="6">SENTRY ACADEMY</text>
+  <text x="561.5" y="220" text-anchor="middle" font-size="48" font-weight="bold" fill="#111827">Certificate of Completion</text>
+
+  <text x="561.5" y="300" text-anchor="middle" font-size="20" fill="#4b5563">This certifies that</text>
+  <text x="561.5" y="365" text-anchor="middle" font-size="40" font-weight="bold" fill="#111827">${escapeXml(recipientName)}</text>
+  <text x="561.5" y="425" text-anchor="middle" font-size="20" fill="#4b5563">has successfully completed</text>
+  <text x="561.5" y="480" text-anchor="middle" font-size="30" font-weight="bold" fill="#5b21b6">${escapeXml(courseTitle)}</text>
+
+  <line x1="180" y1="600" x2="460" y2="600" stroke="#9ca3af" />
+  <text x="320" y="630" text-anchor="middle" font-size="18" fill="#111827">${escapeXml(instructorName)}</text>
+  <text x="320" y="655" text-anchor="middle" font-size="14" fill="#6b7280">Instructor</text>
+
+  <line x1="663" y1="600" x2="943" y2="600" stroke="#9ca3af" />
+  <text x="803" y="630" text-anchor="middle" font-size="18" fill="#111827">${escapeXml(issuedOn)}</text>
+  <text x="803" y="655" text-anchor="middle" font-size="14" fill="#6b7280">Date issued</text>
+
+  <text x="561.5" y="720" text-anchor="middle" font-size="14" fill="#6b7280">Verification code ${escapeXml(verificationCode)} · ${escapeXml(verifyUrl)}</text>
+</svg>
+`;
+};
@@ -0,0 +1,102 @@
+import express from 'express';
+import { db } from '../../../db';
+import { certificates, courses, users } from '../../../db/schema';
+import { eq, or } from 'drizzle-orm';
+import { requireAuth } from '../../middleware/auth';
+import { apiUrl } from '../../config';
+import { renderCertificateSvg } from './render';
+import { NotFoundError } from '../../lib/errors';
+
+export const certificateRoutes = express.Router();
+
+const verifyUrlFor = (verificationCode: string) =>
+  `${apiUrl}/api/certificates/${verificationCode}/verify`;
+
+// Accepts either the certificate id or the verification code printed on it
+const findCertificate = async (idOrCode: string) => {
+  const found = await db
+    .select({
+      certificate: certificates,
+      recipientName: users.name,
+      courseTitle: courses.title,
+      instructorId: courses.instructorId,
+    })
+    .from(certificates)
+    .innerJoin(users, eq(certificates.userId, users.id))
+    .innerJoin(courses, eq(certificates.courseId, courses.id))
+    .where(
+      or(
+        eq(certificates.id, idOrCode),
+        eq(certificates.verificationCode, idOrCode.toUpperCase())
+      )
+    )
+    .limit(1);
+
+  return found[0] || null;
+};
+
+// Public endpoint for third parties to confirm a certificate is genuine
+certificateRoutes.get('/certificates/:id/verify', async (req, res) => {
+  const found = await findCertificate(req.params.id);
+
+  if (!found) {
+    // Verifiers only look at `valid`, so keep it on the problem document
+    throw new NotFoundError('Certificate not found', {
+      code: 'CERTIFICATE_NOT_FOUND',
+      extensions: { valid: false },
+    });
+  }
+
+  const { certificate } = found;
+  const expired = !!certificate.expiresAt && certificate.expiresAt < new Date();
+  const revoked = !!certificate.revokedAt;
+
+  res.json({
+    valid: !expired && !revoked,
+    expired,
+    revoked,
+    certificate: {
+      id: certificate.id,
+      verificationCode: certificate.verificationCode,
+      recipientName: found.recipientName,
+      courseId: certificate.courseId,
+      courseTitle: found.courseTitle,
+      issuedAt: certificate.issuedAt,
+      expiresAt: certificate.expiresAt,
+      revokedAt: certificate.revokedAt,
+    },
+  });
+});
+
+// Download your certificate as an SVG document
+certificateRoutes.get('/certificates/:id/download', requireAuth, async (req, res) => {
+  const found = await findCertificate(req.params.id);
+
+  if (
+    !found ||
+    found.certificate.revokedAt ||
+    (found.certificate.userId !== req.user!.id && req.user!.role !== 'admin')
+  ) {
+    throw new NotFoundError('Certificate not found');
+  }
+
+  const instructor = await db
+    .select({ name: users.name })
+    .from(users)
+    .where(eq(users.id, found.instructorId))
+    .limit(1);
+
+  const svg = renderCertificateSvg({
+    recipientName: found.recipientName,
+    courseTitle: found.courseTitle,
+    instructorName: instructor[0]?.name || 'Sentry Academy',
+    issuedAt: found.certificate.issuedAt,
+    verificationCode: found.certificate.verificationCode,
+    verifyUrl: verifyUrlFor(found.certificate.verificationCode),
+  });
+
+  res
+    .type('image/svg+xml')
+    .attachment(`certificate-${found.certificate.verificationCode}.svg`)
+    .send(svg);
+});
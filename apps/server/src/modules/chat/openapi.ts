@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { problems } from '../../lib/openapi';
+
+const chatRequestSchema = z.object({
+  messages: z.array(
+    z
+      .object({
+        role: z.string(),
+        content: z.string(),
+      })
+      .passthrough()
+  ),
+  model: z.enum(['4o-mini']).optional(),
+});
+
+export const registerChatPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/chat',
+    tags: ['Chat'],
+    summary: 'Chat with the learning assistant',
+    description: 'Streams the reply in the AI SDK data stream format, as read by `useChat`.',
+    request: { body: { content: { 'application/json': { schema: chatRequestSchema } } } },
+    responses: {
+      200: {
+        description: 'The streamed reply',
+        content: { 'text/plain': { schema: z.string() } },
+      },
+      ...problems(400),
+    },
+  });
+};
@@ -5,6 +5,7 @@ import { z } from 'zod';
 import { db } from '../../../db';
 import { courses, lessons, categories } from '../../../db/schema';
 import { eq, ilike, or, and } from 'drizzle-orm';
+import { ValidationError } from '../../lib/errors';
 
 export const chatRoutes = express.Router();
 
@@ -212,26 +213,25 @@ const getCategoresTool = tool({
 
 // Chat endpoint using AI SDK v4
 chatRoutes.post('/chat', async (req, res) => {
-  try {
-    const { messages, model = '4o-mini' } = req.body;
-    
-    if (!messages || !Array.isArray(messages)) {
-      return res.status(400).json({ error: 'Messages array is required' });
-    }
-    
-    // Map model names to actual OpenAI model identifiers
-    const modelMap = {
-      '4o-mini': 'gpt-4o-mini',
-    };
-    
-    const actualModel = modelMap[model as keyof typeof modelMap] || 'gpt-4o-mini';
-    
-    const result = await streamText({
-      model: openai(actualModel),
-      messages: [
-        {
-          role: 'system',
-          content: `You are a helpful AI assistant for Sentry Academy, an online learning platform. You can help users:
+  const { messages, model = '4o-mini' } = req.body;
+  
+  if (!messages || !Array.isArray(messages)) {
+    throw new ValidationError('Messages array is required');
+  }
+  
+  // Map model names to actual OpenAI model identifiers
+  const modelMap = {
+    '4o-mini': 'gpt-4o-mini',
+  };
+  
+  const actualModel = modelMap[model as keyof typeof modelMap] || 'gpt-4o-mini';
+  
+  const result = await streamText({
+    model: openai(actualModel),
+    messages: [
+      {
+        role: 'system',
+        content: `You are a helpful AI assistant for Sentry Academy, an online learning platform. You can help users:
 
 1. Browse all available courses in the catalog
 2. Search for courses by topic, category, or difficulty level
@@ -258,56 +258,48 @@ FORMATTING GUIDELINES for tool responses:
   • **Another Course** - Description here
 
 Be friendly, concise, and educational. Present information in a clean, scannable format optimized for a small chat window. You MUST ONLY respond to questions regarding the course platform and education. Do not respond to questions about other topics.`,
-        },
-        ...messages,
-      ],
-      tools: {
-        getAllCourses: getAllCoursesTool,
-        searchCourses: searchCoursesTool,
-        getLessons: getLessonsTool,
-        getCategories: getCategoresTool,
       },
-      // maxTokens: 4096,
-    });
+      ...messages,
+    ],
+    tools: {
+      getAllCourses: getAllCoursesTool,
+      searchCourses: searchCoursesTool,
+      getLessons: getLessonsTool,
+      getCategories: getCategoresTool,
+    },
+    // maxTokens: 4096,
+  });
 
-    // Manual streaming approach for better reliability
-    const dataStream = result.toDataStreamResponse();
-    
-    // Set headers that work with useChat
-    res.writeHead(200, {
-      'Content-Type': 'text/plain; charset=utf-8',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
-      'Transfer-Encoding': 'chunked',
-    });
+  // Manual streaming approach for better reliability
+  const dataStream = result.toDataStreamResponse();
+  
+  // Set headers that work with useChat
+  res.writeHead(200, {
+    'Content-Type': 'text/plain; charset=utf-8',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Transfer-Encoding': 'chunked',
+  });
+  
+  // Stream the response manually with proper error handling
+  if (dataStream.body) {
+    const reader = dataStream.body.getReader();
+    const decoder = new TextDecoder();
     
-    // Stream the response manually with proper error handling
-    if (dataStream.body) {
-      const reader = dataStream.body.getReader();
-      const decoder = new TextDecoder();
-      
-      try {
-        let chunk;
-        while (!(chunk = await reader.read()).done) {
-          const text = decoder.decode(chunk.value, { stream: true });
-          res.write(text);
-        }
-      } catch (streamError) {
-        console.error('❌ Streaming error:', streamError);
-      } finally {
-        reader.releaseLock();
-        res.end();
+    try {
+      let chunk;
+      while (!(chunk = await reader.read()).done) {
+        const text = decoder.decode(chunk.value, { stream: true });
+        res.write(text);
       }
-    } else {
+    } catch (streamError) {
+      console.error('❌ Streaming error:', streamError);
+    } finally {
+      reader.releaseLock();
       res.end();
     }
-    
-  } catch (error) {
-    console.error('Chat error:', error);
-    return res.status(500).json({ 
-      error: 'Failed to process chat request', 
-      message: error instanceof Error ? error.message : 'Unknown error' 
-    });
+  } else {
+    res.end();
   }
 });
 
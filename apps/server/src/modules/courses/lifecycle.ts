@@ -0,0 +1,118 @@
+import { and, eq, or, sql, type SQL } from 'drizzle-orm';
+import { db } from '../../../db';
+import { courses, lessons } from '../../../db/schema';
+import type { CourseStatus } from '@sentry-academy/contracts';
+import type { AuthUser } from '../../middleware/auth';
+import { ConflictError, NotFoundError, ValidationError } from '../../lib/errors';
+
+export type CourseTransition = 'submit' | 'publish' | 'archive';
+
+// draft -> in_review -> published -> archived. Archived courses can be
+// published again without another review.
+const transitions: Record<
+  CourseTransition,
+  { from: CourseStatus[]; to: CourseStatus; validate: boolean }
+> = {
+  submit: { from: ['draft'], to: 'in_review', validate: true },
+  publish: { from: ['in_review', 'archived'], to: 'published', validate: true },
+  archive: { from: ['draft', 'in_review', 'published'], to: 'archived', validate: false },
+};
+
+// Reasons a course isn't ready for students, or an empty list
+const findPublishProblems = async (courseId: string) => {
+  const courseLessons = await db
+    .select({
+      title: lessons.title,
+      type: lessons.type,
+      content: lessons.content,
+      videoUrl: lessons.videoUrl,
+    })
+    .from(lessons)
+    .where(eq(lessons.courseId, courseId));
+
+  if (!courseLessons.length) {
+    return ['Course must have at least one lesson'];
+  }
+
+  return courseLessons
+    .filter((lesson) =>
+      lesson.type === 'video' ? !lesson.videoUrl : !lesson.content?.trim()
+    )
+    .map((lesson) => `Lesson "${lesson.title}" has no content`);
+};
+
+// Moves a course to the next status. The update only applies while the course
+// is still in one of the expected states, so concurrent transitions can't
+// both succeed.
+export const transitionCourse = async (courseId: string, transition: CourseTransition) => {
+  const { from, to, validate } = transitions[transition];
+
+  const [course] = await db
+    .select({ status: courses.status })
+    .from(courses)
+    .where(eq(courses.id, courseId))
+    .limit(1);
+
+  if (!course) {
+    throw new NotFoundError('Course not found');
+  }
+
+  if (!from.includes(course.status)) {
+    throw new ConflictError(
+      `Cannot ${transition} a course that is ${course.status.replace('_', ' ')}`,
+      { code: 'INVALID_STATUS_TRANSITION' }
+    );
+  }
+
+  if (validate) {
+    const problems = await findPublishProblems(courseId);
+    if (problems.length) {
+      throw new ValidationError(problems.join('; '), {
+        code: 'COURSE_INCOMPLETE',
+        extensions: { problems },
+      });
+    }
+  }
+
+  const [updated] = await db
+    .update(courses)
+    .set({
+      status: to,
+      updatedAt: new Date(),
+      // Keep the original date when an archived course is republished
+      ...(to === 'published' && {
+        publishedAt: sql`coalesce(${courses.publishedAt}, now())`,
+      }),
+    })
+    .where(and(eq(courses.id, courseId), eq(courses.status, course.status)))
+    .returning();
+
+  if (!updated) {
+    throw new ConflictError('Course status changed, please retry', {
+      code: 'INVALID_STATUS_TRANSITION',
+    });
+  }
+
+  return updated;
+};
+
+// Drafts and courses in review are only visible to their instructor and
+// admins. Archived courses drop out of listings but stay reachable by id, so
+// enrolled students keep access.
+export const canViewCourse = (
+  user: AuthUser | undefined,
+  course: { status: CourseStatus; instructorId: string }
+) =>
+  course.status === 'published' ||
+  course.status === 'archived' ||
+  user?.role === 'admin' ||
+  user?.id === course.instructorId;
+
+// Which courses a user may list; the status filter is applied separately
+export const visibleCourses = (user: AuthUser | undefined): SQL | undefined => {
+  if (user?.role === 'admin') return undefined;
+  if (user) {
+    return or(eq(courses.status, 'published'), eq(courses.instructorId, user.id));
+  }
+  return eq(courses.status, 'published');
+};
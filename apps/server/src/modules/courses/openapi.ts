@@ -0,0 +1,140 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import {
+  bearerAuth,
+  idParams,
+  json,
+  keysetQuery,
+  nextCursorHeader,
+  problems,
+} from '../../lib/openapi';
+import {
+  categorySchema,
+  courseCreateSchema,
+  courseSchema,
+  courseUpdateSchema,
+  lessonListItemSchema,
+} from '../../../db/validation';
+
+const courseListItemSchema = courseSchema
+  .omit({ prerequisites: true, learningObjectives: true, updatedAt: true })
+  .extend({ instructor: z.string().nullable() })
+  .openapi('CourseListItem');
+
+const courseDetailSchema = courseSchema
+  .omit({ updatedAt: true })
+  .extend({
+    instructor: z.string().nullable(),
+    instructorBio: z.string().nullable(),
+    instructorAvatar: z.string().nullable(),
+    lessons: z.array(lessonListItemSchema),
+    enrollmentId: z
+      .string()
+      .nullable()
+      .openapi({ description: "The signed-in user's enrollment in the course, if any" }),
+  })
+  .openapi('CourseDetail');
+
+const courseListQuery = z.object({
+  category: z.string().optional(),
+  level: courseSchema.shape.level.optional(),
+  featured: z.enum(['true', 'false']).optional(),
+  status: z.string().optional().openapi({
+    description:
+      'Comma-separated statuses, or `all`. Defaults to published; other statuses only include your own courses unless you are an admin.',
+    example: 'draft,in_review',
+  }),
+  instructorId: z.string().optional(),
+  fields: z.string().optional().openapi({
+    description: 'Comma-separated columns to return; the response then only has `id` and these',
+    example: 'title,thumbnail,price',
+  }),
+  ...keysetQuery,
+});
+
+const transitions = {
+  submit: 'Send a draft for review. The course needs lessons with content.',
+  publish: 'Publish a course in review, or re-release an archived one. Admins only.',
+  archive: 'Withdraw a course from the catalog. Enrolled students keep access.',
+};
+
+export const registerCoursePaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/courses',
+    tags: ['Courses'],
+    summary: 'List courses, newest first',
+    request: { query: courseListQuery },
+    responses: {
+      200: { ...json(z.array(courseListItemSchema), 'Courses'), headers: nextCursorHeader },
+      ...problems(400),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/courses/categories',
+    tags: ['Courses'],
+    summary: 'List course categories',
+    responses: {
+      200: json(z.array(categorySchema), 'Categories'),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/courses/{id}',
+    tags: ['Courses'],
+    summary: 'Get a course with its lessons',
+    description: "Lessons the caller can't open yet are previews, see GET /lessons/{id}.",
+    request: { params: idParams },
+    responses: {
+      200: json(courseDetailSchema, 'The course'),
+      ...problems(404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/courses',
+    tags: ['Courses'],
+    summary: 'Create a draft course, optionally with lessons',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: courseCreateSchema } } } },
+    responses: {
+      201: json(courseSchema, 'The new course'),
+      ...problems(400, 401, 403),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/courses/{id}',
+    tags: ['Courses'],
+    summary: 'Update a course you instruct',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: courseUpdateSchema } } },
+    },
+    responses: {
+      200: json(courseSchema, 'The updated course'),
+      ...problems(400, 401, 403, 404),
+    },
+  });
+
+  for (const [transition, summary] of Object.entries(transitions)) {
+    registry.registerPath({
+      method: 'post',
+      path: `/courses/{id}/${transition}`,
+      tags: ['Courses'],
+      summary,
+      security: bearerAuth,
+      request: { params: idParams },
+      responses: {
+        200: json(courseSchema, 'The course in its new status'),
+        ...problems(400, 401, 403, 404, 409),
+      },
+    });
+  }
+};
@@ -1,153 +1,229 @@
 import express from 'express';
+import type { z } from 'zod';
 import { db } from '../../../db';
-import { courses, lessons, users, categories } from '../../../db/schema';
-import { eq, desc, and } from 'drizzle-orm';
+import { courses, lessons, users, categories, enrollments } from '../../../db/schema';
+import { eq, desc, and, inArray } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
+import { COURSE_STATUSES, type CourseLevel, type CourseStatus } from '@sentry-academy/contracts';
+import { requireRole, requireCourseOwner } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { NotFoundError, ValidationError } from '../../lib/errors';
+import { courseCreateSchema, courseUpdateSchema } from '../../../db/validation';
+import { redactLessons } from '../lessons/access';
+import {
+  NEXT_CURSOR_HEADER,
+  afterKeysetCursor,
+  decodeKeysetCursor,
+  encodeKeysetCursor,
+  keysetCursorKey,
+  parseLimit,
+} from '../../lib/pagination';
+import {
+  canViewCourse,
+  transitionCourse,
+  visibleCourses,
+  type CourseTransition,
+} from './lifecycle';
 
 export const courseRoutes = express.Router();
 
-// Get all courses
+type CourseCreate = z.infer<typeof courseCreateSchema>;
+
+const courseFromParams = async (req: express.Request) => req.params.id;
+
+// Columns a course listing can project with `?fields=`. `instructor` is the
+// instructor's name, joined in the same query.
+const courseListColumns = {
+  id: courses.id,
+  title: courses.title,
+  slug: courses.slug,
+  description: courses.description,
+  instructorId: courses.instructorId,
+  instructor: users.name,
+  thumbnail: courses.thumbnail,
+  category: courses.category,
+  tags: courses.tags,
+  level: courses.level,
+  status: courses.status,
+  duration: courses.duration,
+  price: courses.price,
+  rating: courses.rating,
+  reviewCount: courses.reviewCount,
+  enrollmentCount: courses.enrollmentCount,
+  isFeatured: courses.isFeatured,
+  createdAt: courses.createdAt,
+  publishedAt: courses.publishedAt,
+};
+
+type CourseListField = keyof typeof courseListColumns;
+
+const COURSE_PAGE_SIZE = 20;
+const MAX_COURSE_PAGE_SIZE = 100;
+
+// Get all courses. Pass `limit` and/or `cursor` to page through them; the
+// cursor for the next page comes back in the X-Next-Cursor header.
+// Only published courses are listed unless `status` asks for others, and then
+// only the caller's own courses (or any, for admins) are included.
 courseRoutes.get('/courses', async (req, res) => {
-  try {
-    const { category, level, featured } = req.query;
-
-    console.log('Courses query params:', { category, level, featured });
-
-    const conditions = [];
-    if (category) conditions.push(eq(courses.category, category as string));
-    if (level)
-      conditions.push(
-        eq(courses.level, level as 'beginner' | 'intermediate' | 'advanced')
-      );
-    if (featured === 'true') {
-      conditions.push(eq(courses.isFeatured, true));
-      // throw new Error('Not implemented');
+  const { category, level, featured, instructorId } = req.query;
+
+  const conditions = [visibleCourses(req.user)];
+  if (typeof req.query.status === 'string' && req.query.status !== 'all') {
+    const statuses = req.query.status.split(',').map((s) => s.trim());
+    const invalid = statuses.filter((s) => !COURSE_STATUSES.includes(s as CourseStatus));
+    if (invalid.length > 0) {
+      throw new ValidationError(`Unknown status: ${invalid.join(', ')}`);
     }
+    conditions.push(inArray(courses.status, statuses as CourseStatus[]));
+  } else if (req.query.status !== 'all') {
+    conditions.push(eq(courses.status, 'published'));
+  }
+  if (typeof instructorId === 'string') {
+    conditions.push(eq(courses.instructorId, instructorId));
+  }
+  if (category) conditions.push(eq(courses.category, category as string));
+  if (level) conditions.push(eq(courses.level, level as CourseLevel));
+  if (featured === 'true') {
+    conditions.push(eq(courses.isFeatured, true));
+  }
 
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-    console.log('Building query with conditions:', conditions.length);
-
-    const courseList = await db
-      .select({
-        id: courses.id,
-        title: courses.title,
-        slug: courses.slug,
-        description: courses.description,
-        instructorId: courses.instructorId,
-        thumbnail: courses.thumbnail,
-        category: courses.category,
-        tags: courses.tags,
-        level: courses.level,
-        duration: courses.duration,
-        price: courses.price,
-        rating: courses.rating,
-        reviewCount: courses.reviewCount,
-        enrollmentCount: courses.enrollmentCount,
-        isFeatured: courses.isFeatured,
-        createdAt: courses.createdAt,
-        publishedAt: courses.publishedAt,
-      })
-      .from(courses)
-      .where(whereClause)
-      .orderBy(desc(courses.createdAt));
-
-    for (const course of courseList as any) {
-      const instructor = await db
-        .select()
-        .from(users)
-        .where(eq(users.id, course.instructorId))
-        .limit(1);
-
-      course.instructor = instructor[0].name;
+  let columns: Partial<typeof courseListColumns> = courseListColumns;
+  if (typeof req.query.fields === 'string') {
+    const fields = req.query.fields.split(',').map((f) => f.trim()).filter(Boolean);
+    const unknown = fields.filter((f) => !Object.hasOwn(courseListColumns, f));
+    if (unknown.length > 0) {
+      throw new ValidationError(`Unknown fields: ${unknown.join(', ')}`);
     }
+    columns = Object.fromEntries(
+      ['id', ...fields].map((f) => [f, courseListColumns[f as CourseListField]])
+    );
+  }
+
+  const cursor =
+    typeof req.query.cursor === 'string' ? decodeKeysetCursor(req.query.cursor) : null;
+  if (req.query.cursor && !cursor) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  let limit = parseLimit(req.query.limit, MAX_COURSE_PAGE_SIZE);
+  if (Number.isNaN(limit)) {
+    throw new ValidationError('limit must be a positive integer');
+  }
+  if (cursor && limit === undefined) limit = COURSE_PAGE_SIZE;
+
+  if (cursor) conditions.push(afterKeysetCursor(courses.createdAt, courses.id, cursor));
+
+  const query = db
+    .select({ ...columns, cursorKey: keysetCursorKey(courses.createdAt) })
+    .from(courses)
+    .leftJoin(users, eq(courses.instructorId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(courses.createdAt), desc(courses.id))
+    .$dynamic();
+
+  // Fetch one extra row to know whether there is another page
+  const rows = limit === undefined ? await query : await query.limit(limit + 1);
+  const hasMore = limit !== undefined && rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
 
-    console.log('Query completed, returning', courseList.length, 'courses');
-    res.json(courseList);
-  } catch (error) {
-    console.error('Database error in courses route:', error);
-    res.status(500).json({ error: 'Failed to retrieve courses from database' });
+  const last = page[page.length - 1];
+  if (hasMore && last) {
+    res.set(
+      NEXT_CURSOR_HEADER,
+      encodeKeysetCursor({ at: last.cursorKey, id: last.id as string })
+    );
   }
+
+  res.json(page.map(({ cursorKey: _, ...course }) => course));
 });
 
 // Get categories - MOVED BEFORE /:id route to prevent conflicts
 courseRoutes.get('/courses/categories', async (req, res) => {
-  try {
-    const categoryList = await db
-      .select()
-      .from(categories)
-      .orderBy(categories.order, categories.name);
-
-    res.json(categoryList);
-  } catch (error) {
-    console.error('Database error in categories route:', error);
-    res
-      .status(500)
-      .json({ error: 'Failed to retrieve categories from database' });
-  }
+  const categoryList = await db
+    .select()
+    .from(categories)
+    .orderBy(categories.order, categories.name);
+
+  res.json(categoryList);
 });
 
 // Get single course by ID
 courseRoutes.get('/courses/:id', async (req, res) => {
-  try {
-    const { id } = req.params;
-    const course = await db
-      .select({
-        id: courses.id,
-        title: courses.title,
-        slug: courses.slug,
-        description: courses.description,
-        instructor: users.name,
-        instructorId: courses.instructorId,
-        instructorBio: users.bio,
-        instructorAvatar: users.avatarUrl,
-        thumbnail: courses.thumbnail,
-        category: courses.category,
-        tags: courses.tags,
-        level: courses.level,
-        duration: courses.duration,
-        price: courses.price,
-        rating: courses.rating,
-        reviewCount: courses.reviewCount,
-        enrollmentCount: courses.enrollmentCount,
-        isFeatured: courses.isFeatured,
-        prerequisites: courses.prerequisites,
-        learningObjectives: courses.learningObjectives,
-        createdAt: courses.createdAt,
-        publishedAt: courses.publishedAt,
-      })
-      .from(courses)
-      .leftJoin(users, eq(courses.instructorId, users.id))
-      .where(eq(courses.id, id))
-      .limit(1);
-
-    if (!course.length) {
-      res.status(404).json({ error: 'Course not found' });
-      return;
-    }
+  const { id } = req.params;
+  const course = await db
+    .select({
+      id: courses.id,
+      title: courses.title,
+      slug: courses.slug,
+      description: courses.description,
+      instructor: users.name,
+      instructorId: courses.instructorId,
+      instructorBio: users.bio,
+      instructorAvatar: users.avatarUrl,
+      thumbnail: courses.thumbnail,
+      category: courses.category,
+      tags: courses.tags,
+      level: courses.level,
+      status: courses.status,
+      duration: courses.duration,
+      price: courses.price,
+      rating: courses.rating,
+      reviewCount: courses.reviewCount,
+      enrollmentCount: courses.enrollmentCount,
+      isFeatured: courses.isFeatured,
+      prerequisites: courses.prerequisites,
+      learningObjectives: courses.learningObjectives,
+      sequential: courses.sequential,
+      createdAt: courses.createdAt,
+      publishedAt: courses.publishedAt,
+    })
+    .from(courses)
+    .leftJoin(users, eq(courses.instructorId, users.id))
+    .where(eq(courses.id, id))
+    .limit(1);
 
-    // Get lessons for this course
-    const courseLessons = await db
-      .select()
-      .from(lessons)
-      .where(eq(lessons.courseId, id))
-      .orderBy(lessons.order);
-
-    res.json({
-      ...course[0],
-      lessons: courseLessons,
-    });
-  } catch (error) {
-    console.error('Database error in course by ID route:', error);
-    res.status(500).json({ error: 'Failed to retrieve course from database' });
+  if (!course.length || !canViewCourse(req.user, course[0])) {
+    throw new NotFoundError('Course not found');
   }
+
+  // Get lessons for this course
+  const courseLessons = await db
+    .select()
+    .from(lessons)
+    .where(eq(lessons.courseId, id))
+    .orderBy(lessons.order);
+
+  // Lets the frontend load the signed-in user's progress
+  const enrollment = req.user
+    ? await db
+        .select({ id: enrollments.id })
+        .from(enrollments)
+        .where(and(eq(enrollments.courseId, id), eq(enrollments.userId, req.user.id)))
+        .limit(1)
+    : [];
+
+  res.json({
+    ...course[0],
+    // Previews in place of the lessons the caller can't open yet
+    lessons: await redactLessons(req.user, course[0], courseLessons),
+    enrollmentId: enrollment[0]?.id ?? null,
+  });
 });
 
-// Create a new course (for instructors/admins)
-courseRoutes.post('/courses', async (req, res) => {
-  try {
-    const { body } = req;
+// Create a new course (for instructors/admins). New courses start as drafts
+// and go through submit/publish before students can see them.
+courseRoutes.post(
+  '/courses',
+  requireRole('instructor', 'admin'),
+  validate(courseCreateSchema),
+  async (req, res) => {
+    const body: CourseCreate = req.body;
     const courseId = createId();
+    // Instructors always own the courses they create; admins may assign one
+    const instructorId =
+      req.user!.role === 'admin' && body.instructorId
+        ? body.instructorId
+        : req.user!.id;
     const slug = body.title
       .toLowerCase()
       .replace(/\s+/g, '-')
@@ -162,7 +238,7 @@ courseRoutes.post('/courses', async (req, res) => {
         title: body.title,
         slug,
         description: body.description,
-        instructorId: body.instructorId,
+        instructorId,
         thumbnail: body.thumbnail || '/default-course-thumbnail.jpg',
         category: body.category,
         tags: body.tags || [],
@@ -171,7 +247,7 @@ courseRoutes.post('/courses', async (req, res) => {
         price: body.price || '0',
         prerequisites: body.prerequisites || [],
         learningObjectives: body.learningObjectives || [],
-        status: 'published', // Auto-publish AI-generated courses
+        sequential: body.sequential,
       })
       .returning();
 
@@ -179,7 +255,7 @@ courseRoutes.post('/courses', async (req, res) => {
     if (body.lessons && Array.isArray(body.lessons)) {
       console.log(`📖 Creating ${body.lessons.length} lessons for course`);
       
-      const lessonsToInsert = body.lessons.map((lesson: any, index: number) => ({
+      const lessonsToInsert = body.lessons.map((lesson, index) => ({
         id: createId(),
         courseId: courseId,
         title: lesson.title,
@@ -200,32 +276,58 @@ courseRoutes.post('/courses', async (req, res) => {
     }
 
     res.status(201).json(newCourse[0]);
-  } catch (error) {
-    console.error('❌ Error creating course:', error);
-    res.status(500).json({ 
-      error: 'Failed to create course', 
-      message: error instanceof Error ? error.message : 'Unknown error' 
-    });
   }
-});
+);
 
 // Update course
-courseRoutes.put('/courses/:id', async (req, res) => {
-  const { id } = req.params;
-  const { body } = req;
-  const updatedCourse = await db
-    .update(courses)
-    .set({
-      ...body,
-      updatedAt: new Date(),
-    })
-    .where(eq(courses.id, id))
-    .returning();
+courseRoutes.put(
+  '/courses/:id',
+  requireRole('instructor', 'admin'),
+  requireCourseOwner(courseFromParams),
+  validate(courseUpdateSchema),
+  async (req, res) => {
+    const { id } = req.params;
+    const updatedCourse = await db
+      .update(courses)
+      .set({
+        ...req.body,
+        updatedAt: new Date(),
+      })
+      .where(eq(courses.id, id))
+      .returning();
+
+    if (!updatedCourse.length) {
+      throw new NotFoundError('Course not found');
+    }
 
-  if (!updatedCourse.length) {
-    res.status(404).json({ error: 'Course not found' });
-    return;
+    res.json(updatedCourse[0]);
   }
+);
 
-  res.json(updatedCourse[0]);
-});
+const transitionHandler =
+  (transition: CourseTransition): express.RequestHandler =>
+  async (req, res) => {
+    const course = await transitionCourse(req.params.id, transition);
+
+    console.log(`📚 Course ${course.id} is now ${course.status}`);
+    res.json(course);
+  };
+
+// Send a draft for review; it must have lessons with content
+courseRoutes.post(
+  '/courses/:id/submit',
+  requireRole('instructor', 'admin'),
+  requireCourseOwner(courseFromParams),
+  transitionHandler('submit')
+);
+
+// Approve a reviewed (or re-release an archived) course
+courseRoutes.post('/courses/:id/publish', requireRole('admin'), transitionHandler('publish'));
+
+// Withdraw a course from the catalog. Enrolled students keep access.
+courseRoutes.post(
+  '/courses/:id/archive',
+  requireRole('instructor', 'admin'),
+  requireCourseOwner(courseFromParams),
+  transitionHandler('archive')
+);
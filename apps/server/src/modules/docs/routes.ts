@@ -0,0 +1,67 @@
+import express from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { OpenAPIRegistry, OpenApiGeneratorV31 } from '@asteasolutions/zod-to-openapi';
+import { registerSecuritySchemes } from '../../lib/openapi';
+import { registerCoursePaths } from '../courses/openapi';
+import { registerLessonPaths } from '../lessons/openapi';
+import { registerQuizPaths } from '../quizzes/openapi';
+import { registerSubmissionPaths } from '../submissions/openapi';
+import { registerUploadPaths } from '../uploads/openapi';
+import { registerVideoPaths } from '../videos/openapi';
+import { registerNotificationPaths } from '../notifications/openapi';
+import { registerUserPaths } from '../users/openapi';
+import { registerEnrollmentPaths } from '../enrollments/openapi';
+import { registerOrderPaths } from '../orders/openapi';
+import { registerSearchPaths } from '../search/openapi';
+import { registerReviewPaths } from '../reviews/openapi';
+import { registerNotePaths } from '../notes/openapi';
+import { registerCertificatePaths } from '../certificates/openapi';
+import { registerAuthPaths } from '../auth/openapi';
+import { registerChatPaths } from '../chat/openapi';
+import { registerAiPaths } from '../ai/openapi';
+
+// Builds the OpenAPI document from the zod schemas each module registers.
+// The frontend's typed client is generated from it, see README.
+export const buildOpenApiDocument = () => {
+  const registry = new OpenAPIRegistry();
+
+  registerSecuritySchemes(registry);
+  registerCoursePaths(registry);
+  registerLessonPaths(registry);
+  registerQuizPaths(registry);
+  registerSubmissionPaths(registry);
+  registerUploadPaths(registry);
+  registerVideoPaths(registry);
+  registerUserPaths(registry);
+  registerNotificationPaths(registry);
+  registerEnrollmentPaths(registry);
+  registerOrderPaths(registry);
+  registerSearchPaths(registry);
+  registerReviewPaths(registry);
+  registerNotePaths(registry);
+  registerCertificatePaths(registry);
+  registerAuthPaths(registry);
+  registerChatPaths(registry);
+  registerAiPaths(registry);
+
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: 'Sentry Academy API',
+      version: '1.0.0',
+      description: 'Errors are RFC 7807 problem documents, see the Problem schema.',
+    },
+    servers: [{ url: '/api' }],
+  });
+};
+
+export const docsRoutes = express.Router();
+
+const openApiDocument = buildOpenApiDocument();
+
+docsRoutes.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+
+// Interactive docs
+docsRoutes.use('/docs', swaggerUi.serve, swaggerUi.setup(openApiDocument));
@@ -0,0 +1,84 @@
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../../db';
+import {
+  assignmentSubmissions,
+  certificates,
+  courses,
+  enrollments,
+  lessonProgress,
+} from '../../../db/schema';
+
+// Enrolling and unenrolling, shared by the enrollment routes and checkout.
+// Both run inside the caller's transaction so the course's enrollment count
+// can't drift from the actual rows.
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Null when the user is already enrolled
+export const createEnrollment = async (tx: Transaction, userId: string, courseId: string) => {
+  const inserted = await tx
+    .insert(enrollments)
+    .values({ id: createId(), userId, courseId })
+    .onConflictDoNothing({
+      target: [enrollments.userId, enrollments.courseId],
+    })
+    .returning();
+
+  if (!inserted.length) {
+    return null;
+  }
+
+  await tx
+    .update(courses)
+    .set({
+      enrollmentCount: sql`${courses.enrollmentCount} + 1`,
+    })
+    .where(eq(courses.id, courseId));
+
+  return inserted[0];
+};
+
+// Removes the enrollment together with what was recorded under it: lesson
+// progress and assignment submissions. Issued certificates stay valid, see
+// revokeCertificates. Does nothing for an enrollment that is already gone.
+export const removeEnrollment = async (
+  tx: Transaction,
+  enrollment: { id: string; courseId: string }
+) => {
+  await tx.delete(lessonProgress).where(eq(lessonProgress.enrollmentId, enrollment.id));
+  await tx
+    .delete(assignmentSubmissions)
+    .where(eq(assignmentSubmissions.enrollmentId, enrollment.id));
+  const deleted = await tx
+    .delete(enrollments)
+    .where(eq(enrollments.id, enrollment.id))
+    .returning({ id: enrollments.id });
+
+  if (!deleted.length) {
+    return;
+  }
+
+  await tx
+    .update(courses)
+    .set({
+      enrollmentCount: sql`greatest(${courses.enrollmentCount} - 1, 0)`,
+    })
+    .where(eq(courses.id, enrollment.courseId));
+};
+
+// Marks the user's certificates for the course revoked, e.g. when its purchase
+// is refunded. Matched by user and course rather than enrollment, as
+// unenrolling detaches a certificate from its enrollment. They are kept so
+// verifying them says why they no longer count.
+export const revokeCertificates = (tx: Transaction, userId: string, courseId: string) =>
+  tx
+    .update(certificates)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(certificates.userId, userId),
+        eq(certificates.courseId, courseId),
+        isNull(certificates.revokedAt)
+      )
+    );
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, deletedSchema, idParams, json, problems } from '../../lib/openapi';
+import {
+  courseSchema,
+  enrollmentCreateSchema,
+  enrollmentSchema,
+  enrollmentUpdateSchema,
+  lessonListItemSchema,
+} from '../../../db/validation';
+
+// Also used by GET /me/enrollments
+export const enrolledCourseSchema = courseSchema
+  .extend({ instructor: z.string() })
+  .openapi('EnrolledCourse');
+
+const enrollmentDetailSchema = enrollmentSchema
+  .extend({
+    course: courseSchema,
+    lessons: z.array(lessonListItemSchema),
+    completedLessons: z.array(z.string()).openapi({ description: 'Ids of completed lessons' }),
+  })
+  .openapi('EnrollmentDetail');
+
+const lessonProgressFields = z.object({
+  completed: z.boolean(),
+  completedAt: z.string().nullish(),
+  timeSpent: z.number().int(),
+  lastPosition: z.number().int(),
+  locked: z.boolean().openapi({
+    description: 'Set in sequential courses until the previous lessons are complete',
+  }),
+});
+
+const enrollmentProgressSchema = z
+  .object({
+    enrollmentId: z.string(),
+    courseId: z.string(),
+    totalLessons: z.number().int(),
+    completedLessons: z.number().int(),
+    progressPercentage: z.number().int(),
+    sequential: z.boolean().openapi({ description: 'Whether lessons unlock in order' }),
+    totalTimeSpent: z.number().int().openapi({ description: 'Seconds' }),
+    lessons: z.array(z.intersection(lessonListItemSchema, lessonProgressFields)),
+  })
+  .openapi('EnrollmentProgress');
+
+export const registerEnrollmentPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/enrollments',
+    tags: ['Enrollments'],
+    summary: 'Enroll in a published course',
+    description: 'Paid courses are bought with POST /orders instead, except by admins.',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: enrollmentCreateSchema } } } },
+    responses: {
+      201: json(enrollmentSchema, 'The new enrollment'),
+      ...problems(400, 401, 402, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/enrollments/user/{userId}',
+    tags: ['Enrollments'],
+    summary: "List a user's enrollments",
+    description: "Your own, or anyone's for admins.",
+    security: bearerAuth,
+    request: { params: z.object({ userId: z.string() }) },
+    responses: {
+      200: json(
+        z.array(enrollmentSchema.extend({ course: enrolledCourseSchema })),
+        'Enrollments, oldest first'
+      ),
+      ...problems(401, 403),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/enrollments/{id}',
+    tags: ['Enrollments'],
+    summary: 'Get an enrollment with its course, lessons and progress',
+    description: 'Your own, one in a course you teach, or any for admins.',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(enrollmentDetailSchema, 'The enrollment'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/enrollments/{id}',
+    tags: ['Enrollments'],
+    summary: 'Record a visit to one of your enrollments',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: enrollmentUpdateSchema } } },
+    },
+    responses: {
+      200: json(enrollmentSchema, 'The enrollment'),
+      ...problems(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/enrollments/{id}/progress',
+    tags: ['Enrollments'],
+    summary: 'Get per-lesson progress for an enrollment',
+    description: 'Your own, one in a course you teach, or any for admins.',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(enrollmentProgressSchema, 'Progress'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/enrollments/{id}',
+    tags: ['Enrollments'],
+    summary: 'Unenroll from a course',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(deletedSchema, 'Deleted'),
+      ...problems(401, 404),
+    },
+  });
+};
@@ -6,14 +6,51 @@ import {
   users,
   lessons,
   lessonProgress,
+  orders,
 } from '../../../db/schema';
-import { eq, and, sql } from 'drizzle-orm';
-import { createId } from '@paralleldrive/cuid2';
+import { eq, and, isNotNull } from 'drizzle-orm';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { enrollmentCreateSchema, enrollmentUpdateSchema } from '../../../db/validation';
+import { AppError, ConflictError, ForbiddenError, NotFoundError } from '../../lib/errors';
+import { redactLessons } from '../lessons/access';
+import { createEnrollment, removeEnrollment } from './enrollment';
 
 console.log('🎓 Loading enrollment routes...');
 
 export const enrollmentRoutes = express.Router();
 
+// An enrollment the caller may look at: their own, one in a course they
+// teach, or any for admins. Others are a 404 so ids can't be probed.
+const findEnrollment = async (req: express.Request) => {
+  const found = await db
+    .select({
+      enrollment: enrollments,
+      course: {
+        id: courses.id,
+        instructorId: courses.instructorId,
+        price: courses.price,
+        sequential: courses.sequential,
+      },
+    })
+    .from(enrollments)
+    .innerJoin(courses, eq(enrollments.courseId, courses.id))
+    .where(eq(enrollments.id, req.params.id))
+    .limit(1);
+
+  const user = req.user!;
+  if (
+    !found.length ||
+    (found[0].enrollment.userId !== user.id &&
+      found[0].course.instructorId !== user.id &&
+      user.role !== 'admin')
+  ) {
+    throw new NotFoundError('Enrollment not found');
+  }
+
+  return found[0];
+};
+
 // Test endpoint to verify routing
 enrollmentRoutes.get('/test', (req, res) => {
   const msg = '🧪 Test endpoint hit';
@@ -22,307 +59,259 @@ enrollmentRoutes.get('/test', (req, res) => {
   res.json({ message: 'Enrollment routes are working!' });
 });
 
-// TOFIX Module 3: Broken enrollments missing userId
-enrollmentRoutes.post('/enrollments', async (req, res) => {
-  try {
-    const { userId, courseId } = req.body;
+// Enroll the signed-in user in a course
+enrollmentRoutes.post(
+  '/enrollments',
+  requireAuth,
+  validate(enrollmentCreateSchema),
+  async (req, res) => {
+    const userId = req.user!.id;
+    const { courseId } = req.body;
 
     console.log('🔍 Checking enrollment request:', { userId, courseId });
 
-    // First: Validate course ID is provided
-    if (!courseId) {
-      console.error('❌ Course ID is missing');
-      res.status(400).json({ error: 'Course ID is required.' });
-      return;
-    }
-
     const courseCheck = await db
-      .select()
+      .select({ id: courses.id, status: courses.status, price: courses.price })
       .from(courses)
       .where(eq(courses.id, courseId))
       .limit(1);
 
     if (courseCheck.length === 0) {
       console.error('❌ Course not found:', courseId);
-      res.status(404).json({ error: `Course with id ${courseId} not found` });
-      return;
+      throw new NotFoundError(`Course with id ${courseId} not found`);
     }
 
-    const course = courseCheck[0];
+    if (courseCheck[0].status !== 'published') {
+      throw new ConflictError('This course is not open for enrollment');
+    }
 
-    // Third: Validate user ID is provided
-    if (!userId) {
-      console.error('❌ User ID is missing');
-      throw new Error('User ID is missing');
+    // Paid courses are bought through POST /orders, which enrolls once the
+    // payment goes through. Buyers who unenrolled rejoin here with their order.
+    const paidOrder = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(
+        and(eq(orders.userId, userId), eq(orders.courseId, courseId), eq(orders.status, 'paid'))
+      )
+      .limit(1);
+
+    if (
+      Number(courseCheck[0].price) > 0 &&
+      req.user!.role !== 'admin' &&
+      !paidOrder.length
+    ) {
+      throw new AppError(402, 'PAYMENT_REQUIRED', 'This course has to be purchased', {
+        courseId,
+        price: courseCheck[0].price,
+      });
     }
 
-    console.log('✅ All validation successful, enrollment approved');
-    res.json({ 
-      success: true, 
-      message: 'Enrollment validation successful',
-      courseId,
-      userId 
+    const enrollment = await db.transaction(async (tx) => {
+      const created = await createEnrollment(tx, userId, courseId);
+      // Refunding the order revokes the enrollment it points to
+      if (created && paidOrder.length) {
+        await tx
+          .update(orders)
+          .set({ enrollmentId: created.id })
+          .where(eq(orders.id, paidOrder[0].id));
+      }
+      return created;
     });
 
-  } catch (error: any) {
-    console.error('💥 Error during enrollment:', error);
-    console.error('📊 Error details:', {
-      message: error.message,
-      stack: error.stack,
-      userId: req.body.userId,
-      courseId: req.body.courseId,
-    });
-    throw new Error('Failed to enroll in course');
+    if (!enrollment) {
+      console.log('ℹ️ User already enrolled:', { userId, courseId });
+      throw new ConflictError('Already enrolled in this course');
+    }
+
+    console.log('✅ Enrollment created:', enrollment.id);
+    res.status(201).json(enrollment);
   }
-});
+);
 
 // Get user's enrollments
-enrollmentRoutes.get('/enrollments/user/:userId', async (req, res) => {
+enrollmentRoutes.get('/enrollments/user/:userId', requireAuth, async (req, res) => {
   const { userId } = req.params;
+  if (userId !== req.user!.id && req.user!.role !== 'admin') {
+    throw new ForbiddenError('You can only list your own enrollments');
+  }
   console.log('📚 Getting enrollments for user:', userId);
 
-  try {
-    const userEnrollments = await db
-      .select({
-        enrollment: enrollments,
-        course: courses,
-        instructor: users.name,
-      })
-      .from(enrollments)
-      .innerJoin(courses, eq(enrollments.courseId, courses.id))
-      .innerJoin(users, eq(courses.instructorId, users.id))
-      .where(eq(enrollments.userId, userId))
-      .orderBy(enrollments.enrolledAt);
-
-    console.log('📋 User enrollments found:', userEnrollments.length);
-    console.log('📝 Enrollment details:', userEnrollments);
-
-    const result = userEnrollments.map((e) => ({
-      ...e.enrollment,
-      course: {
-        ...e.course,
-        instructor: e.instructor,
-      },
-    }));
-
-    console.log('✅ Returning formatted enrollments:', result.length);
-    res.json(result);
-  } catch (error: any) {
-    console.error('💥 Error getting user enrollments:', error);
-    console.error('📊 Error details:', {
-      message: error.message,
-      stack: error.stack,
-      userId,
-    });
-    res.status(500).json({ error: error.message });
-  }
+  const userEnrollments = await db
+    .select({
+      enrollment: enrollments,
+      course: courses,
+      instructor: users.name,
+    })
+    .from(enrollments)
+    .innerJoin(courses, eq(enrollments.courseId, courses.id))
+    .innerJoin(users, eq(courses.instructorId, users.id))
+    .where(eq(enrollments.userId, userId))
+    .orderBy(enrollments.enrolledAt);
+
+  console.log('📋 User enrollments found:', userEnrollments.length);
+  console.log('📝 Enrollment details:', userEnrollments);
+
+  const result = userEnrollments.map((e) => ({
+    ...e.enrollment,
+    course: {
+      ...e.course,
+      instructor: e.instructor,
+    },
+  }));
+
+  console.log('✅ Returning formatted enrollments:', result.length);
+  res.json(result);
 });
 
-// Get single enrollment with progress
-enrollmentRoutes.get('/enrollments/:id', async (req, res) => {
-  try {
-    const { id } = req.params;
-
-    const enrollment = await db
-      .select()
-      .from(enrollments)
-      .where(eq(enrollments.id, id))
-      .limit(1);
-
-    if (!enrollment.length) {
-      res.status(404).json({ error: 'Enrollment not found' });
-      return;
-    }
-
-    // Get course details
-    const course = await db
-      .select()
-      .from(courses)
-      .where(eq(courses.id, enrollment[0].courseId))
-      .limit(1);
-
-    // Get all lessons for the course
-    const courseLessons = await db
-      .select()
-      .from(lessons)
-      .where(eq(lessons.courseId, enrollment[0].courseId))
-      .orderBy(lessons.order);
-
-    // Get completed lessons
-    const completedLessons = await db
-      .select()
-      .from(lessonProgress)
-      .where(
-        and(
-          eq(lessonProgress.enrollmentId, id),
-          eq(lessonProgress.userId, enrollment[0].userId)
-        )
-      );
-
-    // Calculate progress
-    const totalLessons = courseLessons.length;
-    const completedCount = completedLessons.filter(
-      (l) => l.completedAt !== null
-    ).length;
-    const progress =
-      totalLessons > 0 ? Math.round((completedCount / totalLessons) * 100) : 0;
-
-    // Update progress in enrollment
-    if (progress !== enrollment[0].progress) {
-      await db
-        .update(enrollments)
-        .set({ progress })
-        .where(eq(enrollments.id, id));
-    }
+// Get single enrollment with progress. Progress and the certificate are kept
+// up to date as lessons get completed, see completeLesson.
+enrollmentRoutes.get('/enrollments/:id', requireAuth, async (req, res) => {
+  const { enrollment } = await findEnrollment(req);
+
+  // Get course details
+  const course = await db
+    .select()
+    .from(courses)
+    .where(eq(courses.id, enrollment.courseId))
+    .limit(1);
+
+  // Get all lessons for the course
+  const courseLessons = await db
+    .select()
+    .from(lessons)
+    .where(eq(lessons.courseId, enrollment.courseId))
+    .orderBy(lessons.order);
+
+  // Get completed lessons
+  const completedLessons = await db
+    .select({ lessonId: lessonProgress.lessonId })
+    .from(lessonProgress)
+    .where(
+      and(
+        eq(lessonProgress.enrollmentId, enrollment.id),
+        eq(lessonProgress.userId, enrollment.userId),
+        isNotNull(lessonProgress.completedAt)
+      )
+    );
 
-    res.json({
-      ...enrollment[0],
-      course: course[0],
-      lessons: courseLessons,
-      completedLessons: completedLessons.map((l) => l.lessonId),
-      progress,
-    });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
+  res.json({
+    ...enrollment,
+    course: course[0],
+    // Previews in place of the lessons the caller can't open, e.g. once the
+    // course has been refunded
+    lessons: await redactLessons(req.user, course[0], courseLessons),
+    completedLessons: completedLessons.map((l) => l.lessonId),
+  });
 });
 
-// Update enrollment (e.g., mark as completed)
-enrollmentRoutes.put('/enrollments/:id', async (req, res) => {
-  try {
+// Record a visit to one of your enrollments. Progress and completion are
+// derived from lesson progress, see POST /lessons/:id/complete.
+enrollmentRoutes.put(
+  '/enrollments/:id',
+  requireAuth,
+  validate(enrollmentUpdateSchema),
+  async (req, res) => {
     const { id } = req.params;
 
     const updated = await db
       .update(enrollments)
-      .set({
-        ...req.body,
-        lastAccessedAt: new Date(),
-      })
-      .where(eq(enrollments.id, id))
+      .set({ lastAccessedAt: new Date() })
+      .where(and(eq(enrollments.id, id), eq(enrollments.userId, req.user!.id)))
       .returning();
 
     if (!updated.length) {
-      res.status(404).json({ error: 'Enrollment not found' });
-      return;
+      throw new NotFoundError('Enrollment not found');
     }
 
     res.json(updated[0]);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
   }
-});
+);
 
 // Get enrollment progress details
-enrollmentRoutes.get('/enrollments/:id/progress', async (req, res) => {
-  try {
-    const { id } = req.params;
-
-    const enrollment = await db
-      .select()
-      .from(enrollments)
-      .where(eq(enrollments.id, id))
-      .limit(1);
-
-    if (!enrollment.length) {
-      res.status(404).json({ error: 'Enrollment not found' });
-      return;
-    }
-
-    // Get all lesson progress for this enrollment
-    const progress = await db
-      .select({
-        lesson: lessons,
-        progress: lessonProgress,
-      })
-      .from(lessons)
-      .leftJoin(
-        lessonProgress,
-        and(
-          eq(lessonProgress.lessonId, lessons.id),
-          eq(lessonProgress.enrollmentId, id)
-        )
+enrollmentRoutes.get('/enrollments/:id/progress', requireAuth, async (req, res) => {
+  const { id } = req.params;
+  const { course } = await findEnrollment(req);
+
+  // Get all lesson progress for this enrollment
+  const progress = await db
+    .select({
+      lesson: lessons,
+      progress: lessonProgress,
+    })
+    .from(lessons)
+    .leftJoin(
+      lessonProgress,
+      and(
+        eq(lessonProgress.lessonId, lessons.id),
+        eq(lessonProgress.enrollmentId, id)
       )
-      .where(eq(lessons.courseId, enrollment[0].courseId))
-      .orderBy(lessons.order);
-
-    const totalLessons = progress.length;
-    const completedLessons = progress.filter(
-      (p) => p.progress?.completedAt
-    ).length;
-    const totalTimeSpent = progress.reduce(
-      (sum, p) => sum + (p.progress?.timeSpent || 0),
-      0
-    );
-
-    res.json({
-      enrollmentId: id,
-      courseId: enrollment[0].courseId,
-      totalLessons,
-      completedLessons,
-      progressPercentage:
-        totalLessons > 0
-          ? Math.round((completedLessons / totalLessons) * 100)
-          : 0,
-      totalTimeSpent,
-      lessons: progress.map((p) => ({
-        ...p.lesson,
-        completed: !!p.progress?.completedAt,
-        completedAt: p.progress?.completedAt,
-        timeSpent: p.progress?.timeSpent || 0,
-        lastPosition: p.progress?.lastPosition || 0,
-      })),
-    });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
+    )
+    .where(eq(lessons.courseId, course.id))
+    .orderBy(lessons.order);
+
+  const totalLessons = progress.length;
+  const completedLessons = progress.filter(
+    (p) => p.progress?.completedAt
+  ).length;
+  const totalTimeSpent = progress.reduce(
+    (sum, p) => sum + (p.progress?.timeSpent || 0),
+    0
+  );
+
+  // In sequential courses everything after the first incomplete lesson is
+  // locked, see requireUnlocked
+  const firstIncomplete = progress.findIndex((p) => !p.progress?.completedAt);
+  const { sequential } = course;
+  const visibleLessons = await redactLessons(
+    req.user,
+    course,
+    progress.map((p) => p.lesson)
+  );
+
+  res.json({
+    enrollmentId: id,
+    courseId: course.id,
+    sequential,
+    totalLessons,
+    completedLessons,
+    progressPercentage:
+      totalLessons > 0
+        ? Math.round((completedLessons / totalLessons) * 100)
+        : 0,
+    totalTimeSpent,
+    lessons: progress.map((p, index) => ({
+      ...visibleLessons[index],
+      completed: !!p.progress?.completedAt,
+      completedAt: p.progress?.completedAt,
+      timeSpent: p.progress?.timeSpent || 0,
+      lastPosition: p.progress?.lastPosition || 0,
+      locked: sequential && firstIncomplete !== -1 && index > firstIncomplete,
+    })),
+  });
 });
 
 // Delete enrollment (unenroll from course)
-enrollmentRoutes.delete('/enrollments/:id', async (req, res) => {
+enrollmentRoutes.delete('/enrollments/:id', requireAuth, async (req, res) => {
   const { id } = req.params;
   console.log('🗑️ Deleting enrollment:', id);
 
-  try {
-    const enrollment = await db
-      .select()
-      .from(enrollments)
-      .where(eq(enrollments.id, id))
-      .limit(1);
+  const enrollment = await db
+    .select()
+    .from(enrollments)
+    .where(and(eq(enrollments.id, id), eq(enrollments.userId, req.user!.id)))
+    .limit(1);
 
-    console.log('🔍 Enrollment to delete:', enrollment);
+  console.log('🔍 Enrollment to delete:', enrollment);
 
-    if (!enrollment.length) {
-      console.error('❌ Enrollment not found:', id);
-      res.status(404).json({ error: 'Enrollment not found' });
-      return;
-    }
-
-    // Delete enrollment
-    console.log('💾 Deleting enrollment from database...');
-    await db.delete(enrollments).where(eq(enrollments.id, id));
-
-    console.log('✅ Enrollment deleted successfully');
-
-    // Update course enrollment count
-    console.log('📉 Updating course enrollment count...');
-    await db
-      .update(courses)
-      .set({
-        enrollmentCount: sql`${courses.enrollmentCount} - 1`,
-      })
-      .where(eq(courses.id, enrollment[0].courseId));
-
-    console.log('✅ Course enrollment count updated');
-    console.log('🎉 Unenrollment process completed successfully');
-
-    res.json({ success: true, deletedId: id });
-  } catch (error: any) {
-    console.error('💥 Error during unenrollment:', error);
-    console.error('📊 Error details:', {
-      message: error.message,
-      stack: error.stack,
-      enrollmentId: id,
-    });
-    res.status(500).json({ error: error.message });
+  if (!enrollment.length) {
+    console.error('❌ Enrollment not found:', id);
+    throw new NotFoundError('Enrollment not found');
   }
+
+  console.log('💾 Deleting enrollment from database...');
+  await db.transaction((tx) => removeEnrollment(tx, enrollment[0]));
+
+  console.log('🎉 Unenrollment process completed successfully');
+
+  res.json({ success: true, deletedId: id });
 });
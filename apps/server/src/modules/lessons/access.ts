@@ -0,0 +1,158 @@
+import { and, eq } from 'drizzle-orm';
+import { db } from '../../../db';
+import { courses, enrollments, lessonProgress, lessons } from '../../../db/schema';
+import type { AuthUser } from '../../middleware/auth';
+import { AppError, ForbiddenError, NotFoundError } from '../../lib/errors';
+import { signVideoUrl } from '../videos/signing';
+import { canViewCourse } from '../courses/lifecycle';
+
+// Lesson content is for the course's students, its instructor and admins.
+// Everyone else gets free lessons in full and a preview of the others, and so
+// do students for the lessons of sequential courses they haven't unlocked.
+
+const PREVIEW_LENGTH = 400;
+
+type Lesson = typeof lessons.$inferSelect;
+
+interface CourseAccess {
+  id: string;
+  instructorId: string;
+  price: string | null;
+  sequential: boolean;
+}
+
+const isCourseStaff = (user: AuthUser, course: CourseAccess) =>
+  user.role === 'admin' || user.id === course.instructorId;
+
+export const hasCourseAccess = async (user: AuthUser | undefined, course: CourseAccess) => {
+  if (!user) return false;
+  if (isCourseStaff(user, course)) return true;
+
+  const enrollment = await db
+    .select({ id: enrollments.id })
+    .from(enrollments)
+    .where(and(eq(enrollments.userId, user.id), eq(enrollments.courseId, course.id)))
+    .limit(1);
+
+  return enrollment.length > 0;
+};
+
+// Cuts text at a word boundary
+const truncate = (text: string) => {
+  if (text.length <= PREVIEW_LENGTH) return text;
+  const cut = text.slice(0, PREVIEW_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : PREVIEW_LENGTH)}…`;
+};
+
+// The outline and the start of the text of a lesson. Fields are picked
+// rather than removed so nothing added to lessons later leaks into previews.
+export const toPreview = (lesson: Lesson) => ({
+  id: lesson.id,
+  title: lesson.title,
+  description: lesson.description,
+  type: lesson.type,
+  duration: lesson.duration,
+  order: lesson.order,
+  isFree: lesson.isFree,
+  content: lesson.content && truncate(lesson.content),
+});
+
+// A lesson for a caller who may open it, with a playable video link
+export const withSignedVideo = (lesson: Lesson): Lesson => ({
+  ...lesson,
+  videoUrl: signVideoUrl(lesson.videoUrl),
+});
+
+// The lessons of a sequential course the user hasn't unlocked: every lesson
+// after the first one they haven't completed, see requireUnlocked
+const findLockedLessonIds = async (user: AuthUser | undefined, course: CourseAccess) => {
+  if (!user || !course.sequential || isCourseStaff(user, course)) {
+    return new Set<string>();
+  }
+
+  const progress = await db
+    .select({ id: lessons.id, completedAt: lessonProgress.completedAt })
+    .from(lessons)
+    .leftJoin(
+      lessonProgress,
+      and(eq(lessonProgress.lessonId, lessons.id), eq(lessonProgress.userId, user.id))
+    )
+    .where(eq(lessons.courseId, course.id))
+    .orderBy(lessons.order);
+
+  const firstIncomplete = progress.findIndex((lesson) => !lesson.completedAt);
+  return new Set(
+    firstIncomplete < 0 ? [] : progress.slice(firstIncomplete + 1).map((lesson) => lesson.id)
+  );
+};
+
+// For lesson lists: previews in place of the lessons the caller can't open
+export const redactLessons = async (
+  user: AuthUser | undefined,
+  course: CourseAccess,
+  courseLessons: Lesson[]
+) => {
+  const hasAccess = await hasCourseAccess(user, course);
+  const locked = hasAccess ? await findLockedLessonIds(user, course) : new Set<string>();
+
+  return courseLessons.map((lesson) =>
+    lesson.isFree || (hasAccess && !locked.has(lesson.id))
+      ? withSignedVideo(lesson)
+      : toPreview(lesson)
+  );
+};
+
+// Thrown when opening a lesson without access: 402 when the course has a
+// price, 403 when enrolling is free. The problem document carries the
+// preview so clients can show it next to the offer.
+const lessonAccessError = (lesson: Lesson, course: CourseAccess) => {
+  const extensions = { courseId: course.id, price: course.price, preview: toPreview(lesson) };
+
+  return Number(course.price) > 0
+    ? new AppError(402, 'PAYMENT_REQUIRED', 'Buy this course to unlock this lesson', extensions)
+    : new ForbiddenError('Enroll in this course to unlock this lesson', {
+        code: 'ENROLLMENT_REQUIRED',
+        extensions,
+      });
+};
+
+// The lesson, if the caller may open it; see lessonAccessError otherwise, and
+// LESSON_LOCKED for lessons of sequential courses that are still locked
+export const findAccessibleLesson = async (user: AuthUser | undefined, lessonId: string) => {
+  const found = await db
+    .select({
+      lesson: lessons,
+      course: {
+        id: courses.id,
+        instructorId: courses.instructorId,
+        price: courses.price,
+        sequential: courses.sequential,
+        status: courses.status,
+      },
+    })
+    .from(lessons)
+    .innerJoin(courses, eq(lessons.courseId, courses.id))
+    .where(eq(lessons.id, lessonId))
+    .limit(1);
+
+  // Lessons of courses the caller can't see don't exist for them either
+  if (!found.length || !canViewCourse(user, found[0].course)) {
+    throw new NotFoundError('Lesson not found');
+  }
+
+  const { lesson, course } = found[0];
+  if (lesson.isFree) {
+    return lesson;
+  }
+  if (!(await hasCourseAccess(user, course))) {
+    throw lessonAccessError(lesson, course);
+  }
+  if ((await findLockedLessonIds(user, course)).has(lesson.id)) {
+    throw new ForbiddenError('Complete the previous lessons first', {
+      code: 'LESSON_LOCKED',
+      extensions: { courseId: course.id, price: course.price, preview: toPreview(lesson) },
+    });
+  }
+
+  return lesson;
+};
@@ -0,0 +1,186 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import {
+  bearerAuth,
+  deletedSchema,
+  idParams,
+  json,
+  problemSchema,
+  problems,
+} from '../../lib/openapi';
+import {
+  heartbeatInputSchema,
+  lessonCreateSchema,
+  lessonProgressSchema,
+  lessonListItemSchema,
+  lessonPreviewSchema,
+  lessonSchema,
+  lessonUpdateSchema,
+} from '../../../db/validation';
+
+const lessonCompletionSchema = lessonProgressSchema
+  .extend({
+    courseProgress: z.number().int().openapi({ description: 'Course progress in percent' }),
+    certificateId: z
+      .string()
+      .nullable()
+      .openapi({ description: 'Set once the last lesson is complete' }),
+  })
+  .openapi('LessonCompletion');
+
+const watchProgressSchema = lessonProgressSchema
+  .extend({
+    courseProgress: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: 'Course progress in percent, set when the lesson was completed' }),
+    certificateId: z
+      .string()
+      .nullable()
+      .openapi({ description: 'Set when completing the lesson completed the course' }),
+  })
+  .openapi('WatchProgress');
+
+const lessonLockedSchema = problemSchema
+  .extend({
+    courseId: z.string(),
+    price: z.string().nullable(),
+    preview: lessonPreviewSchema,
+  })
+  .openapi('LessonLockedProblem', {
+    description:
+      '`PAYMENT_REQUIRED` (402) for paid courses, `ENROLLMENT_REQUIRED` (403) for free ones, ' +
+      '`LESSON_LOCKED` (403) until the previous lessons of a sequential course are complete',
+  });
+
+const lockedLesson = (description: string) => ({
+  description,
+  content: { 'application/problem+json': { schema: lessonLockedSchema } },
+});
+
+export const registerLessonPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/course/{courseId}',
+    tags: ['Lessons'],
+    summary: "List a course's lessons in order",
+    description:
+      'Lessons other than the free ones are previews unless you are enrolled, the ' +
+      "course's instructor or an admin, and so are the lessons of sequential courses you " +
+      "haven't unlocked.",
+    request: { params: z.object({ courseId: z.string() }) },
+    responses: {
+      200: json(z.array(lessonListItemSchema), 'Lessons'),
+      ...problems(404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/{id}',
+    tags: ['Lessons'],
+    summary: 'Get a lesson',
+    description:
+      'Free lessons are open to everyone, the others to enrolled students, the ' +
+      "course's instructor and admins.",
+    request: { params: idParams },
+    responses: {
+      200: json(lessonSchema, 'The lesson'),
+      402: lockedLesson('The course has to be bought first'),
+      403: lockedLesson('Enroll in the course, or complete the previous lessons, first'),
+      ...problems(404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/lessons',
+    tags: ['Lessons'],
+    summary: 'Add a lesson to the end of a course you instruct',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: lessonCreateSchema } } } },
+    responses: {
+      201: json(lessonSchema, 'The new lesson'),
+      ...problems(400, 401, 403, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/lessons/{id}',
+    tags: ['Lessons'],
+    summary: 'Update a lesson of a course you instruct',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: lessonUpdateSchema } } },
+    },
+    responses: {
+      200: json(lessonSchema, 'The updated lesson'),
+      ...problems(400, 401, 403, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/lessons/{id}/complete',
+    tags: ['Lessons'],
+    summary: 'Mark a lesson complete; the last one issues the certificate',
+    description:
+      'Quiz lessons with a quiz are completed by passing it, and assignments by a passing ' +
+      'grade; both answer 409 here.',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(lessonCompletionSchema, 'Lesson and course progress'),
+      ...problems(401, 403, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/{id}/progress',
+    tags: ['Lessons'],
+    summary: 'Get your progress on a lesson, null before you started it',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(lessonProgressSchema.nullable(), 'Your progress'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/lessons/{id}/heartbeat',
+    tags: ['Lessons'],
+    summary: 'Record the position and watch time of a video lesson',
+    description:
+      'Sent by the player while the video plays. Adds `elapsed` to the time spent, saves ' +
+      '`position` to resume from and completes the lesson once the position passes 90% of ' +
+      '`duration`.',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: heartbeatInputSchema } } },
+    },
+    responses: {
+      200: json(watchProgressSchema, 'Your progress on the lesson'),
+      ...problems(400, 401, 403, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/lessons/{id}',
+    tags: ['Lessons'],
+    summary: 'Delete a lesson of a course you instruct',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(deletedSchema, 'Deleted'),
+      ...problems(401, 403, 404),
+    },
+  });
+};
@@ -0,0 +1,130 @@
+import { createId } from '@paralleldrive/cuid2';
+import { and, eq, isNull, lt, sql } from 'drizzle-orm';
+import { db } from '../../../db';
+import { courses, enrollments, lessonProgress, lessons } from '../../../db/schema';
+import { syncEnrollmentProgress } from '../certificates/issuance';
+import { ForbiddenError } from '../../lib/errors';
+
+// The user's enrollment in the course, for routes that record progress
+export const requireEnrollmentId = async (userId: string, courseId: string) => {
+  const enrollment = await db
+    .select({ id: enrollments.id })
+    .from(enrollments)
+    .where(and(eq(enrollments.userId, userId), eq(enrollments.courseId, courseId)))
+    .limit(1);
+
+  if (!enrollment.length) {
+    throw new ForbiddenError('You are not enrolled in this course');
+  }
+
+  return enrollment[0].id;
+};
+
+// In sequential courses a lesson unlocks once every lesson before it is
+// complete. Routes that record progress on a lesson check this first.
+export const requireUnlocked = async (userId: string, lessonId: string) => {
+  const lesson = await db
+    .select({ courseId: lessons.courseId, order: lessons.order, sequential: courses.sequential })
+    .from(lessons)
+    .innerJoin(courses, eq(lessons.courseId, courses.id))
+    .where(eq(lessons.id, lessonId))
+    .limit(1);
+
+  if (!lesson[0]?.sequential) {
+    return;
+  }
+
+  const incomplete = await db
+    .select({ id: lessons.id })
+    .from(lessons)
+    .leftJoin(
+      lessonProgress,
+      and(eq(lessonProgress.lessonId, lessons.id), eq(lessonProgress.userId, userId))
+    )
+    .where(
+      and(
+        eq(lessons.courseId, lesson[0].courseId),
+        lt(lessons.order, lesson[0].order),
+        isNull(lessonProgress.completedAt)
+      )
+    )
+    .limit(1);
+
+  if (incomplete.length) {
+    throw new ForbiddenError('Complete the previous lessons first', { code: 'LESSON_LOCKED' });
+  }
+};
+
+// The user's progress on a lesson, if they have started it
+export const findLessonProgress = async (userId: string, lessonId: string) => {
+  const progress = await db
+    .select()
+    .from(lessonProgress)
+    .where(and(eq(lessonProgress.userId, userId), eq(lessonProgress.lessonId, lessonId)))
+    .limit(1);
+
+  return progress[0] ?? null;
+};
+
+// Records where the user is in a video and adds the time they watched since
+// the previous heartbeat. Upserts, so heartbeats from several tabs can't
+// create a second row.
+export const recordWatchTime = async (
+  userId: string,
+  lessonId: string,
+  enrollmentId: string,
+  { position, elapsed }: { position: number; elapsed: number }
+) => {
+  const [progress] = await db
+    .insert(lessonProgress)
+    .values({
+      id: createId(),
+      userId,
+      lessonId,
+      enrollmentId,
+      lastPosition: position,
+      timeSpent: elapsed,
+    })
+    .onConflictDoUpdate({
+      target: [lessonProgress.userId, lessonProgress.lessonId],
+      set: {
+        lastPosition: position,
+        timeSpent: sql`${lessonProgress.timeSpent} + ${elapsed}`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  return progress;
+};
+
+// Marks a lesson complete for the user and updates the course progress.
+// Completing a lesson again keeps the first completion time. Completing the
+// last lesson of a course issues its certificate.
+export const completeLesson = async (userId: string, lessonId: string, enrollmentId: string) => {
+  const [progress] = await db
+    .insert(lessonProgress)
+    .values({
+      id: createId(),
+      userId,
+      lessonId,
+      enrollmentId,
+      completedAt: new Date(),
+    })
+    .onConflictDoUpdate({
+      target: [lessonProgress.userId, lessonProgress.lessonId],
+      set: {
+        completedAt: sql`coalesce(${lessonProgress.completedAt}, now())`,
+        updatedAt: new Date(),
+      },
+    })
+    .returning();
+
+  const course = await syncEnrollmentProgress(enrollmentId);
+
+  return {
+    ...progress,
+    courseProgress: course?.progress ?? 0,
+    certificateId: course?.certificate?.id ?? null,
+  };
+};
@@ -1,163 +1,264 @@
 import express from 'express';
 import { db } from '../../../db';
-import { lessons, lessonProgress } from '../../../db/schema';
-import { eq, and, desc } from 'drizzle-orm';
+import { courses, lessons } from '../../../db/schema';
+import { eq, desc } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
+import { requireAuth, requireRole, requireCourseOwner } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import {
+  heartbeatInputSchema,
+  lessonCreateSchema,
+  lessonUpdateSchema,
+} from '../../../db/validation';
+import {
+  completeLesson,
+  findLessonProgress,
+  recordWatchTime,
+  requireEnrollmentId,
+  requireUnlocked,
+} from './progress';
+import { findAccessibleLesson, redactLessons, withSignedVideo } from './access';
+import { findQuiz } from '../quizzes/quiz';
+import { canViewCourse } from '../courses/lifecycle';
+import { ConflictError, NotFoundError } from '../../lib/errors';
 
 export const lessonRoutes = express.Router();
 
-// Get lessons by course
+const courseFromBody = async (req: express.Request) => req.body?.courseId;
+
+const courseFromLesson = async (req: express.Request) => {
+  const lesson = await db
+    .select({ courseId: lessons.courseId })
+    .from(lessons)
+    .where(eq(lessons.id, req.params.id))
+    .limit(1);
+
+  return lesson[0]?.courseId;
+};
+
+const canManageLessons = requireRole('instructor', 'admin');
+
+// Share of a video that counts as watched and completes the lesson
+const WATCH_THRESHOLD = 0.9;
+
+// Get lessons by course. Without access to the course, lessons other than
+// the free ones are previews, and so are the locked ones of sequential courses.
 lessonRoutes.get('/lessons/course/:courseId', async (req, res) => {
   const { courseId } = req.params;
+  const course = await db
+    .select({
+      id: courses.id,
+      instructorId: courses.instructorId,
+      price: courses.price,
+      sequential: courses.sequential,
+      status: courses.status,
+    })
+    .from(courses)
+    .where(eq(courses.id, courseId))
+    .limit(1);
+
+  if (!course.length || !canViewCourse(req.user, course[0])) {
+    throw new NotFoundError('Course not found');
+  }
+
   const courseLessons = await db
     .select()
     .from(lessons)
     .where(eq(lessons.courseId, courseId))
     .orderBy(lessons.order);
 
-  res.json(courseLessons);
+  res.json(await redactLessons(req.user, course[0], courseLessons));
 });
 
-// Get single lesson
+// Get single lesson. Lessons that aren't free answer 402 (paid course) or
+// 403 (free course) with a preview to anyone not enrolled, and 403 while
+// they are locked in a sequential course.
 lessonRoutes.get('/lessons/:id', async (req, res) => {
+  res.json(withSignedVideo(await findAccessibleLesson(req.user, req.params.id)));
+});
+
+// Create new lesson
+lessonRoutes.post(
+  '/lessons',
+  canManageLessons,
+  validate(lessonCreateSchema),
+  requireCourseOwner(courseFromBody),
+  async (req, res) => {
+    const { body } = req;
+    const course = await db
+      .select({ id: courses.id })
+      .from(courses)
+      .where(eq(courses.id, body.courseId))
+      .limit(1);
+
+    if (!course.length) {
+      throw new NotFoundError(`Course with id ${body.courseId} not found`);
+    }
+
+    const lessonId = createId();
+    const slug = body.title
+      .toLowerCase()
+      .replace(/\s+/g, '-')
+      .replace(/[^a-z0-9-]/g, '');
+
+    // Get the max order for the course
+    const maxOrder = await db
+      .select({ maxOrder: lessons.order })
+      .from(lessons)
+      .where(eq(lessons.courseId, body.courseId))
+      .orderBy(desc(lessons.order))
+      .limit(1);
+
+    const order = (maxOrder[0]?.maxOrder || 0) + 1;
+
+    const newLesson = await db
+      .insert(lessons)
+      .values({
+        id: lessonId,
+        courseId: body.courseId,
+        title: body.title,
+        slug,
+        description: body.description,
+        type: body.type,
+        content: body.content,
+        videoUrl: body.videoUrl,
+        duration: body.duration,
+        order,
+        isFree: body.isFree || false,
+        resources: body.resources || [],
+      })
+      .returning();
+
+    res.status(201).json(newLesson[0]);
+  }
+);
+
+// Update lesson
+lessonRoutes.put(
+  '/lessons/:id',
+  canManageLessons,
+  requireCourseOwner(courseFromLesson),
+  validate(lessonUpdateSchema),
+  async (req, res) => {
+    const { id } = req.params;
+    const { body } = req;
+    const updatedLesson = await db
+      .update(lessons)
+      .set({
+        ...body,
+        updatedAt: new Date(),
+      })
+      .where(eq(lessons.id, id))
+      .returning();
+
+    if (!updatedLesson.length) {
+      throw new NotFoundError('Lesson not found');
+    }
+
+    res.json(updatedLesson[0]);
+  }
+);
+
+// Mark lesson as complete for the signed-in user. Completing the last
+// lesson of a course issues its certificate. Quiz lessons are completed by
+// passing the quiz, see POST /lessons/:id/attempts, and assignments by a
+// passing grade, see POST /instructor/submissions/:id/grade.
+lessonRoutes.post('/lessons/:id/complete', requireAuth, async (req, res) => {
   const { id } = req.params;
+  const userId = req.user!.id;
+
   const lesson = await db
-    .select()
+    .select({ courseId: lessons.courseId, type: lessons.type })
     .from(lessons)
     .where(eq(lessons.id, id))
     .limit(1);
 
   if (!lesson.length) {
-    res.status(404).json({ error: 'Lesson not found' });
-    return;
+    throw new NotFoundError('Lesson not found');
   }
 
-  res.json(lesson[0]);
-});
+  const enrollmentId = await requireEnrollmentId(userId, lesson[0].courseId);
+  await requireUnlocked(userId, id);
 
-// Create new lesson
-lessonRoutes.post('/lessons', async (req, res) => {
-  const { body } = req;
-  const lessonId = createId();
-  const slug = body.title
-    .toLowerCase()
-    .replace(/\s+/g, '-')
-    .replace(/[^a-z0-9-]/g, '');
-
-  // Get the max order for the course
-  const maxOrder = await db
-    .select({ maxOrder: lessons.order })
-    .from(lessons)
-    .where(eq(lessons.courseId, body.courseId))
-    .orderBy(desc(lessons.order))
-    .limit(1);
-
-  const order = (maxOrder[0]?.maxOrder || 0) + 1;
-
-  const newLesson = await db
-    .insert(lessons)
-    .values({
-      id: lessonId,
-      courseId: body.courseId,
-      title: body.title,
-      slug,
-      description: body.description,
-      type: body.type,
-      content: body.content,
-      videoUrl: body.videoUrl,
-      duration: body.duration,
-      order,
-      isFree: body.isFree || false,
-      resources: body.resources || [],
-    })
-    .returning();
+  // Quiz lessons without questions yet can still be completed by hand
+  if (lesson[0].type === 'quiz' && (await findQuiz(id))) {
+    throw new ConflictError('Pass the quiz to complete this lesson', {
+      code: 'QUIZ_NOT_PASSED',
+    });
+  }
+  if (lesson[0].type === 'assignment') {
+    throw new ConflictError('Assignments are completed by a passing grade', {
+      code: 'ASSIGNMENT_NOT_PASSED',
+    });
+  }
 
-  res.status(201).json(newLesson[0]);
+  res.json(await completeLesson(userId, id, enrollmentId));
 });
 
-// Update lesson
-lessonRoutes.put('/lessons/:id', async (req, res) => {
-  const { id } = req.params;
-  const { body } = req;
-  const updatedLesson = await db
-    .update(lessons)
-    .set({
-      ...body,
-      updatedAt: new Date(),
-    })
-    .where(eq(lessons.id, id))
-    .returning();
-
-  if (!updatedLesson.length) {
-    res.status(404).json({ error: 'Lesson not found' });
-    return;
-  }
-
-  res.json(updatedLesson[0]);
+// Your progress on a lesson, e.g. the position to resume a video from.
+// Null before you have started it.
+lessonRoutes.get('/lessons/:id/progress', requireAuth, async (req, res) => {
+  res.json(await findLessonProgress(req.user!.id, req.params.id));
 });
 
-// Mark lesson as complete
-lessonRoutes.post('/lessons/:id/complete', async (req, res) => {
-  const { id } = req.params;
-  // In a real app, we'd get the user ID from the auth token
-  const { userId, enrollmentId } = req.body;
+// Sent by the video player while a video plays. Records the position to
+// resume from and the time watched, and completes the lesson once the
+// position passes WATCH_THRESHOLD of the video's duration.
+lessonRoutes.post(
+  '/lessons/:id/heartbeat',
+  requireAuth,
+  validate(heartbeatInputSchema),
+  async (req, res) => {
+    const { id } = req.params;
+    const userId = req.user!.id;
+    const { position, elapsed, duration } = req.body;
 
-  // Check if already completed
-  const existing = await db
-    .select()
-    .from(lessonProgress)
-    .where(
-      and(eq(lessonProgress.userId, userId), eq(lessonProgress.lessonId, id))
-    )
-    .limit(1);
+    const lesson = await db
+      .select({ courseId: lessons.courseId, type: lessons.type })
+      .from(lessons)
+      .where(eq(lessons.id, id))
+      .limit(1);
 
-  if (existing.length > 0 && existing[0].completedAt) {
-    res.json(existing[0]);
-    return;
-  }
+    if (!lesson.length) {
+      throw new NotFoundError('Lesson not found');
+    }
 
-  // Create or update progress
-  const progressId = existing.length > 0 ? existing[0].id : createId();
+    if (lesson[0].type !== 'video') {
+      throw new ConflictError('Only video lessons record watch time', {
+        code: 'NOT_A_VIDEO_LESSON',
+      });
+    }
 
-  if (existing.length > 0) {
-    const updated = await db
-      .update(lessonProgress)
-      .set({
-        completedAt: new Date(),
-        updatedAt: new Date(),
-      })
-      .where(eq(lessonProgress.id, progressId))
-      .returning();
+    const enrollmentId = await requireEnrollmentId(userId, lesson[0].courseId);
+    await requireUnlocked(userId, id);
+    const progress = await recordWatchTime(userId, id, enrollmentId, { position, elapsed });
 
-    res.json(updated[0]);
-  } else {
-    const created = await db
-      .insert(lessonProgress)
-      .values({
-        id: progressId,
-        userId,
-        lessonId: id,
-        enrollmentId,
-        completedAt: new Date(),
-      })
-      .returning();
+    const watched = duration !== undefined && position >= duration * WATCH_THRESHOLD;
+    if (watched && !progress.completedAt) {
+      res.json(await completeLesson(userId, id, enrollmentId));
+      return;
+    }
 
-    res.json(created[0]);
+    res.json({ ...progress, courseProgress: null, certificateId: null });
   }
-});
+);
 
 // Delete lesson
-lessonRoutes.delete('/lessons/:id', async (req, res) => {
-  const { id } = req.params;
-  const deleted = await db
-    .delete(lessons)
-    .where(eq(lessons.id, id))
-    .returning();
+lessonRoutes.delete(
+  '/lessons/:id',
+  canManageLessons,
+  requireCourseOwner(courseFromLesson),
+  async (req, res) => {
+    const { id } = req.params;
+    const deleted = await db
+      .delete(lessons)
+      .where(eq(lessons.id, id))
+      .returning();
 
-  if (!deleted.length) {
-    res.status(404).json({ error: 'Lesson not found' });
-    return;
-  }
+    if (!deleted.length) {
+      throw new NotFoundError('Lesson not found');
+    }
 
-  res.json({ success: true, deletedId: id });
-});
+    res.json({ success: true, deletedId: id });
+  }
+);
@@ -0,0 +1,63 @@
+import { markdownHeadings } from '@sentry-academy/contracts';
+import type { lessonNotes, lessons } from '../../../db/schema';
+
+// Renders a learner's notes on a course as a single markdown document: a
+// section per lesson in course order, and within it the notes by where they
+// are anchored (video time, then heading order, then unanchored ones).
+
+type Note = typeof lessonNotes.$inferSelect;
+type Lesson = Pick<typeof lessons.$inferSelect, 'id' | 'title' | 'content'>;
+
+const formatVideoTime = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+const anchorLabel = (note: Note) => {
+  if (note.videoTime !== null) return `At ${formatVideoTime(note.videoTime)}`;
+  if (note.heading !== null) return `On “${note.heading}”`;
+  return 'Note';
+};
+
+const sortNotes = (lesson: Lesson, notes: Note[]) => {
+  const headings = markdownHeadings(lesson.content);
+  const position = (note: Note) =>
+    note.videoTime !== null
+      ? [0, note.videoTime]
+      : note.heading !== null
+        ? [1, headings.indexOf(note.heading)]
+        : [2, 0];
+
+  return [...notes].sort((a, b) => {
+    const [groupA, valueA] = position(a);
+    const [groupB, valueB] = position(b);
+    return groupA - groupB || valueA - valueB || a.createdAt.getTime() - b.createdAt.getTime();
+  });
+};
+
+export const notesToMarkdown = (
+  course: { title: string },
+  byLesson: { lesson: Lesson; notes: Note[] }[],
+  exportedAt = new Date()
+) => {
+  const sections = byLesson
+    .filter(({ notes }) => notes.length)
+    .map(({ lesson, notes }) =>
+      [
+        `## ${lesson.title}`,
+        ...sortNotes(lesson, notes).map(
+          (note) =>
+            `### ${anchorLabel(note)}\n\n${note.content}\n\n` +
+            `_Written ${note.createdAt.toISOString().slice(0, 10)}_`
+        ),
+      ].join('\n\n')
+    );
+
+  return [
+    `# Notes on ${course.title}`,
+    `Exported ${exportedAt.toISOString().slice(0, 10)}.`,
+    ...(sections.length ? sections : ["You haven't taken any notes in this course yet."]),
+  ].join('\n\n') + '\n';
+};
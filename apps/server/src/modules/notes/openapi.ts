@@ -0,0 +1,86 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, deletedSchema, idParams, json, problems } from '../../lib/openapi';
+import { lessonNoteSchema, noteCreateSchema, noteUpdateSchema } from '../../../db/validation';
+
+const noteParams = z.object({ id: z.string(), noteId: z.string() });
+
+export const registerNotePaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/{id}/notes',
+    tags: ['Notes'],
+    summary: 'List your notes on a lesson',
+    description: 'Notes anchored to a video time come first, in time order.',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(z.array(lessonNoteSchema), 'Your notes'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/lessons/{id}/notes',
+    tags: ['Notes'],
+    summary: 'Take a note on a lesson',
+    description:
+      'A note can be anchored to a time in the video of a video lesson, or to one of the ' +
+      'headings of the lesson content, but not both.',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: noteCreateSchema } } },
+    },
+    responses: {
+      201: json(lessonNoteSchema, 'The new note'),
+      ...problems(400, 401, 402, 403, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/lessons/{id}/notes/{noteId}',
+    tags: ['Notes'],
+    summary: 'Edit your note',
+    security: bearerAuth,
+    request: {
+      params: noteParams,
+      body: { content: { 'application/json': { schema: noteUpdateSchema } } },
+    },
+    responses: {
+      200: json(lessonNoteSchema, 'The updated note'),
+      ...problems(400, 401, 402, 403, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/lessons/{id}/notes/{noteId}',
+    tags: ['Notes'],
+    summary: 'Delete your note',
+    security: bearerAuth,
+    request: { params: noteParams },
+    responses: {
+      200: json(deletedSchema, 'Deleted'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/courses/{id}/notes/export',
+    tags: ['Notes'],
+    summary: 'Download your notes on a course',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: {
+        description: 'All your notes on the course as a markdown attachment, by lesson',
+        content: { 'text/markdown': { schema: z.string() } },
+      },
+      ...problems(401, 404),
+    },
+  });
+};
@@ -0,0 +1,159 @@
+import express from 'express';
+import { and, asc, eq } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { markdownHeadings } from '@sentry-academy/contracts';
+import { db } from '../../../db';
+import { courses, lessonNotes, lessons } from '../../../db/schema';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { noteCreateSchema, noteUpdateSchema } from '../../../db/validation';
+import { NotFoundError, ValidationError } from '../../lib/errors';
+import { findAccessibleLesson } from '../lessons/access';
+import { notesToMarkdown } from './export';
+
+export const noteRoutes = express.Router();
+
+type Lesson = typeof lessons.$inferSelect;
+
+const fieldError = (field: string, message: string) =>
+  new ValidationError(`${field}: ${message}`, { extensions: { fields: [{ field, message }] } });
+
+// Anchors have to point into the lesson: video times only exist on video
+// lessons, and headings have to be ones its content has
+const checkAnchor = (
+  lesson: Lesson,
+  { videoTime, heading }: { videoTime?: number | null; heading?: string | null }
+) => {
+  if (videoTime != null && lesson.type !== 'video') {
+    throw fieldError('videoTime', 'Only notes on video lessons can have a video time');
+  }
+  if (heading != null && !markdownHeadings(lesson.content).includes(heading)) {
+    throw fieldError('heading', 'Must be one of the headings of the lesson');
+  }
+};
+
+const yourNote = (req: express.Request) =>
+  and(
+    eq(lessonNotes.id, req.params.noteId),
+    eq(lessonNotes.lessonId, req.params.id),
+    eq(lessonNotes.userId, req.user!.id)
+  );
+
+// Your notes on a lesson, the ones anchored to the video in time order first
+noteRoutes.get('/lessons/:id/notes', requireAuth, async (req, res) => {
+  const lesson = await db
+    .select({ id: lessons.id })
+    .from(lessons)
+    .where(eq(lessons.id, req.params.id))
+    .limit(1);
+
+  if (!lesson.length) {
+    throw new NotFoundError('Lesson not found');
+  }
+
+  const notes = await db
+    .select()
+    .from(lessonNotes)
+    .where(and(eq(lessonNotes.lessonId, lesson[0].id), eq(lessonNotes.userId, req.user!.id)))
+    .orderBy(asc(lessonNotes.videoTime), asc(lessonNotes.createdAt));
+
+  res.json(notes);
+});
+
+// Take a note on a lesson you can open
+noteRoutes.post(
+  '/lessons/:id/notes',
+  requireAuth,
+  validate(noteCreateSchema),
+  async (req, res) => {
+    const lesson = await findAccessibleLesson(req.user, req.params.id);
+    checkAnchor(lesson, req.body);
+
+    const [note] = await db
+      .insert(lessonNotes)
+      .values({ id: createId(), userId: req.user!.id, lessonId: lesson.id, ...req.body })
+      .returning();
+
+    res.status(201).json(note);
+  }
+);
+
+// Edit one of your notes. Setting one anchor clears the other.
+noteRoutes.put(
+  '/lessons/:id/notes/:noteId',
+  requireAuth,
+  validate(noteUpdateSchema),
+  async (req, res) => {
+    const lesson = await findAccessibleLesson(req.user, req.params.id);
+    checkAnchor(lesson, req.body);
+
+    const { videoTime, heading } = req.body;
+    const updated = await db
+      .update(lessonNotes)
+      .set({
+        ...req.body,
+        ...(videoTime != null && { heading: null }),
+        ...(heading != null && { videoTime: null }),
+        updatedAt: new Date(),
+      })
+      .where(yourNote(req))
+      .returning();
+
+    if (!updated.length) {
+      throw new NotFoundError('Note not found');
+    }
+
+    res.json(updated[0]);
+  }
+);
+
+// Delete one of your notes
+noteRoutes.delete('/lessons/:id/notes/:noteId', requireAuth, async (req, res) => {
+  const deleted = await db
+    .delete(lessonNotes)
+    .where(yourNote(req))
+    .returning({ id: lessonNotes.id });
+
+  if (!deleted.length) {
+    throw new NotFoundError('Note not found');
+  }
+
+  res.json({ success: true, deletedId: deleted[0].id });
+});
+
+// All your notes on a course as one markdown file
+noteRoutes.get('/courses/:id/notes/export', requireAuth, async (req, res) => {
+  const course = await db
+    .select({ id: courses.id, title: courses.title, slug: courses.slug })
+    .from(courses)
+    .where(eq(courses.id, req.params.id))
+    .limit(1);
+
+  if (!course.length) {
+    throw new NotFoundError('Course not found');
+  }
+
+  const rows = await db
+    .select({
+      lesson: { id: lessons.id, title: lessons.title, content: lessons.content },
+      note: lessonNotes,
+    })
+    .from(lessonNotes)
+    .innerJoin(lessons, eq(lessonNotes.lessonId, lessons.id))
+    .where(and(eq(lessons.courseId, course[0].id), eq(lessonNotes.userId, req.user!.id)))
+    .orderBy(asc(lessons.order), asc(lessons.id));
+  type Row = (typeof rows)[number];
+
+  // Rows arrive in course order, so the map keeps the lessons in it
+  const byLesson = new Map<string, { lesson: Row['lesson']; notes: Row['note'][] }>();
+  for (const { lesson, note } of rows) {
+    const entry = byLesson.get(lesson.id) ?? { lesson, notes: [] };
+    entry.notes.push(note);
+    byLesson.set(lesson.id, entry);
+  }
+
+  res
+    .attachment(`${course[0].slug}-notes.md`)
+    .type('text/markdown')
+    .send(notesToMarkdown(course[0], [...byLesson.values()]));
+});
@@ -0,0 +1,20 @@
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../../db';
+import { notifications } from '../../../db/schema';
+
+export interface NotificationInput {
+  type: string;
+  title: string;
+  body?: string;
+  // Frontend path to open from the notification
+  link?: string;
+}
+
+export const notify = async (userId: string, notification: NotificationInput) => {
+  const [created] = await db
+    .insert(notifications)
+    .values({ id: createId(), userId, ...notification })
+    .returning();
+
+  return created;
+};
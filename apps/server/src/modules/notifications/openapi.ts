@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, idParams, json, problems } from '../../lib/openapi';
+import { notificationSchema } from '../../../db/validation';
+
+const notificationListSchema = z
+  .object({
+    notifications: z.array(notificationSchema),
+    unreadCount: z.number().int(),
+  })
+  .openapi('Notifications');
+
+export const registerNotificationPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/me/notifications',
+    tags: ['Notifications'],
+    summary: 'List your 50 most recent notifications',
+    security: bearerAuth,
+    request: {
+      query: z.object({
+        unread: z.enum(['true', 'false']).optional().openapi({ description: 'Only unread ones' }),
+      }),
+    },
+    responses: {
+      200: json(notificationListSchema, 'Notifications, newest first'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/me/notifications/{id}/read',
+    tags: ['Notifications'],
+    summary: 'Mark a notification as read',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(notificationSchema, 'The notification'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/me/notifications/read-all',
+    tags: ['Notifications'],
+    summary: 'Mark all your notifications as read',
+    security: bearerAuth,
+    responses: {
+      200: json(
+        z.object({ success: z.literal(true), updated: z.number().int() }),
+        'How many were marked'
+      ),
+      ...problems(401),
+    },
+  });
+};
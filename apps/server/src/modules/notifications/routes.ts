@@ -0,0 +1,58 @@
+import express from 'express';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { db } from '../../../db';
+import { notifications } from '../../../db/schema';
+import { requireAuth } from '../../middleware/auth';
+import { NotFoundError } from '../../lib/errors';
+
+export const notificationRoutes = express.Router();
+
+const NOTIFICATION_LIMIT = 50;
+
+// Your most recent notifications, newest first. `?unread=true` leaves out
+// the ones already read.
+notificationRoutes.get('/me/notifications', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+  const mine = eq(notifications.userId, userId);
+  const unread = isNull(notifications.readAt);
+
+  const items = await db
+    .select()
+    .from(notifications)
+    .where(req.query.unread === 'true' ? and(mine, unread) : mine)
+    .orderBy(desc(notifications.createdAt))
+    .limit(NOTIFICATION_LIMIT);
+
+  const [{ unreadCount }] = await db
+    .select({ unreadCount: sql<number>`count(*)::int` })
+    .from(notifications)
+    .where(and(mine, unread));
+
+  res.json({ notifications: items, unreadCount });
+});
+
+// Mark one notification as read
+notificationRoutes.post('/me/notifications/:id/read', requireAuth, async (req, res) => {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: sql`coalesce(${notifications.readAt}, now())` })
+    .where(and(eq(notifications.id, req.params.id), eq(notifications.userId, req.user!.id)))
+    .returning();
+
+  if (!updated.length) {
+    throw new NotFoundError('Notification not found');
+  }
+
+  res.json(updated[0]);
+});
+
+// Mark all your notifications as read
+notificationRoutes.post('/me/notifications/read-all', requireAuth, async (req, res) => {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(and(eq(notifications.userId, req.user!.id), isNull(notifications.readAt)))
+    .returning({ id: notifications.id });
+
+  res.json({ success: true, updated: updated.length });
+});
@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createId } from '@paralleldrive/cuid2';
+import { apiUrl } from '../../config';
+import { UnauthorizedError, ValidationError } from '../../lib/errors';
+import type { PaymentEvent, PaymentProvider } from './payments';
+
+// A payment provider for local development and demos that never moves money.
+// The payment method picks the outcome, like a processor's test cards:
+//
+//   fake_card_success             charged right away (the default)
+//   fake_card_declined            declined
+//   fake_card_insufficient_funds  declined
+//   fake_card_async               pending, then a payment.succeeded webhook
+//   fake_card_async_declined      pending, then a payment.failed webhook
+//
+// Webhooks are POSTed to /api/payments/webhook/fake a few seconds later and
+// signed with FAKE_PAYMENTS_WEBHOOK_SECRET, the way a real processor would
+// call back. Disabled when NODE_ENV=production unless FAKE_PAYMENTS=true.
+
+export const isFakePaymentsEnabled =
+  process.env.FAKE_PAYMENTS === 'true' ||
+  (process.env.NODE_ENV !== 'production' && process.env.FAKE_PAYMENTS !== 'false');
+
+export const FAKE_PAYMENT_METHODS = [
+  'fake_card_success',
+  'fake_card_declined',
+  'fake_card_insufficient_funds',
+  'fake_card_async',
+  'fake_card_async_declined',
+] as const;
+
+const WEBHOOK_SECRET = process.env.FAKE_PAYMENTS_WEBHOOK_SECRET || 'fake-payments-local-secret';
+const WEBHOOK_DELAY_MS = Number(process.env.FAKE_PAYMENTS_WEBHOOK_DELAY_MS) || 3000;
+const SIGNATURE_HEADER = 'x-fake-signature';
+
+const sign = (body: string | Buffer) =>
+  `sha256=${createHmac('sha256', WEBHOOK_SECRET).update(body).digest('hex')}`;
+
+const sendWebhook = (event: PaymentEvent) => {
+  const body = JSON.stringify(event);
+
+  setTimeout(() => {
+    fetch(`${apiUrl}/api/payments/webhook/fake`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', [SIGNATURE_HEADER]: sign(body) },
+      body,
+    })
+      .then((response) => {
+        if (!response.ok) {
+          console.error(`💳 Fake payments webhook failed: HTTP ${response.status}`);
+        }
+      })
+      .catch((err) => console.error('💳 Fake payments webhook failed:', err));
+  }, WEBHOOK_DELAY_MS);
+};
+
+export const fakePaymentProvider: PaymentProvider = {
+  async charge({ paymentMethod = 'fake_card_success' }) {
+    const paymentId = `fake_pay_${createId()}`;
+
+    switch (paymentMethod) {
+      case 'fake_card_success':
+        return { status: 'succeeded', paymentId };
+      case 'fake_card_declined':
+        return { status: 'declined', paymentId, reason: 'Your card was declined' };
+      case 'fake_card_insufficient_funds':
+        return { status: 'declined', paymentId, reason: 'Your card has insufficient funds' };
+      case 'fake_card_async':
+        sendWebhook({ type: 'payment.succeeded', paymentId });
+        return { status: 'pending', paymentId };
+      case 'fake_card_async_declined':
+        sendWebhook({
+          type: 'payment.failed',
+          paymentId,
+          reason: 'The payment was not authorized',
+        });
+        return { status: 'pending', paymentId };
+      default:
+        return {
+          status: 'declined',
+          paymentId,
+          reason: `Unknown test payment method, use one of ${FAKE_PAYMENT_METHODS.join(', ')}`,
+        };
+    }
+  },
+
+  async refund() {
+    return { refundId: `fake_re_${createId()}` };
+  },
+
+  parseWebhook(body, headers) {
+    const signature = Buffer.from(String(headers[SIGNATURE_HEADER] ?? ''));
+    const expected = Buffer.from(sign(body));
+
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new UnauthorizedError('Invalid webhook signature', { code: 'INVALID_SIGNATURE' });
+    }
+
+    try {
+      return JSON.parse(body.toString('utf8')) as PaymentEvent;
+    } catch {
+      throw new ValidationError('Request body is not valid JSON', { code: 'MALFORMED_JSON' });
+    }
+  },
+};
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { DISCOUNT_TYPES } from '@sentry-academy/contracts';
+import { bearerAuth, idParams, json, problemSchema, problems } from '../../lib/openapi';
+import {
+  couponCreateSchema,
+  couponSchema,
+  orderCreateSchema,
+  orderQuoteSchema,
+  orderSchema,
+} from '../../../db/validation';
+
+const quoteSchema = z
+  .object({
+    courseId: z.string(),
+    amount: z.string().openapi({ description: 'Course price', example: '49.99' }),
+    discount: z.string(),
+    total: z.string().openapi({ description: 'What will be charged' }),
+    currency: z.string(),
+    coupon: z
+      .object({ code: z.string(), discountType: z.enum(DISCOUNT_TYPES), amount: z.string() })
+      .nullable(),
+  })
+  .openapi('OrderQuote');
+
+const orderWithCourseSchema = orderSchema
+  .extend({
+    course: z.object({ id: z.string(), title: z.string(), thumbnail: z.string().nullable() }),
+  })
+  .openapi('OrderWithCourse');
+
+const orderProblemSchema = problemSchema
+  .extend({ orderId: z.string() })
+  .openapi('OrderProblem', {
+    description:
+      '`PAYMENT_DECLINED` (402) with the failed order, `ORDER_PENDING` (409) with the order ' +
+      'still waiting for its payment, `ALREADY_PURCHASED` (409) with the paid order',
+  });
+
+const orderProblem = (description: string) => ({
+  description,
+  content: { 'application/problem+json': { schema: orderProblemSchema } },
+});
+
+export const registerOrderPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/orders/quote',
+    tags: ['Orders'],
+    summary: 'Price a paid course, with a coupon code applied',
+    request: { body: { content: { 'application/json': { schema: orderQuoteSchema } } } },
+    responses: {
+      200: json(quoteSchema, 'The price breakdown'),
+      ...problems(400, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/orders',
+    tags: ['Orders'],
+    summary: 'Buy a paid course',
+    description:
+      'Successful payments enroll you right away. When the provider confirms the payment ' +
+      'later the order stays pending and you are enrolled once its webhook arrives. ' +
+      'Declined payments are a 402 with the `orderId`.',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: orderCreateSchema } } } },
+    responses: {
+      201: json(orderSchema, 'The paid order'),
+      202: json(orderSchema, 'The pending order'),
+      ...problems(400, 401, 404, 502, 503),
+      402: orderProblem('The payment was declined'),
+      409: orderProblem(
+        'Already enrolled or bought, the course is free, or a payment is pending'
+      ),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/me/orders',
+    tags: ['Orders'],
+    summary: 'List your orders, newest first',
+    security: bearerAuth,
+    responses: {
+      200: json(z.array(orderWithCourseSchema), 'Orders'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/orders/{id}',
+    tags: ['Orders'],
+    summary: 'Get one of your orders',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(orderSchema, 'The order'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/orders/{id}/refund',
+    tags: ['Orders'],
+    summary: 'Refund a paid order, which revokes its enrollment',
+    description: 'Buyers can refund within 14 days of purchase, admins at any time.',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(orderSchema, 'The refunded order'),
+      ...problems(401, 403, 404, 409, 503),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/payments/webhook/{provider}',
+    tags: ['Orders'],
+    summary: 'Receive payment events from a payment provider',
+    description: "The body and its signature header are the provider's own format.",
+    request: { params: z.object({ provider: z.string().openapi({ example: 'fake' }) }) },
+    responses: {
+      200: json(z.object({ received: z.literal(true) }), 'The event was processed'),
+      ...problems(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/coupons',
+    tags: ['Orders'],
+    summary: 'List coupons; instructors see the ones they created',
+    security: bearerAuth,
+    responses: {
+      200: json(z.array(couponSchema), 'Coupons, newest first'),
+      ...problems(401, 403),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/coupons',
+    tags: ['Orders'],
+    summary: 'Create a coupon for one of your courses, or (admins) for every course',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: couponCreateSchema } } } },
+    responses: {
+      201: json(couponSchema, 'The new coupon'),
+      ...problems(400, 401, 403, 404, 409),
+    },
+  });
+};
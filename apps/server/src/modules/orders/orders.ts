@@ -0,0 +1,214 @@
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../../../db';
+import { coupons, enrollments, orders } from '../../../db/schema';
+import { ValidationError } from '../../lib/errors';
+import { createEnrollment, removeEnrollment, revokeCertificates } from '../enrollments/enrollment';
+
+// Pricing, fulfilment and refunds of orders. Money is handled in cents so
+// discounts don't pick up floating point noise; the API speaks in decimal
+// strings like the price column.
+
+type Order = typeof orders.$inferSelect;
+type Coupon = typeof coupons.$inferSelect;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const toCents = (amount: string | number | null) => Math.round(Number(amount ?? 0) * 100);
+const fromCents = (cents: number) => (cents / 100).toFixed(2);
+
+const invalidCoupon = (message: string) =>
+  new ValidationError(`couponCode: ${message}`, {
+    code: 'INVALID_COUPON',
+    extensions: { fields: [{ field: 'couponCode', message }] },
+  });
+
+// The coupon for a code, if it can be redeemed for the course
+const redeemableCoupon = async (code: string, courseId: string) => {
+  const coupon = await db
+    .select()
+    .from(coupons)
+    .where(eq(coupons.code, code.trim().toUpperCase()))
+    .limit(1);
+
+  if (!coupon.length) {
+    throw invalidCoupon('This coupon code does not exist');
+  }
+
+  const { courseId: couponCourseId, expiresAt, maxRedemptions, redemptionCount } = coupon[0];
+  if (couponCourseId && couponCourseId !== courseId) {
+    throw invalidCoupon('This coupon is not valid for this course');
+  }
+  if (expiresAt && expiresAt <= new Date()) {
+    throw invalidCoupon('This coupon has expired');
+  }
+  if (maxRedemptions !== null && redemptionCount >= maxRedemptions) {
+    throw invalidCoupon('This coupon has been fully redeemed');
+  }
+
+  return coupon[0];
+};
+
+const discountCents = (coupon: Coupon, priceCents: number) => {
+  const discount =
+    coupon.discountType === 'percentage'
+      ? Math.round((priceCents * Number(coupon.amount)) / 100)
+      : toCents(coupon.amount);
+  return Math.min(discount, priceCents);
+};
+
+// What buying a course costs, with the coupon applied. The coupon's id is
+// kept apart from the quote sent to clients.
+export const quoteCourse = async (
+  course: { id: string; price: string | null },
+  couponCode?: string
+) => {
+  const coupon = couponCode ? await redeemableCoupon(couponCode, course.id) : null;
+  const amount = toCents(course.price);
+  const discount = coupon ? discountCents(coupon, amount) : 0;
+
+  return {
+    quote: {
+      courseId: course.id,
+      amount: fromCents(amount),
+      discount: fromCents(discount),
+      total: fromCents(amount - discount),
+      currency: 'USD',
+      coupon: coupon && {
+        code: coupon.code,
+        discountType: coupon.discountType,
+        amount: coupon.amount,
+      },
+    },
+    couponId: coupon?.id ?? null,
+  };
+};
+
+// Takes one redemption of a coupon for a new order, before anything is
+// charged. The limit is checked in the update itself, so orders placed at the
+// same time can't take more redemptions than the coupon has; failed and
+// refunded orders give theirs back.
+export const reserveCoupon = async (tx: Transaction, couponId: string) => {
+  const reserved = await tx
+    .update(coupons)
+    .set({ redemptionCount: sql`${coupons.redemptionCount} + 1` })
+    .where(
+      and(
+        eq(coupons.id, couponId),
+        or(isNull(coupons.maxRedemptions), lt(coupons.redemptionCount, coupons.maxRedemptions))
+      )
+    )
+    .returning({ id: coupons.id });
+
+  if (!reserved.length) {
+    throw invalidCoupon('This coupon has been fully redeemed');
+  }
+};
+
+const releaseCoupon = (tx: Transaction, couponId: string) =>
+  tx
+    .update(coupons)
+    .set({ redemptionCount: sql`greatest(${coupons.redemptionCount} - 1, 0)` })
+    .where(eq(coupons.id, couponId));
+
+// Marks a pending order paid and enrolls the buyer. Only the first call for
+// an order does anything, so a webhook arriving twice is harmless; returns
+// null for orders that weren't pending.
+export const fulfilOrder = (orderId: string) =>
+  db.transaction(async (tx) => {
+    const paid = await tx
+      .update(orders)
+      .set({ status: 'paid', paidAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'pending')))
+      .returning();
+
+    if (!paid.length) {
+      return null;
+    }
+
+    const { userId, courseId } = paid[0];
+    const enrollment =
+      (await createEnrollment(tx, userId, courseId)) ??
+      (
+        await tx
+          .select()
+          .from(enrollments)
+          .where(and(eq(enrollments.userId, userId), eq(enrollments.courseId, courseId)))
+      )[0];
+
+    const [order] = await tx
+      .update(orders)
+      .set({ enrollmentId: enrollment.id })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    return order;
+  });
+
+// Gives the order's coupon redemption back. Null for orders that weren't
+// pending.
+export const failOrder = (orderId: string, reason: string) =>
+  db.transaction(async (tx) => {
+    const failed = await tx
+      .update(orders)
+      .set({ status: 'failed', failureReason: reason, updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.status, 'pending')))
+      .returning();
+
+    if (!failed.length) {
+      return null;
+    }
+
+    if (failed[0].couponId) {
+      await releaseCoupon(tx, failed[0].couponId);
+    }
+
+    return failed[0];
+  });
+
+// Pending orders whose payment wasn't confirmed in this time are given up
+// on, so they stop blocking another checkout for the course
+const PENDING_ORDER_TTL_MS = 60 * 60 * 1000;
+
+// Fails the buyer's pending orders for the course that have expired
+export const expirePendingOrders = async (userId: string, courseId: string) => {
+  const expired = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orders.courseId, courseId),
+        eq(orders.status, 'pending'),
+        lt(orders.createdAt, new Date(Date.now() - PENDING_ORDER_TTL_MS))
+      )
+    );
+
+  for (const { id } of expired) {
+    await failOrder(id, 'The payment was not confirmed in time');
+  }
+};
+
+// Marks a refunding order refunded, revokes the enrollment it bought and any
+// certificate earned with it, and gives its coupon redemption back. The provider has to have refunded the
+// payment already. Null for orders that weren't being refunded.
+export const revokeOrder = (order: Order) =>
+  db.transaction(async (tx) => {
+    const refunded = await tx
+      .update(orders)
+      .set({ status: 'refunded', refundedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(orders.id, order.id), eq(orders.status, 'refunding')))
+      .returning();
+
+    if (!refunded.length) {
+      return null;
+    }
+
+    if (order.enrollmentId) {
+      await removeEnrollment(tx, { id: order.enrollmentId, courseId: order.courseId });
+    }
+    await revokeCertificates(tx, order.userId, order.courseId);
+    if (order.couponId) {
+      await releaseCoupon(tx, order.couponId);
+    }
+
+    return refunded[0];
+  });
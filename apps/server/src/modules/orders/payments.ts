@@ -0,0 +1,45 @@
+import type { IncomingHttpHeaders } from 'http';
+import { fakePaymentProvider, isFakePaymentsEnabled } from './fakePayments';
+
+// Payment providers charge orders, refund them and report the outcome of
+// charges that complete later through webhooks. Orders record the provider
+// that charged them, so refunds and webhooks reach the same one even after
+// PAYMENT_PROVIDER changes. The fake provider is the only one so far; a real
+// processor plugs in by implementing PaymentProvider and adding it below.
+
+export interface ChargeRequest {
+  orderId: string;
+  amount: string; // Decimal string, e.g. "49.99"
+  currency: string;
+  description: string;
+  // Provider-specific, e.g. a card token from the provider's checkout form
+  paymentMethod?: string;
+}
+
+export type ChargeResult =
+  | { status: 'succeeded' | 'pending'; paymentId: string }
+  | { status: 'declined'; paymentId: string; reason: string };
+
+export type PaymentEvent =
+  | { type: 'payment.succeeded'; paymentId: string }
+  | { type: 'payment.failed'; paymentId: string; reason: string };
+
+export interface PaymentProvider {
+  charge(request: ChargeRequest): Promise<ChargeResult>;
+  refund(params: { paymentId: string; amount: string; currency: string }): Promise<{
+    refundId: string;
+  }>;
+  // Verifies the signature of a webhook request and reads its event. Throws
+  // an AppError when the request isn't genuine.
+  parseWebhook(body: Buffer, headers: IncomingHttpHeaders): PaymentEvent;
+}
+
+const providers: Record<string, PaymentProvider | null> = {
+  fake: isFakePaymentsEnabled ? fakePaymentProvider : null,
+};
+
+export const getPaymentProvider = (name: string): PaymentProvider | null =>
+  Object.hasOwn(providers, name) ? providers[name] : null;
+
+// The provider new orders are charged with
+export const checkoutProvider = process.env.PAYMENT_PROVIDER || 'fake';
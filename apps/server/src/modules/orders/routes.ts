@@ -0,0 +1,418 @@
+import express from 'express';
+import { and, desc, eq, inArray, isNull } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../../db';
+import { coupons, courses, enrollments, orders } from '../../../db/schema';
+import { requireAuth, requireRole } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { couponCreateSchema, orderCreateSchema, orderQuoteSchema } from '../../../db/validation';
+import {
+  AppError,
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../../lib/errors';
+import { notify } from '../notifications/notify';
+import { checkoutProvider, getPaymentProvider } from './payments';
+import {
+  expirePendingOrders,
+  failOrder,
+  fulfilOrder,
+  quoteCourse,
+  reserveCoupon,
+  revokeOrder,
+} from './orders';
+
+export const orderRoutes = express.Router();
+
+// Webhook signatures cover the exact bytes sent, so index.ts mounts this
+// ahead of express.json()
+export const webhookBodyParser = express.raw({ type: () => true, limit: '100kb' });
+
+// Buyers can refund an order themselves for this long after paying
+const REFUND_WINDOW_DAYS = 14;
+
+const paymentsUnavailable = () =>
+  new AppError(503, 'PAYMENTS_UNAVAILABLE', 'Payments are not available right now');
+
+const findPurchasableCourse = async (courseId: string) => {
+  const course = await db
+    .select({ id: courses.id, title: courses.title, status: courses.status, price: courses.price })
+    .from(courses)
+    .where(eq(courses.id, courseId))
+    .limit(1);
+
+  if (!course.length) {
+    throw new NotFoundError(`Course with id ${courseId} not found`);
+  }
+  if (course[0].status !== 'published') {
+    throw new ConflictError('This course is not open for enrollment');
+  }
+  if (!(Number(course[0].price) > 0)) {
+    throw new ConflictError('This course is free, enroll with POST /enrollments', {
+      code: 'COURSE_IS_FREE',
+    });
+  }
+
+  return course[0];
+};
+
+// One of your orders; admins can see anyone's
+const findOrder = async (req: express.Request) => {
+  const order = await db.select().from(orders).where(eq(orders.id, req.params.id)).limit(1);
+
+  if (!order.length || (order[0].userId !== req.user!.id && req.user!.role !== 'admin')) {
+    throw new NotFoundError('Order not found');
+  }
+
+  return order[0];
+};
+
+// Why a new order for the course can't be placed: the buyer's pending or
+// paid order for it
+const openOrderConflict = async (userId: string, courseId: string) => {
+  const open = await db
+    .select({ id: orders.id, status: orders.status })
+    .from(orders)
+    .where(
+      and(
+        eq(orders.userId, userId),
+        eq(orders.courseId, courseId),
+        inArray(orders.status, ['pending', 'paid', 'refunding'])
+      )
+    )
+    .limit(1);
+
+  if (open[0]?.status === 'pending') {
+    return new ConflictError('A payment for this course is still being processed', {
+      code: 'ORDER_PENDING',
+      extensions: { orderId: open[0].id },
+    });
+  }
+
+  return new ConflictError('You have already bought this course', {
+    code: 'ALREADY_PURCHASED',
+    extensions: { orderId: open[0]?.id },
+  });
+};
+
+// What buying a course costs, with a coupon code applied
+orderRoutes.post('/orders/quote', validate(orderQuoteSchema), async (req, res) => {
+  const course = await findPurchasableCourse(req.body.courseId);
+  const { quote } = await quoteCourse(course, req.body.couponCode);
+  res.json(quote);
+});
+
+// Buy a course. Charges that succeed right away enroll you and answer 201;
+// charges the provider confirms later answer 202 with the pending order, see
+// POST /payments/webhook/:provider. Declined charges are a 402.
+orderRoutes.post('/orders', requireAuth, validate(orderCreateSchema), async (req, res) => {
+  const userId = req.user!.id;
+  const { courseId, couponCode, paymentMethod } = req.body;
+  const course = await findPurchasableCourse(courseId);
+
+  const enrolled = await db
+    .select({ id: enrollments.id })
+    .from(enrollments)
+    .where(and(eq(enrollments.userId, userId), eq(enrollments.courseId, course.id)))
+    .limit(1);
+
+  if (enrolled.length) {
+    throw new ConflictError('Already enrolled in this course', { code: 'ALREADY_ENROLLED' });
+  }
+
+  await expirePendingOrders(userId, course.id);
+
+  const { quote, couponId } = await quoteCourse(course, couponCode);
+  const { amount, discount, total, currency } = quote;
+
+  // Coupons can bring the total down to nothing, which needs no payment
+  const free = Number(total) === 0;
+  const provider = free ? null : getPaymentProvider(checkoutProvider);
+  if (!free && !provider) {
+    throw paymentsUnavailable();
+  }
+
+  // A buyer has one open order per course (orders_open_idx), so of two
+  // checkouts at the same time only one gets to charge
+  const order = await db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(orders)
+      .values({
+        id: createId(),
+        userId,
+        courseId: course.id,
+        couponId,
+        amount,
+        discount,
+        total,
+        currency,
+        provider: free ? 'none' : checkoutProvider,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (inserted.length && couponId) {
+      await reserveCoupon(tx, couponId);
+    }
+
+    return inserted[0];
+  });
+
+  if (!order) {
+    throw await openOrderConflict(userId, course.id);
+  }
+
+  if (!provider) {
+    res.status(201).json(await fulfilOrder(order.id));
+    return;
+  }
+
+  let result;
+  try {
+    result = await provider.charge({
+      orderId: order.id,
+      amount: total,
+      currency,
+      description: course.title,
+      paymentMethod,
+    });
+  } catch (err) {
+    console.error('💳 Payment provider error:', err);
+    await failOrder(order.id, 'The payment provider could not be reached');
+    throw new AppError(502, 'PAYMENT_PROVIDER_ERROR', 'The payment could not be processed');
+  }
+
+  await db
+    .update(orders)
+    .set({ providerPaymentId: result.paymentId })
+    .where(eq(orders.id, order.id));
+
+  if (result.status === 'declined') {
+    await failOrder(order.id, result.reason);
+    throw new AppError(402, 'PAYMENT_DECLINED', result.reason, { orderId: order.id });
+  }
+
+  if (result.status === 'pending') {
+    res.status(202).json({ ...order, providerPaymentId: result.paymentId });
+    return;
+  }
+
+  res.status(201).json(await fulfilOrder(order.id));
+});
+
+// Your orders, newest first
+orderRoutes.get('/me/orders', requireAuth, async (req, res) => {
+  const mine = await db
+    .select({
+      order: orders,
+      course: { id: courses.id, title: courses.title, thumbnail: courses.thumbnail },
+    })
+    .from(orders)
+    .innerJoin(courses, eq(orders.courseId, courses.id))
+    .where(eq(orders.userId, req.user!.id))
+    .orderBy(desc(orders.createdAt));
+
+  res.json(mine.map(({ order, course }) => ({ ...order, course })));
+});
+
+// One of your orders, e.g. to poll a pending payment
+orderRoutes.get('/orders/:id', requireAuth, async (req, res) => {
+  res.json(await findOrder(req));
+});
+
+// Refund a paid order, which revokes its enrollment. Buyers can do this
+// within the refund window, admins at any time.
+orderRoutes.post('/orders/:id/refund', requireAuth, async (req, res) => {
+  const order = await findOrder(req);
+  const notRefundable = () =>
+    new ConflictError('Only paid orders can be refunded', { code: 'ORDER_NOT_REFUNDABLE' });
+
+  if (order.status !== 'paid') {
+    throw notRefundable();
+  }
+
+  const windowEnd = (order.paidAt ?? order.createdAt).getTime() + REFUND_WINDOW_DAYS * 86400000;
+  if (req.user!.role !== 'admin' && Date.now() > windowEnd) {
+    throw new ForbiddenError(
+      `Orders can only be refunded within ${REFUND_WINDOW_DAYS} days of purchase`,
+      { code: 'REFUND_WINDOW_CLOSED' }
+    );
+  }
+
+  const provider = order.providerPaymentId ? getPaymentProvider(order.provider) : null;
+  if (order.providerPaymentId && !provider) {
+    throw paymentsUnavailable();
+  }
+
+  // Claim the order before the provider pays anything back, so a second
+  // request for the same refund stops here
+  const claimed = await db
+    .update(orders)
+    .set({ status: 'refunding', updatedAt: new Date() })
+    .where(and(eq(orders.id, order.id), eq(orders.status, 'paid')))
+    .returning({ id: orders.id });
+
+  if (!claimed.length) {
+    throw notRefundable();
+  }
+
+  if (provider && order.providerPaymentId) {
+    try {
+      await provider.refund({
+        paymentId: order.providerPaymentId,
+        amount: order.total,
+        currency: order.currency,
+      });
+    } catch (err) {
+      await db
+        .update(orders)
+        .set({ status: 'paid', updatedAt: new Date() })
+        .where(and(eq(orders.id, order.id), eq(orders.status, 'refunding')));
+      throw err;
+    }
+  }
+
+  const refunded = await revokeOrder(order);
+  if (!refunded) {
+    throw notRefundable();
+  }
+
+  res.json(refunded);
+});
+
+// Marks a failed order's payment as refunded. Only the first call for an
+// order returns true, so a webhook arriving twice refunds once.
+const claimLateRefund = async (orderId: string) => {
+  const claimed = await db
+    .update(orders)
+    .set({ refundedAt: new Date(), updatedAt: new Date() })
+    .where(and(eq(orders.id, orderId), eq(orders.status, 'failed'), isNull(orders.refundedAt)))
+    .returning({ id: orders.id });
+  return claimed.length > 0;
+};
+
+// Payment providers report charges that completed after checkout here. The
+// provider verifies the request is genuine, see PaymentProvider.parseWebhook.
+orderRoutes.post('/payments/webhook/:provider', async (req, res) => {
+  const provider = getPaymentProvider(req.params.provider);
+  if (!provider) {
+    throw new NotFoundError('Unknown payment provider');
+  }
+  if (!Buffer.isBuffer(req.body)) {
+    throw new ValidationError('Send the webhook payload as the request body');
+  }
+
+  const event = provider.parseWebhook(req.body, req.headers);
+
+  const found = await db
+    .select({
+      id: orders.id,
+      userId: orders.userId,
+      total: orders.total,
+      currency: orders.currency,
+      course: { id: courses.id, title: courses.title },
+    })
+    .from(orders)
+    .innerJoin(courses, eq(orders.courseId, courses.id))
+    .where(
+      and(
+        eq(orders.provider, req.params.provider),
+        eq(orders.providerPaymentId, event.paymentId)
+      )
+    )
+    .limit(1);
+
+  if (!found.length) {
+    throw new NotFoundError('No order for this payment', { code: 'ORDER_NOT_FOUND' });
+  }
+
+  const { id, userId, total, currency, course } = found[0];
+  const link = `/courses/${course.id}/learn`;
+
+  if (event.type === 'payment.succeeded') {
+    if (await fulfilOrder(id)) {
+      await notify(userId, {
+        type: 'order_paid',
+        title: `Payment received for "${course.title}"`,
+        body: 'You are now enrolled. Happy learning!',
+        link,
+      });
+    } else if (await claimLateRefund(id)) {
+      // The payment went through after the order was given up on, see
+      // expirePendingOrders, so nothing was bought with it
+      try {
+        await provider.refund({ paymentId: event.paymentId, amount: total, currency });
+      } catch (err) {
+        await db.update(orders).set({ refundedAt: null }).where(eq(orders.id, id));
+        throw err;
+      }
+    }
+  } else if (event.type === 'payment.failed' && (await failOrder(id, event.reason))) {
+    await notify(userId, {
+      type: 'order_failed',
+      title: `Your payment for "${course.title}" failed`,
+      body: event.reason,
+      link,
+    });
+  }
+
+  res.json({ received: true });
+});
+
+// Coupons. Instructors create them for their own courses, admins for any
+// course or for every paid course (no courseId).
+
+orderRoutes.get('/coupons', requireRole('instructor', 'admin'), async (req, res) => {
+  const list = await db
+    .select()
+    .from(coupons)
+    .where(req.user!.role === 'admin' ? undefined : eq(coupons.createdBy, req.user!.id))
+    .orderBy(desc(coupons.createdAt));
+
+  res.json(list);
+});
+
+orderRoutes.post(
+  '/coupons',
+  requireRole('instructor', 'admin'),
+  validate(couponCreateSchema),
+  async (req, res) => {
+    const { courseId } = req.body;
+    const isAdmin = req.user!.role === 'admin';
+
+    if (!courseId && !isAdmin) {
+      throw new ForbiddenError('Only admins can create coupons for every course');
+    }
+
+    if (courseId) {
+      const course = await db
+        .select({ instructorId: courses.instructorId })
+        .from(courses)
+        .where(eq(courses.id, courseId))
+        .limit(1);
+
+      if (!course.length) {
+        throw new NotFoundError(`Course with id ${courseId} not found`);
+      }
+      if (!isAdmin && course[0].instructorId !== req.user!.id) {
+        throw new ForbiddenError('You can only create coupons for your own courses');
+      }
+    }
+
+    const created = await db
+      .insert(coupons)
+      .values({ id: createId(), ...req.body, createdBy: req.user!.id })
+      .onConflictDoNothing({ target: coupons.code })
+      .returning();
+
+    if (!created.length) {
+      throw new ConflictError('This coupon code is already taken', {
+        code: 'COUPON_CODE_TAKEN',
+      });
+    }
+
+    res.status(201).json(created[0]);
+  }
+);
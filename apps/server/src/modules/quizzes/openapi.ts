@@ -0,0 +1,121 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { QUIZ_QUESTION_TYPES } from '@sentry-academy/contracts';
+import { bearerAuth, idParams, json, problems } from '../../lib/openapi';
+import {
+  quizAttemptInputSchema,
+  quizAttemptSchema,
+  quizInputSchema,
+} from '../../../db/validation';
+
+const managerOnly = { description: "Only sent to the course's instructor and admins" };
+
+const quizAnswerSchema = z
+  .object({
+    id: z.string(),
+    text: z.string(),
+    isCorrect: z.boolean().optional().openapi(managerOnly),
+  })
+  .openapi('QuizAnswer');
+
+const quizQuestionSchema = z
+  .object({
+    id: z.string(),
+    type: z.enum(QUIZ_QUESTION_TYPES),
+    prompt: z.string(),
+    points: z.number().int(),
+    explanation: z.string().nullable().optional().openapi(managerOnly),
+    answers: z.array(quizAnswerSchema).openapi({
+      description:
+        'Options of choice questions. For free text questions these are the accepted ' +
+        'keywords, which only managers see.',
+    }),
+  })
+  .openapi('QuizQuestion');
+
+const quizSchema = z
+  .object({
+    id: z.string(),
+    lessonId: z.string(),
+    passingScore: z.number().int().openapi({ description: 'Score in percent needed to pass' }),
+    questions: z.array(quizQuestionSchema),
+  })
+  .openapi('Quiz');
+
+const gradedAttemptSchema = quizAttemptSchema
+  .extend({
+    passingScore: z.number().int(),
+    explanations: z.array(
+      z.object({ questionId: z.string(), explanation: z.string().nullable() })
+    ),
+    courseProgress: z
+      .number()
+      .int()
+      .nullable()
+      .openapi({ description: 'Course progress in percent, set when the attempt passed' }),
+    certificateId: z
+      .string()
+      .nullable()
+      .openapi({ description: 'Set when passing completed the course' }),
+  })
+  .openapi('GradedQuizAttempt');
+
+export const registerQuizPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/{id}/quiz',
+    tags: ['Quizzes'],
+    summary: "Get a lesson's quiz",
+    description: 'Access is the same as for GET /lessons/{id}.',
+    request: { params: idParams },
+    responses: {
+      200: json(quizSchema, 'The quiz'),
+      ...problems(402, 403, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/lessons/{id}/quiz',
+    tags: ['Quizzes'],
+    summary: 'Create or replace the quiz of a quiz lesson you instruct',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: quizInputSchema } } },
+    },
+    responses: {
+      200: json(quizSchema, 'The saved quiz, with answers'),
+      ...problems(400, 401, 403, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/lessons/{id}/attempts',
+    tags: ['Quizzes'],
+    summary: 'Submit quiz answers for grading; passing completes the lesson',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: quizAttemptInputSchema } } },
+    },
+    responses: {
+      201: json(gradedAttemptSchema, 'The graded attempt'),
+      ...problems(400, 401, 403, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/{id}/attempts',
+    tags: ['Quizzes'],
+    summary: 'List your attempts at a quiz, newest first',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(z.array(quizAttemptSchema), 'Attempts'),
+      ...problems(401, 404),
+    },
+  });
+};
@@ -0,0 +1,164 @@
+import type { z } from 'zod';
+import { createId } from '@paralleldrive/cuid2';
+import { asc, eq, inArray } from 'drizzle-orm';
+import { db } from '../../../db';
+import { quizAnswers, quizAttempts, quizQuestions, quizzes } from '../../../db/schema';
+import type { quizAttemptInputSchema, quizInputSchema } from '../../../db/validation';
+
+export type QuizInput = z.infer<typeof quizInputSchema>;
+type QuizResponses = z.infer<typeof quizAttemptInputSchema>['responses'];
+
+export type Quiz = NonNullable<Awaited<ReturnType<typeof findQuiz>>>;
+
+// A lesson's quiz with its questions and answers in order, or null when the
+// lesson has none
+export const findQuiz = async (lessonId: string) => {
+  const quiz = await db.select().from(quizzes).where(eq(quizzes.lessonId, lessonId)).limit(1);
+
+  if (!quiz.length) {
+    return null;
+  }
+
+  const questions = await db
+    .select()
+    .from(quizQuestions)
+    .where(eq(quizQuestions.quizId, quiz[0].id))
+    .orderBy(asc(quizQuestions.order));
+
+  const answers = questions.length
+    ? await db
+        .select()
+        .from(quizAnswers)
+        .where(inArray(quizAnswers.questionId, questions.map((question) => question.id)))
+        .orderBy(asc(quizAnswers.order))
+    : [];
+
+  return {
+    ...quiz[0],
+    questions: questions.map((question) => ({
+      ...question,
+      answers: answers.filter((answer) => answer.questionId === question.id),
+    })),
+  };
+};
+
+// Replaces the lesson's quiz. Earlier attempts keep their recorded scores.
+export const saveQuiz = async (lessonId: string, input: QuizInput) => {
+  await db.transaction(async (tx) => {
+    const [quiz] = await tx
+      .insert(quizzes)
+      .values({ id: createId(), lessonId, passingScore: input.passingScore })
+      .onConflictDoUpdate({
+        target: quizzes.lessonId,
+        set: { passingScore: input.passingScore, updatedAt: new Date() },
+      })
+      .returning();
+
+    // Answers go with their questions through the cascade
+    await tx.delete(quizQuestions).where(eq(quizQuestions.quizId, quiz.id));
+
+    const questions = input.questions.map((question, index) => ({
+      id: createId(),
+      quizId: quiz.id,
+      type: question.type,
+      prompt: question.prompt,
+      explanation: question.explanation,
+      points: question.points,
+      order: index + 1,
+    }));
+    await tx.insert(quizQuestions).values(questions);
+
+    const answers = input.questions.flatMap((question, index) =>
+      question.answers.map((answer, answerIndex) => ({
+        id: createId(),
+        questionId: questions[index].id,
+        text: answer.text,
+        isCorrect: question.type === 'free_text' || !!answer.isCorrect,
+        order: answerIndex + 1,
+      }))
+    );
+    await tx.insert(quizAnswers).values(answers);
+  });
+
+  return findQuiz(lessonId);
+};
+
+// What students see: no correct flags, no accepted keywords, and no
+// explanations until they have answered
+export const withoutSolutions = (quiz: Quiz) => ({
+  id: quiz.id,
+  lessonId: quiz.lessonId,
+  passingScore: quiz.passingScore,
+  questions: quiz.questions.map((question) => ({
+    id: question.id,
+    type: question.type,
+    prompt: question.prompt,
+    points: question.points,
+    answers:
+      question.type === 'free_text'
+        ? []
+        : question.answers.map((answer) => ({ id: answer.id, text: answer.text })),
+  })),
+});
+
+const normalise = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const isCorrect = (
+  question: Quiz['questions'][number],
+  response: QuizResponses[number] | undefined
+) => {
+  if (question.type === 'free_text') {
+    const text = normalise(response?.text ?? '');
+    return !!text && question.answers.some((keyword) => text.includes(normalise(keyword.text)));
+  }
+
+  // Choice questions need exactly the correct options, no more and no fewer
+  const chosen = new Set(response?.answerIds ?? []);
+  const correct = question.answers.filter((answer) => answer.isCorrect);
+  return chosen.size === correct.length && correct.every((answer) => chosen.has(answer.id));
+};
+
+// Grades the responses and records the attempt. Unanswered questions count as
+// wrong; the score is the percentage of points earned.
+export const recordAttempt = async (
+  userId: string,
+  quiz: Quiz,
+  responses: QuizResponses
+) => {
+  const byQuestion = new Map(responses.map((response) => [response.questionId, response]));
+
+  const graded = quiz.questions.map((question) => {
+    const response = byQuestion.get(question.id);
+    return {
+      question,
+      response: {
+        questionId: question.id,
+        ...(question.type === 'free_text'
+          ? { text: response?.text ?? '' }
+          : { answerIds: response?.answerIds ?? [] }),
+        correct: isCorrect(question, response),
+      },
+    };
+  });
+
+  const totalPoints = quiz.questions.reduce((sum, question) => sum + question.points, 0);
+  const earnedPoints = graded.reduce(
+    (sum, { question, response }) => sum + (response.correct ? question.points : 0),
+    0
+  );
+  const score = totalPoints ? Math.round((earnedPoints / totalPoints) * 100) : 0;
+
+  const [attempt] = await db
+    .insert(quizAttempts)
+    .values({
+      id: createId(),
+      userId,
+      lessonId: quiz.lessonId,
+      score,
+      passed: score >= quiz.passingScore,
+      responses: graded.map(({ response }) => response),
+    })
+    .returning();
+
+  return attempt;
+};
@@ -0,0 +1,123 @@
+import express from 'express';
+import { and, desc, eq } from 'drizzle-orm';
+import { db } from '../../../db';
+import { courses, lessons, quizAttempts } from '../../../db/schema';
+import { requireAuth, requireRole, requireCourseOwner } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { quizAttemptInputSchema, quizInputSchema } from '../../../db/validation';
+import { ConflictError, NotFoundError } from '../../lib/errors';
+import { completeLesson, requireEnrollmentId, requireUnlocked } from '../lessons/progress';
+import { findAccessibleLesson } from '../lessons/access';
+import { findQuiz, recordAttempt, saveQuiz, withoutSolutions } from './quiz';
+
+export const quizRoutes = express.Router();
+
+const findLesson = async (id: string) => {
+  const lesson = await db
+    .select({
+      id: lessons.id,
+      type: lessons.type,
+      courseId: lessons.courseId,
+      instructorId: courses.instructorId,
+    })
+    .from(lessons)
+    .innerJoin(courses, eq(lessons.courseId, courses.id))
+    .where(eq(lessons.id, id))
+    .limit(1);
+
+  if (!lesson.length) {
+    throw new NotFoundError('Lesson not found');
+  }
+
+  return lesson[0];
+};
+
+const requireQuiz = async (lessonId: string) => {
+  const quiz = await findQuiz(lessonId);
+  if (!quiz) {
+    throw new NotFoundError('This lesson has no quiz', { code: 'QUIZ_NOT_FOUND' });
+  }
+  return quiz;
+};
+
+const courseFromLesson = async (req: express.Request) => {
+  const lesson = await db
+    .select({ courseId: lessons.courseId })
+    .from(lessons)
+    .where(eq(lessons.id, req.params.id))
+    .limit(1);
+
+  return lesson[0]?.courseId;
+};
+
+// Get a lesson's quiz. The course's instructor and admins also get the
+// correct answers, accepted keywords and explanations.
+quizRoutes.get('/lessons/:id/quiz', async (req, res) => {
+  const lesson = await findLesson(req.params.id);
+  await findAccessibleLesson(req.user, lesson.id);
+  const quiz = await requireQuiz(lesson.id);
+
+  const canManage = req.user?.role === 'admin' || req.user?.id === lesson.instructorId;
+  res.json(canManage ? quiz : withoutSolutions(quiz));
+});
+
+// Create or replace the quiz of a quiz lesson
+quizRoutes.put(
+  '/lessons/:id/quiz',
+  requireRole('instructor', 'admin'),
+  requireCourseOwner(courseFromLesson),
+  validate(quizInputSchema),
+  async (req, res) => {
+    const lesson = await findLesson(req.params.id);
+
+    if (lesson.type !== 'quiz') {
+      throw new ConflictError('Only quiz lessons can have a quiz', { code: 'NOT_A_QUIZ_LESSON' });
+    }
+
+    res.json(await saveQuiz(lesson.id, req.body));
+  }
+);
+
+// Submit answers to a quiz. Attempts are graded on the server; reaching the
+// passing score completes the lesson.
+quizRoutes.post(
+  '/lessons/:id/attempts',
+  requireAuth,
+  validate(quizAttemptInputSchema),
+  async (req, res) => {
+    const userId = req.user!.id;
+    const lesson = await findLesson(req.params.id);
+    const enrollmentId = await requireEnrollmentId(userId, lesson.courseId);
+    await requireUnlocked(userId, lesson.id);
+    const quiz = await requireQuiz(lesson.id);
+
+    const attempt = await recordAttempt(userId, quiz, req.body.responses);
+    const completion = attempt.passed
+      ? await completeLesson(userId, lesson.id, enrollmentId)
+      : null;
+
+    res.status(201).json({
+      ...attempt,
+      passingScore: quiz.passingScore,
+      explanations: quiz.questions.map((question) => ({
+        questionId: question.id,
+        explanation: question.explanation,
+      })),
+      courseProgress: completion?.courseProgress ?? null,
+      certificateId: completion?.certificateId ?? null,
+    });
+  }
+);
+
+// Your attempts at a quiz, newest first
+quizRoutes.get('/lessons/:id/attempts', requireAuth, async (req, res) => {
+  const lesson = await findLesson(req.params.id);
+
+  const attempts = await db
+    .select()
+    .from(quizAttempts)
+    .where(and(eq(quizAttempts.userId, req.user!.id), eq(quizAttempts.lessonId, lesson.id)))
+    .orderBy(desc(quizAttempts.createdAt));
+
+  res.json(attempts);
+});
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, deletedSchema, idParams, json, problems } from '../../lib/openapi';
+import { reviewRowSchema, reviewSchema } from '../../../db/validation';
+
+const courseReviewSchema = reviewRowSchema
+  .omit({ userId: true })
+  .extend({
+    user: z.object({ id: z.string(), name: z.string(), avatarUrl: z.string().nullable() }),
+  })
+  .openapi('CourseReview');
+
+const courseReviewsSchema = z
+  .object({
+    rating: z.string().nullable().openapi({ description: 'Average rating, e.g. "4.50"' }),
+    reviewCount: z.number().int(),
+    reviews: z.array(courseReviewSchema),
+    myReview: courseReviewSchema.nullable().openapi({ description: 'Your own review, if any' }),
+    pagination: z.object({
+      page: z.number().int(),
+      limit: z.number().int(),
+      total: z.number().int(),
+      totalPages: z.number().int(),
+    }),
+  })
+  .openapi('CourseReviews');
+
+const reviewBody = { content: { 'application/json': { schema: reviewSchema } } };
+
+export const registerReviewPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/courses/{id}/reviews',
+    tags: ['Reviews'],
+    summary: "List a course's reviews",
+    request: {
+      params: idParams,
+      query: z.object({
+        page: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().positive().max(50).optional(),
+        sort: z.enum(['newest', 'oldest', 'highest', 'lowest']).optional(),
+      }),
+    },
+    responses: {
+      200: json(courseReviewsSchema, 'Reviews and the course rating'),
+      ...problems(404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/courses/{id}/reviews',
+    tags: ['Reviews'],
+    summary: 'Review a course you are enrolled in',
+    security: bearerAuth,
+    request: { params: idParams, body: reviewBody },
+    responses: {
+      201: json(reviewRowSchema, 'The new review'),
+      ...problems(400, 401, 403, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/reviews/{id}',
+    tags: ['Reviews'],
+    summary: 'Edit your review',
+    security: bearerAuth,
+    request: { params: idParams, body: reviewBody },
+    responses: {
+      200: json(reviewRowSchema, 'The updated review'),
+      ...problems(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/reviews/{id}',
+    tags: ['Reviews'],
+    summary: 'Delete your review',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(deletedSchema, 'Deleted'),
+      ...problems(401, 404),
+    },
+  });
+};
@@ -0,0 +1,213 @@
+import express from 'express';
+import { db } from '../../../db';
+import { reviews, courses, enrollments, users } from '../../../db/schema';
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { requireAuth } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { reviewSchema } from '../../../db/validation';
+import { ConflictError, ForbiddenError, NotFoundError } from '../../lib/errors';
+import { canViewCourse } from '../courses/lifecycle';
+
+export const reviewRoutes = express.Router();
+
+const MAX_PAGE_SIZE = 50;
+
+const sortOrders = {
+  newest: [desc(reviews.createdAt)],
+  oldest: [asc(reviews.createdAt)],
+  highest: [desc(reviews.rating), desc(reviews.createdAt)],
+  lowest: [asc(reviews.rating), desc(reviews.createdAt)],
+};
+
+type ReviewSort = keyof typeof sortOrders;
+
+const reviewColumns = {
+  id: reviews.id,
+  courseId: reviews.courseId,
+  rating: reviews.rating,
+  comment: reviews.comment,
+  createdAt: reviews.createdAt,
+  updatedAt: reviews.updatedAt,
+  user: {
+    id: users.id,
+    name: users.name,
+    avatarUrl: users.avatarUrl,
+  },
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Recomputes the course's average rating and review count from its reviews
+const refreshCourseRating = async (tx: Transaction, courseId: string) => {
+  await tx
+    .update(courses)
+    .set({
+      rating: sql`(select coalesce(round(avg(${reviews.rating}), 2), 0) from ${reviews} where ${reviews.courseId} = ${courseId})`,
+      reviewCount: sql`(select count(*)::int from ${reviews} where ${reviews.courseId} = ${courseId})`,
+    })
+    .where(eq(courses.id, courseId));
+};
+
+const parsePositiveInt = (value: unknown, fallback: number) => {
+  const parsed = parseInt(String(value), 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// List a course's reviews, newest first by default
+reviewRoutes.get('/courses/:id/reviews', async (req, res) => {
+  const { id } = req.params;
+  const page = parsePositiveInt(req.query.page, 1);
+  const limit = Math.min(parsePositiveInt(req.query.limit, 10), MAX_PAGE_SIZE);
+  const sort = (
+    Object.hasOwn(sortOrders, String(req.query.sort)) ? req.query.sort : 'newest'
+  ) as ReviewSort;
+
+  const course = await db
+    .select({
+      rating: courses.rating,
+      reviewCount: courses.reviewCount,
+      status: courses.status,
+      instructorId: courses.instructorId,
+    })
+    .from(courses)
+    .where(eq(courses.id, id))
+    .limit(1);
+
+  if (!course.length || !canViewCourse(req.user, course[0])) {
+    throw new NotFoundError('Course not found');
+  }
+
+  const [courseReviews, [{ total }], myReview] = await Promise.all([
+    db
+      .select(reviewColumns)
+      .from(reviews)
+      .innerJoin(users, eq(reviews.userId, users.id))
+      .where(eq(reviews.courseId, id))
+      .orderBy(...sortOrders[sort])
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(reviews)
+      .where(eq(reviews.courseId, id)),
+    // The signed-in user's own review, wherever it falls in the list
+    req.user
+      ? db
+          .select(reviewColumns)
+          .from(reviews)
+          .innerJoin(users, eq(reviews.userId, users.id))
+          .where(and(eq(reviews.courseId, id), eq(reviews.userId, req.user.id)))
+          .limit(1)
+      : Promise.resolve([]),
+  ]);
+
+  res.json({
+    rating: course[0].rating,
+    reviewCount: course[0].reviewCount,
+    reviews: courseReviews,
+    myReview: myReview[0] || null,
+    pagination: {
+      page,
+      limit,
+      total,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+// Review a course. Only enrolled users can review, once per course.
+reviewRoutes.post('/courses/:id/reviews', requireAuth, validate(reviewSchema), async (req, res) => {
+  const { id: courseId } = req.params;
+  const userId = req.user!.id;
+
+  const enrollment = await db
+    .select({ id: enrollments.id })
+    .from(enrollments)
+    .where(and(eq(enrollments.userId, userId), eq(enrollments.courseId, courseId)))
+    .limit(1);
+
+  if (!enrollment.length) {
+    throw new ForbiddenError('You must be enrolled in this course to review it');
+  }
+
+  const review = await db.transaction(async (tx) => {
+    const inserted = await tx
+      .insert(reviews)
+      .values({
+        id: createId(),
+        userId,
+        courseId,
+        rating: req.body.rating,
+        comment: req.body.comment || null,
+      })
+      .onConflictDoNothing({ target: [reviews.userId, reviews.courseId] })
+      .returning();
+
+    if (!inserted.length) {
+      return null;
+    }
+
+    await refreshCourseRating(tx, courseId);
+    return inserted[0];
+  });
+
+  if (!review) {
+    throw new ConflictError('You have already reviewed this course');
+  }
+
+  res.status(201).json(review);
+});
+
+// Edit your own review
+reviewRoutes.put('/reviews/:id', requireAuth, validate(reviewSchema), async (req, res) => {
+  const review = await db.transaction(async (tx) => {
+    const updated = await tx
+      .update(reviews)
+      .set({
+        rating: req.body.rating,
+        comment: req.body.comment || null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(reviews.id, req.params.id), eq(reviews.userId, req.user!.id)))
+      .returning();
+
+    if (!updated.length) {
+      return null;
+    }
+
+    await refreshCourseRating(tx, updated[0].courseId);
+    return updated[0];
+  });
+
+  if (!review) {
+    throw new NotFoundError('Review not found');
+  }
+
+  res.json(review);
+});
+
+// Delete your own review
+reviewRoutes.delete('/reviews/:id', requireAuth, async (req, res) => {
+  const { id } = req.params;
+
+  const deleted = await db.transaction(async (tx) => {
+    const removed = await tx
+      .delete(reviews)
+      .where(and(eq(reviews.id, id), eq(reviews.userId, req.user!.id)))
+      .returning({ courseId: reviews.courseId });
+
+    if (!removed.length) {
+      return false;
+    }
+
+    await refreshCourseRating(tx, removed[0].courseId);
+    return true;
+  });
+
+  if (!deleted) {
+    throw new NotFoundError('Review not found');
+  }
+
+  res.json({ success: true, deletedId: id });
+});
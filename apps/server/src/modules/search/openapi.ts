@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { json, problems } from '../../lib/openapi';
+import { courseSchema, lessonSchema } from '../../../db/validation';
+
+const facetSchema = z.object({ value: z.string(), count: z.number().int() }).openapi('SearchFacet');
+
+const highlighted = (description: string) =>
+  z
+    .string()
+    .nullable()
+    .openapi({ description: `${description}, with matches wrapped in <mark> tags` });
+
+const courseSearchResultSchema = courseSchema
+  .pick({
+    id: true,
+    title: true,
+    slug: true,
+    description: true,
+    thumbnail: true,
+    category: true,
+    tags: true,
+    level: true,
+    duration: true,
+    price: true,
+    rating: true,
+    reviewCount: true,
+    enrollmentCount: true,
+    isFeatured: true,
+  })
+  .extend({
+    instructor: z.string().nullable(),
+    rank: z.string(),
+    titleHighlight: highlighted('Title, when searching'),
+    snippet: highlighted('Description excerpt, when searching'),
+  })
+  .openapi('CourseSearchResult');
+
+const courseSearchResponseSchema = z
+  .object({
+    results: z.array(courseSearchResultSchema),
+    total: z.number().int(),
+    query: z.string(),
+    facets: z.object({
+      levels: z.array(facetSchema),
+      categories: z.array(facetSchema),
+      durations: z.array(facetSchema),
+      price: z.object({ min: z.number().nullable(), max: z.number().nullable() }),
+    }),
+    nextCursor: z.string().nullable(),
+  })
+  .openapi('CourseSearchResponse');
+
+const lessonSearchResponseSchema = z
+  .object({
+    results: z.array(
+      lessonSchema
+        .pick({ id: true, title: true, slug: true, type: true, duration: true, order: true })
+        .extend({
+          rank: z.number(),
+          excerpt: z.string().openapi({ description: 'Matches are wrapped in <mark> tags' }),
+          course: z.object({ id: z.string(), title: z.string(), slug: z.string() }),
+        })
+    ),
+    total: z.number().int(),
+    query: z.string(),
+    pagination: z.object({
+      page: z.number().int(),
+      limit: z.number().int(),
+      totalPages: z.number().int(),
+    }),
+  })
+  .openapi('LessonSearchResponse');
+
+const suggestionSchema = z
+  .object({
+    type: z.enum(['course', 'category', 'tag', 'instructor']),
+    label: z.string(),
+    courseId: z.string().nullable(),
+  })
+  .openapi('SearchSuggestion');
+
+// Filters accept comma-separated values or the parameter repeated
+const listParam = (example: string) => z.string().optional().openapi({ example });
+
+export const registerSearchPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/search/courses',
+    tags: ['Search'],
+    summary: 'Full-text search over published courses, with facets',
+    request: {
+      query: z.object({
+        q: z.string().optional(),
+        level: listParam('beginner,advanced'),
+        category: listParam('Observability'),
+        duration: listParam('short,medium').openapi({
+          description: 'short: under 5 hours, medium: 5-10 hours, long: over 10 hours',
+        }),
+        minPrice: z.coerce.number().optional(),
+        maxPrice: z.coerce.number().optional(),
+        limit: z.coerce.number().int().positive().max(50).optional(),
+        cursor: z.string().optional().openapi({ description: 'nextCursor of the previous page' }),
+      }),
+    },
+    responses: {
+      200: json(courseSearchResponseSchema, 'Matching courses, best first'),
+      ...problems(400),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/search/lessons',
+    tags: ['Search'],
+    summary: 'Search lesson content of published courses',
+    request: {
+      query: z.object({
+        q: z.string(),
+        courseId: z.string().optional(),
+        limit: z.coerce.number().int().positive().max(50).optional(),
+        page: z.coerce.number().int().positive().optional(),
+      }),
+    },
+    responses: {
+      200: json(lessonSearchResponseSchema, 'Matching lessons, best first'),
+      ...problems(400),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/search/suggest',
+    tags: ['Search'],
+    summary: 'Autocomplete suggestions for the search box',
+    request: { query: z.object({ q: z.string().optional() }) },
+    responses: {
+      200: json(
+        z.object({ query: z.string(), suggestions: z.array(suggestionSchema) }),
+        'Up to 8 suggestions; none for queries under 2 characters'
+      ),
+    },
+  });
+};
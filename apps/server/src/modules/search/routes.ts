@@ -1,57 +1,338 @@
 import express from 'express';
 import { db } from '../../../db';
-import { courses, users } from '../../../db/schema';
-import { or, ilike, eq } from 'drizzle-orm';
+import { courses, lessons, users } from '../../../db/schema';
+import { and, eq, desc, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import { ValidationError } from '../../lib/errors';
 
 export const searchRoutes = express.Router();
 
-// TOFIX Module 2: Search courses endpoint - expects 'q' parameter but frontend sends 'query'
-searchRoutes.get('/search/courses', async (req, res) => {
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 50;
+
+const SUGGESTION_LIMIT = 8;
+// pg_trgm word similarity needed for a fuzzy match, e.g. "obsrvability"
+// against "Observability" scores about 0.7
+const SUGGESTION_MIN_SIMILARITY = 0.5;
+
+const LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+const DURATIONS = ['short', 'medium', 'long'] as const;
+
+type Level = (typeof LEVELS)[number];
+
+// Maintained by triggers, see drizzle/0008_course_search.sql
+const searchVector = sql`${courses}."search_vector"`;
+// Generated column, see drizzle/0010_lesson_search.sql
+const lessonSearchVector = sql`${lessons}."search_vector"`;
+
+// Course durations are free text ("8 hours", "45 min"), so normalise to hours
+const durationNumber = sql`coalesce(substring(${courses.duration} from '\\d+(?:\\.\\d+)?')::numeric, 0)`;
+const durationHours = sql`(case when ${courses.duration} ~* 'min' then ${durationNumber} / 60 else ${durationNumber} end)`;
+
+// short: under 5 hours, medium: 5-10 hours, long: over 10 hours
+const durationBucket = sql<string>`(case when ${durationHours} < 5 then 'short' when ${durationHours} <= 10 then 'medium' else 'long' end)`;
+
+const sortRating = sql`coalesce(${courses.rating}, 0)`;
+
+interface SearchCursor {
+  rank: string;
+  rating: string;
+  id: string;
+}
+
+const encodeCursor = (cursor: SearchCursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (value: string): SearchCursor | null => {
   try {
-    const { q } = req.query;
-    
-    // Realistic API validation - backend expects 'q' parameter
-    if (!q || typeof q !== 'string') {
-      // This will throw when frontend sends 'query' instead of 'q'
-      throw new Error(`Missing required parameter 'q'. Received parameters: ${Object.keys(req.query).join(', ')}`);
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const isNumeric = (v: unknown) => typeof v === 'string' && /^\d+(\.\d+)?$/.test(v);
+    if (isNumeric(cursor.rank) && isNumeric(cursor.rating) && typeof cursor.id === 'string') {
+      return cursor;
     }
+  } catch {
+    // Fall through to null
+  }
+  return null;
+};
+
+// Accepts `?level=beginner,advanced` as well as `?level=beginner&level=advanced`
+const listParam = (value: unknown) =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((v) => (typeof v === 'string' ? v.split(',') : []))
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+const numberParam = (value: unknown) => {
+  const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// Full-text course search with filters, facet counts and cursor pagination
+searchRoutes.get('/search/courses', async (req, res) => {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const levels = listParam(req.query.level).filter((l): l is Level =>
+    (LEVELS as readonly string[]).includes(l)
+  );
+  const categories = listParam(req.query.category);
+  const durations = listParam(req.query.duration).filter((d) =>
+    (DURATIONS as readonly string[]).includes(d)
+  );
+  const minPrice = numberParam(req.query.minPrice);
+  const maxPrice = numberParam(req.query.maxPrice);
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit), 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+
+  const cursor =
+    typeof req.query.cursor === 'string' ? decodeCursor(req.query.cursor) : null;
+  if (req.query.cursor && !cursor) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  const tsquery = q ? sql`websearch_to_tsquery('english', ${q})` : null;
+  const rank = tsquery
+    ? sql<string>`round(ts_rank(${searchVector}, ${tsquery})::numeric, 6)`
+    : sql<string>`0::numeric`;
+
+  // Each facet is counted with every filter applied except its own, so the
+  // sidebar shows what picking another option would return
+  const filters: Record<string, SQL | undefined> = {
+    published: eq(courses.status, 'published'),
+    text: tsquery ? sql`${searchVector} @@ ${tsquery}` : undefined,
+    level: levels.length ? inArray(courses.level, levels) : undefined,
+    category: categories.length ? inArray(courses.category, categories) : undefined,
+    price: and(
+      minPrice !== undefined ? gte(courses.price, String(minPrice)) : undefined,
+      maxPrice !== undefined ? lte(courses.price, String(maxPrice)) : undefined
+    ),
+    duration: durations.length
+      ? inArray(durationBucket, durations)
+      : undefined,
+  };
+
+  const whereExcept = (dimension?: string) =>
+    and(
+      ...Object.entries(filters)
+        .filter(([key]) => key !== dimension)
+        .map(([, condition]) => condition)
+    );
 
-    // Simple search implementation
-    const results = await db
+  const afterCursor = cursor
+    ? sql`(${rank}, ${sortRating}, ${courses.id}) < (${cursor.rank}::numeric, ${cursor.rating}::numeric, ${cursor.id})`
+    : undefined;
+
+  const [rows, [{ total }], levelFacets, categoryFacets, durationFacets, [priceRange]] =
+    await Promise.all([
+      db
+        .select({
+          id: courses.id,
+          title: courses.title,
+          slug: courses.slug,
+          description: courses.description,
+          instructor: users.name,
+          thumbnail: courses.thumbnail,
+          category: courses.category,
+          tags: courses.tags,
+          level: courses.level,
+          duration: courses.duration,
+          price: courses.price,
+          rating: courses.rating,
+          reviewCount: courses.reviewCount,
+          enrollmentCount: courses.enrollmentCount,
+          isFeatured: courses.isFeatured,
+          rank,
+          sortRating: sql<string>`${sortRating}`,
+          // Matches are wrapped in <mark> tags
+          titleHighlight: tsquery
+            ? sql<string>`ts_headline('english', ${courses.title}, ${tsquery}, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`
+            : sql<string>`null`,
+          snippet: tsquery
+            ? sql<string>`ts_headline('english', ${courses.description}, ${tsquery}, 'MaxWords=35, MinWords=15, MaxFragments=2, StartSel=<mark>, StopSel=</mark>')`
+            : sql<string>`null`,
+        })
+        .from(courses)
+        .leftJoin(users, eq(courses.instructorId, users.id))
+        .where(and(whereExcept(), afterCursor))
+        .orderBy(desc(rank), desc(sortRating), desc(courses.id))
+        .limit(limit + 1),
+      db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(courses)
+        .where(whereExcept()),
+      db
+        .select({ value: courses.level, count: sql<number>`count(*)::int` })
+        .from(courses)
+        .where(whereExcept('level'))
+        .groupBy(courses.level),
+      db
+        .select({ value: courses.category, count: sql<number>`count(*)::int` })
+        .from(courses)
+        .where(whereExcept('category'))
+        .groupBy(courses.category)
+        .orderBy(courses.category),
+      db
+        .select({ value: durationBucket, count: sql<number>`count(*)::int` })
+        .from(courses)
+        .where(whereExcept('duration'))
+        .groupBy(durationBucket),
+      db
+        .select({
+          min: sql<string | null>`min(${courses.price})`,
+          max: sql<string | null>`max(${courses.price})`,
+        })
+        .from(courses)
+        .where(whereExcept('price')),
+    ]);
+
+  const hasMore = rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+  const last = page[page.length - 1];
+
+  res.json({
+    results: page.map(({ sortRating: _, ...course }) => course),
+    total,
+    query: q,
+    facets: {
+      levels: LEVELS.map((value) => ({
+        value,
+        count: levelFacets.find((f) => f.value === value)?.count || 0,
+      })),
+      categories: categoryFacets,
+      durations: DURATIONS.map((value) => ({
+        value,
+        count: durationFacets.find((f) => f.value === value)?.count || 0,
+      })),
+      price: {
+        min: priceRange.min === null ? null : Number(priceRange.min),
+        max: priceRange.max === null ? null : Number(priceRange.max),
+      },
+    },
+    nextCursor:
+      hasMore && last
+        ? encodeCursor({ rank: String(last.rank), rating: String(last.sortRating), id: last.id })
+        : null,
+  });
+});
+
+// Lesson content is markdown; drop the syntax so excerpts read as prose
+const plainContent = sql`regexp_replace(coalesce(${lessons.content}, ''), '[#*_\`>|\\[\\]]+', '', 'g')`;
+
+// Search inside lesson bodies, so learners can jump straight to the lesson
+// that covers a topic
+searchRoutes.get('/search/lessons', async (req, res) => {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const courseId = typeof req.query.courseId === 'string' ? req.query.courseId : undefined;
+  const limit = Math.min(
+    Math.max(parseInt(String(req.query.limit), 10) || DEFAULT_PAGE_SIZE, 1),
+    MAX_PAGE_SIZE
+  );
+  const page = Math.max(parseInt(String(req.query.page), 10) || 1, 1);
+
+  if (!q) {
+    throw new ValidationError("Missing required parameter 'q'");
+  }
+
+  const tsquery = sql`websearch_to_tsquery('english', ${q})`;
+  const where = and(
+    sql`${lessonSearchVector} @@ ${tsquery}`,
+    eq(courses.status, 'published'),
+    courseId ? eq(lessons.courseId, courseId) : undefined
+  );
+  const rank = sql<number>`ts_rank(${lessonSearchVector}, ${tsquery})`;
+
+  const [results, [{ total }]] = await Promise.all([
+    db
       .select({
-        id: courses.id,
-        title: courses.title,
-        slug: courses.slug,
-        description: courses.description,
-        instructor: users.name,
-        thumbnail: courses.thumbnail,
-        category: courses.category,
-        level: courses.level,
-        duration: courses.duration,
-        price: courses.price,
-        rating: courses.rating,
-        reviewCount: courses.reviewCount,
+        id: lessons.id,
+        title: lessons.title,
+        slug: lessons.slug,
+        type: lessons.type,
+        duration: lessons.duration,
+        order: lessons.order,
+        rank,
+        // Matches are wrapped in <mark> tags
+        excerpt: sql<string>`ts_headline('english', ${plainContent}, ${tsquery}, 'MaxWords=40, MinWords=20, MaxFragments=2, FragmentDelimiter=" … ", StartSel=<mark>, StopSel=</mark>')`,
+        course: {
+          id: courses.id,
+          title: courses.title,
+          slug: courses.slug,
+        },
       })
-      .from(courses)
-      .leftJoin(users, eq(courses.instructorId, users.id))
-      .where(
-        or(
-          ilike(courses.title, `%${q}%`),
-          ilike(courses.description, `%${q}%`)
-        )
-      )
-      .orderBy(courses.rating)
-      .limit(50);
-    
-    const responseData = {
-      results,
-      total: results.length,
-      query: q
-    };
-
-    res.json(responseData);
-
-  } catch (error: any) {
-    throw new Error(error.message);
+      .from(lessons)
+      .innerJoin(courses, eq(lessons.courseId, courses.id))
+      .where(where)
+      .orderBy(desc(rank), courses.title, lessons.order)
+      .limit(limit)
+      .offset((page - 1) * limit),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(lessons)
+      .innerJoin(courses, eq(lessons.courseId, courses.id))
+      .where(where),
+  ]);
+
+  res.json({
+    results,
+    total,
+    query: q,
+    pagination: {
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    },
+  });
+});
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+interface SuggestionRow extends Record<string, unknown> {
+  type: 'course' | 'category' | 'tag' | 'instructor';
+  label: string;
+  courseId: string | null;
+}
+
+// Autocomplete for the search box. Prefix matches rank first, then trigram
+// similarity catches typos.
+searchRoutes.get('/search/suggest', async (req, res) => {
+  const q = typeof req.query.q === 'string' ? req.query.q.trim().toLowerCase() : '';
+
+  if (q.length < 2) {
+    res.json({ query: q, suggestions: [] });
+    return;
   }
+
+  const prefix = `${escapeLike(q)}%`;
+  const wordPrefix = `% ${escapeLike(q)}%`;
+
+  const published = sql`${courses.status} = 'published'`;
+
+  const { rows } = await db.execute<SuggestionRow>(sql`
+    with candidates as (
+      select 'course' as type, ${courses.title} as label, ${courses.id} as "courseId"
+        from ${courses} where ${published}
+      union
+      select 'category', ${courses.category}, null from ${courses} where ${published}
+      union
+      select 'tag', tag, null
+        from ${courses}, jsonb_array_elements_text(${courses.tags}) as tag
+        where ${published}
+      union
+      select 'instructor', ${users.name}, null
+        from ${users} join ${courses} on ${courses.instructorId} = ${users.id}
+        where ${published}
+    )
+    select type, label, "courseId"
+    from (
+      select *,
+        lower(label) like ${prefix} or lower(label) like ${wordPrefix} as is_prefix,
+        word_similarity(${q}, lower(label)) as score
+      from candidates
+    ) scored
+    where is_prefix or score >= ${SUGGESTION_MIN_SIMILARITY}
+    order by is_prefix desc, score desc, length(label), label
+    limit ${SUGGESTION_LIMIT}
+  `);
+
+  res.json({ query: q, suggestions: rows });
 });
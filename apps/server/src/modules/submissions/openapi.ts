@@ -0,0 +1,94 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { SUBMISSION_STATUSES } from '@sentry-academy/contracts';
+import { bearerAuth, idParams, json, problems } from '../../lib/openapi';
+import {
+  submissionGradeSchema,
+  submissionInputSchema,
+  submissionSchema,
+  uploadSchema,
+} from '../../../db/validation';
+
+const submissionWithFilesSchema = submissionSchema
+  .extend({ files: z.array(uploadSchema) })
+  .openapi('SubmissionWithFiles');
+
+const queuedSubmissionSchema = submissionWithFilesSchema
+  .extend({
+    lesson: z.object({ id: z.string(), title: z.string() }),
+    course: z.object({ id: z.string(), title: z.string() }),
+    student: z.object({ id: z.string(), name: z.string(), email: z.string() }),
+  })
+  .openapi('QueuedSubmission');
+
+export const registerSubmissionPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/lessons/{id}/submissions',
+    tags: ['Assignments'],
+    summary: 'Hand in an assignment',
+    description:
+      'Upload files with POST /uploads first and pass their ids. A new submission is ' +
+      'accepted once the previous one needs revision.',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: submissionInputSchema } } },
+    },
+    responses: {
+      201: json(submissionWithFilesSchema, 'The submission, waiting to be graded'),
+      ...problems(400, 401, 403, 404, 409),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/lessons/{id}/submissions',
+    tags: ['Assignments'],
+    summary: 'List your submissions for an assignment, newest first',
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: json(z.array(submissionWithFilesSchema), 'Submissions'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/instructor/submissions',
+    tags: ['Assignments'],
+    summary: 'List submissions to your courses for grading, oldest first',
+    security: bearerAuth,
+    request: {
+      query: z.object({
+        status: z
+          .enum([...SUBMISSION_STATUSES, 'all'])
+          .optional()
+          .openapi({ description: 'Defaults to submitted, i.e. waiting to be graded' }),
+        courseId: z.string().optional(),
+        limit: z.coerce.number().int().positive().optional().openapi({ description: 'Default 50' }),
+      }),
+    },
+    responses: {
+      200: json(z.array(queuedSubmissionSchema), 'Submissions'),
+      ...problems(400, 401, 403),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/instructor/submissions/{id}/grade',
+    tags: ['Assignments'],
+    summary: 'Grade a submission; 60 or more passes and completes the lesson',
+    security: bearerAuth,
+    request: {
+      params: idParams,
+      body: { content: { 'application/json': { schema: submissionGradeSchema } } },
+    },
+    responses: {
+      200: json(submissionWithFilesSchema, 'The graded submission'),
+      ...problems(400, 401, 403, 404, 409),
+    },
+  });
+};
@@ -0,0 +1,282 @@
+import express from 'express';
+import { and, asc, desc, eq, inArray, isNull, type SQL } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { SUBMISSION_STATUSES, type SubmissionStatus } from '@sentry-academy/contracts';
+import { db } from '../../../db';
+import { assignmentSubmissions, courses, lessons, uploads, users } from '../../../db/schema';
+import { requireAuth, requireRole, requireCourseOwner } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import { submissionGradeSchema, submissionInputSchema } from '../../../db/validation';
+import { parseLimit } from '../../lib/pagination';
+import { ConflictError, NotFoundError, ValidationError } from '../../lib/errors';
+import { completeLesson, requireEnrollmentId, requireUnlocked } from '../lessons/progress';
+import { notify } from '../notifications/notify';
+import { uploadColumns } from '../uploads/files';
+
+export const submissionRoutes = express.Router();
+
+// Grades at or above this pass the assignment and complete the lesson
+export const PASSING_GRADE = 60;
+
+const QUEUE_PAGE_SIZE = 50;
+const MAX_QUEUE_PAGE_SIZE = 100;
+
+type Submission = typeof assignmentSubmissions.$inferSelect;
+
+// Adds each submission's attached files
+const withFiles = async <T extends Pick<Submission, 'id'>>(submissions: T[]) => {
+  const files = submissions.length
+    ? await db
+        .select(uploadColumns)
+        .from(uploads)
+        .where(inArray(uploads.submissionId, submissions.map((submission) => submission.id)))
+        .orderBy(asc(uploads.createdAt))
+    : [];
+
+  return submissions.map((submission) => ({
+    ...submission,
+    files: files.filter((file) => file.submissionId === submission.id),
+  }));
+};
+
+const courseFromSubmission = async (req: express.Request) => {
+  const submission = await db
+    .select({ courseId: lessons.courseId })
+    .from(assignmentSubmissions)
+    .innerJoin(lessons, eq(assignmentSubmissions.lessonId, lessons.id))
+    .where(eq(assignmentSubmissions.id, req.params.id))
+    .limit(1);
+
+  return submission[0]?.courseId;
+};
+
+// Hand in an assignment. Files are uploaded beforehand with POST /uploads.
+// A new submission is only accepted once the previous one needs revision.
+submissionRoutes.post(
+  '/lessons/:id/submissions',
+  requireAuth,
+  validate(submissionInputSchema),
+  async (req, res) => {
+    const userId = req.user!.id;
+    const lesson = await db
+      .select({ id: lessons.id, courseId: lessons.courseId, type: lessons.type })
+      .from(lessons)
+      .where(eq(lessons.id, req.params.id))
+      .limit(1);
+
+    if (!lesson.length) {
+      throw new NotFoundError('Lesson not found');
+    }
+
+    if (lesson[0].type !== 'assignment') {
+      throw new ConflictError('Only assignment lessons take submissions', {
+        code: 'NOT_AN_ASSIGNMENT_LESSON',
+      });
+    }
+
+    const enrollmentId = await requireEnrollmentId(userId, lesson[0].courseId);
+    await requireUnlocked(userId, lesson[0].id);
+
+    const previous = await db
+      .select({ status: assignmentSubmissions.status })
+      .from(assignmentSubmissions)
+      .where(
+        and(
+          eq(assignmentSubmissions.lessonId, lesson[0].id),
+          eq(assignmentSubmissions.userId, userId)
+        )
+      );
+
+    if (previous.some((submission) => submission.status === 'passed')) {
+      throw new ConflictError('You have already passed this assignment', {
+        code: 'ASSIGNMENT_ALREADY_PASSED',
+      });
+    }
+    const pending = () =>
+      new ConflictError('Your previous submission is still waiting to be graded', {
+        code: 'SUBMISSION_PENDING',
+      });
+    if (previous.some((submission) => submission.status === 'submitted')) {
+      throw pending();
+    }
+
+    const { text, links, fileIds = [] } = req.body;
+
+    const submission = await db.transaction(async (tx) => {
+      // A submission sent at the same time got in first
+      const [created] = await tx
+        .insert(assignmentSubmissions)
+        .values({ id: createId(), lessonId: lesson[0].id, userId, enrollmentId, text, links })
+        .onConflictDoNothing()
+        .returning();
+
+      if (!created) {
+        throw pending();
+      }
+
+      if (fileIds.length) {
+        const attached = await tx
+          .update(uploads)
+          .set({ submissionId: created.id })
+          .where(
+            and(
+              inArray(uploads.id, fileIds),
+              eq(uploads.userId, userId),
+              isNull(uploads.submissionId)
+            )
+          )
+          .returning({ id: uploads.id });
+
+        if (attached.length !== new Set(fileIds).size) {
+          const message = 'Must be files you uploaded that are not part of another submission';
+          throw new ValidationError(`fileIds: ${message}`, {
+            extensions: { fields: [{ field: 'fileIds', message }] },
+          });
+        }
+      }
+
+      return created;
+    });
+
+    const [created] = await withFiles([submission]);
+    res.status(201).json(created);
+  }
+);
+
+// Your submissions for an assignment, newest first
+submissionRoutes.get('/lessons/:id/submissions', requireAuth, async (req, res) => {
+  const submissions = await db
+    .select()
+    .from(assignmentSubmissions)
+    .where(
+      and(
+        eq(assignmentSubmissions.lessonId, req.params.id),
+        eq(assignmentSubmissions.userId, req.user!.id)
+      )
+    )
+    .orderBy(desc(assignmentSubmissions.createdAt));
+
+  res.json(await withFiles(submissions));
+});
+
+// The grading queue: submissions to your courses, oldest first. Admins see
+// every course. `?status=` defaults to `submitted`; `all` includes graded ones.
+submissionRoutes.get(
+  '/instructor/submissions',
+  requireRole('instructor', 'admin'),
+  async (req, res) => {
+    const { status = 'submitted', courseId } = req.query;
+    const limit = parseLimit(req.query.limit, MAX_QUEUE_PAGE_SIZE) ?? QUEUE_PAGE_SIZE;
+
+    if (status !== 'all' && !SUBMISSION_STATUSES.includes(status as SubmissionStatus)) {
+      throw new ValidationError(
+        `status: Must be one of ${[...SUBMISSION_STATUSES, 'all'].join(', ')}`
+      );
+    }
+    if (Number.isNaN(limit)) {
+      throw new ValidationError('limit: Must be a positive integer');
+    }
+
+    const conditions: SQL[] = [];
+    if (status !== 'all') {
+      conditions.push(eq(assignmentSubmissions.status, status as SubmissionStatus));
+    }
+    if (typeof courseId === 'string') {
+      conditions.push(eq(lessons.courseId, courseId));
+    }
+    if (req.user!.role !== 'admin') {
+      conditions.push(eq(courses.instructorId, req.user!.id));
+    }
+
+    const submissions = await db
+      .select({
+        submission: assignmentSubmissions,
+        lesson: { id: lessons.id, title: lessons.title },
+        course: { id: courses.id, title: courses.title },
+        student: { id: users.id, name: users.name, email: users.email },
+      })
+      .from(assignmentSubmissions)
+      .innerJoin(lessons, eq(assignmentSubmissions.lessonId, lessons.id))
+      .innerJoin(courses, eq(lessons.courseId, courses.id))
+      .innerJoin(users, eq(assignmentSubmissions.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(asc(assignmentSubmissions.createdAt), asc(assignmentSubmissions.id))
+      .limit(limit);
+
+    res.json(
+      await withFiles(
+        submissions.map(({ submission, ...context }) => ({ ...submission, ...context }))
+      )
+    );
+  }
+);
+
+// Grade a submission. Passing completes the lesson for the student; either
+// way they get a notification with the feedback.
+submissionRoutes.post(
+  '/instructor/submissions/:id/grade',
+  requireRole('instructor', 'admin'),
+  requireCourseOwner(courseFromSubmission),
+  validate(submissionGradeSchema),
+  async (req, res) => {
+    const { grade, feedback } = req.body;
+
+    const existing = await db
+      .select({
+        submission: assignmentSubmissions,
+        lesson: { title: lessons.title, courseId: lessons.courseId },
+      })
+      .from(assignmentSubmissions)
+      .innerJoin(lessons, eq(assignmentSubmissions.lessonId, lessons.id))
+      .where(eq(assignmentSubmissions.id, req.params.id))
+      .limit(1);
+
+    if (!existing.length) {
+      throw new NotFoundError('Submission not found');
+    }
+
+    const { submission, lesson } = existing[0];
+    const passed = grade >= PASSING_GRADE;
+
+    // Only pending submissions, so two graders can't both grade one
+    const updated = await db
+      .update(assignmentSubmissions)
+      .set({
+        status: passed ? 'passed' : 'needs_revision',
+        grade,
+        feedback,
+        gradedBy: req.user!.id,
+        gradedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(assignmentSubmissions.id, submission.id),
+          eq(assignmentSubmissions.status, 'submitted')
+        )
+      )
+      .returning();
+
+    if (!updated.length) {
+      throw new ConflictError('This submission has already been graded', {
+        code: 'SUBMISSION_ALREADY_GRADED',
+      });
+    }
+
+    if (passed) {
+      await completeLesson(submission.userId, submission.lessonId, submission.enrollmentId);
+    }
+
+    await notify(submission.userId, {
+      type: 'submission_graded',
+      title: passed
+        ? `Your assignment "${lesson.title}" passed`
+        : `Your assignment "${lesson.title}" needs revision`,
+      body: feedback ? `Grade: ${grade}%. ${feedback}` : `Grade: ${grade}%`,
+      link: `/courses/${lesson.courseId}?lesson=${submission.lessonId}`,
+    });
+
+    const [graded] = await withFiles(updated);
+    res.json(graded);
+  }
+);
@@ -0,0 +1,65 @@
+import { and, inArray, isNull, lt } from 'drizzle-orm';
+import { db } from '../../../db';
+import { uploads } from '../../../db/schema';
+import { listFilesBefore, removeFile } from '../../lib/storage';
+
+// Files uploaded for a submission that is never handed in are removed after
+// a day, and each user can only have so many waiting at a time
+const UNATTACHED_UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+export const MAX_UNATTACHED_UPLOADS = 20;
+
+// Files are stored before their row is inserted, so younger files without a
+// row may still be on their way in
+const ORPHANED_FILE_GRACE_MS = 60 * 60 * 1000;
+const ORPHAN_LOOKUP_BATCH = 500;
+
+// Everything except where the file is stored on disk
+export const uploadColumns = {
+  id: uploads.id,
+  userId: uploads.userId,
+  submissionId: uploads.submissionId,
+  filename: uploads.filename,
+  contentType: uploads.contentType,
+  size: uploads.size,
+  createdAt: uploads.createdAt,
+};
+
+// Deletes expired uploads that aren't part of a submission, rows and files.
+// Returns how many were removed.
+export const removeUnattachedUploads = async () => {
+  const removed = await db
+    .delete(uploads)
+    .where(
+      and(
+        isNull(uploads.submissionId),
+        lt(uploads.createdAt, new Date(Date.now() - UNATTACHED_UPLOAD_TTL_MS))
+      )
+    )
+    .returning({ storageKey: uploads.storageKey });
+
+  await Promise.all(removed.map(({ storageKey }) => removeFile(storageKey)));
+  return removed.length;
+};
+
+// Deletes stored files that no upload refers to anymore, e.g. the files of
+// submissions removed with their enrollment or lesson, whose uploads the
+// database deletes along with them. Returns how many were removed.
+export const removeOrphanedFiles = async () => {
+  const keys = await listFilesBefore(new Date(Date.now() - ORPHANED_FILE_GRACE_MS));
+  let removed = 0;
+
+  for (let i = 0; i < keys.length; i += ORPHAN_LOOKUP_BATCH) {
+    const batch = keys.slice(i, i + ORPHAN_LOOKUP_BATCH);
+    const known = await db
+      .select({ storageKey: uploads.storageKey })
+      .from(uploads)
+      .where(inArray(uploads.storageKey, batch));
+    const knownKeys = new Set(known.map(({ storageKey }) => storageKey));
+    const orphaned = batch.filter((key) => !knownKeys.has(key));
+
+    await Promise.all(orphaned.map(removeFile));
+    removed += orphaned.length;
+  }
+
+  return removed;
+};
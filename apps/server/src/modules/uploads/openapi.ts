@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { bearerAuth, idParams, json, problems } from '../../lib/openapi';
+import { uploadSchema } from '../../../db/validation';
+
+export const registerUploadPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'post',
+    path: '/uploads',
+    tags: ['Uploads'],
+    summary: 'Upload a file to attach to an assignment submission',
+    description:
+      'The request body is the file itself, at most 10 MB. Files that are not part of a ' +
+      'submission a day later are removed, and at most 20 can be waiting.',
+    security: bearerAuth,
+    request: {
+      query: z.object({ filename: z.string().openapi({ example: 'report.pdf' }) }),
+      body: {
+        content: { 'application/octet-stream': { schema: z.string().openapi({ format: 'binary' }) } },
+      },
+    },
+    responses: {
+      201: json(uploadSchema, 'The stored file'),
+      ...problems(400, 401, 409, 413),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/uploads/{id}',
+    tags: ['Uploads'],
+    summary: "Download a file you uploaded or one submitted to a course you instruct",
+    security: bearerAuth,
+    request: { params: idParams },
+    responses: {
+      200: {
+        description: 'The file, as an attachment',
+        content: { 'application/octet-stream': { schema: z.string().openapi({ format: 'binary' }) } },
+      },
+      ...problems(401, 403, 404),
+    },
+  });
+};
@@ -0,0 +1,94 @@
+import express from 'express';
+import { and, eq, isNull, sql } from 'drizzle-orm';
+import { createId } from '@paralleldrive/cuid2';
+import { db } from '../../../db';
+import { assignmentSubmissions, courses, lessons, uploads } from '../../../db/schema';
+import { requireAuth } from '../../middleware/auth';
+import { MAX_UPLOAD_BYTES, readFile, storeFile } from '../../lib/storage';
+import { MAX_UNATTACHED_UPLOADS, uploadColumns } from './files';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../lib/errors';
+
+export const uploadRoutes = express.Router();
+
+// Uploads send the file itself as the request body. index.ts mounts this
+// ahead of express.json() so JSON files are stored rather than parsed.
+export const uploadBodyParser = express.raw({ type: () => true, limit: MAX_UPLOAD_BYTES });
+
+// Upload a file to attach to an assignment submission. The name goes in
+// `?filename=` and the type in the Content-Type header. Files not submitted
+// within a day are removed, see removeUnattachedUploads.
+uploadRoutes.post('/uploads', requireAuth, async (req, res) => {
+  const filename = typeof req.query.filename === 'string' ? req.query.filename.trim() : '';
+  if (!filename || filename.length > 255) {
+    throw new ValidationError('filename: Must be between 1 and 255 characters', {
+      extensions: { fields: [{ field: 'filename', message: 'Must be between 1 and 255 characters' }] },
+    });
+  }
+
+  if (!Buffer.isBuffer(req.body) || !req.body.length) {
+    throw new ValidationError('Send the file as the request body', { code: 'EMPTY_UPLOAD' });
+  }
+
+  const [{ unattached }] = await db
+    .select({ unattached: sql<number>`count(*)::int` })
+    .from(uploads)
+    .where(and(eq(uploads.userId, req.user!.id), isNull(uploads.submissionId)));
+
+  if (unattached >= MAX_UNATTACHED_UPLOADS) {
+    throw new ConflictError(
+      `You already have ${MAX_UNATTACHED_UPLOADS} files that aren't part of a submission`,
+      { code: 'UPLOAD_LIMIT_REACHED' }
+    );
+  }
+
+  const storageKey = await storeFile(req.body);
+
+  const [upload] = await db
+    .insert(uploads)
+    .values({
+      id: createId(),
+      userId: req.user!.id,
+      filename,
+      contentType: req.get('Content-Type') || 'application/octet-stream',
+      size: req.body.length,
+      storageKey,
+    })
+    .returning(uploadColumns);
+
+  res.status(201).json(upload);
+});
+
+// Download a file. Available to the uploader, admins and the instructor of
+// the course the file was submitted to.
+uploadRoutes.get('/uploads/:id', requireAuth, async (req, res) => {
+  const upload = await db
+    .select({
+      userId: uploads.userId,
+      filename: uploads.filename,
+      contentType: uploads.contentType,
+      storageKey: uploads.storageKey,
+      instructorId: courses.instructorId,
+    })
+    .from(uploads)
+    .leftJoin(assignmentSubmissions, eq(uploads.submissionId, assignmentSubmissions.id))
+    .leftJoin(lessons, eq(assignmentSubmissions.lessonId, lessons.id))
+    .leftJoin(courses, eq(lessons.courseId, courses.id))
+    .where(eq(uploads.id, req.params.id))
+    .limit(1);
+
+  if (!upload.length) {
+    throw new NotFoundError('File not found');
+  }
+
+  const { user } = req;
+  const file = upload[0];
+  if (user!.role !== 'admin' && user!.id !== file.userId && user!.id !== file.instructorId) {
+    throw new ForbiddenError('You cannot access this file');
+  }
+
+  res.attachment(file.filename);
+  res.type(file.contentType);
+  readFile(file.storageKey)
+    .on('error', (err) => res.destroy(err))
+    .pipe(res);
+});
@@ -0,0 +1,181 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import {
+  bearerAuth,
+  idParams,
+  json,
+  keysetQuery,
+  nextCursorHeader,
+  problems,
+} from '../../lib/openapi';
+import {
+  certificateSchema,
+  courseSchema,
+  enrollmentSchema,
+  favoriteCreateSchema,
+  favoriteSchema,
+  profileUpdateSchema,
+  userCreateSchema,
+  userProfileSchema,
+} from '../../../db/validation';
+import { enrolledCourseSchema } from '../enrollments/openapi';
+
+const myEnrollmentSchema = enrollmentSchema
+  .extend({
+    course: enrolledCourseSchema,
+    completedLessons: z.number().int(),
+  })
+  .openapi('MyEnrollment');
+
+const userSummarySchema = userProfileSchema
+  .omit({ updatedAt: true })
+  .extend({
+    stats: z.object({
+      enrollmentCount: z.number().int(),
+      completedCourses: z.number().int(),
+      certificateCount: z.number().int(),
+    }),
+  })
+  .openapi('UserSummary');
+
+const learningStatsSchema = z
+  .object({
+    totalEnrollments: z.number().int(),
+    completedCourses: z.number().int(),
+    totalTimeSpent: z.number().int().openapi({ description: 'Seconds' }),
+    lessonsCompleted: z.number().int(),
+    currentStreak: z.number().int().openapi({ description: 'Days in a row with activity' }),
+    recentActivity: z.number().int().openapi({ description: 'Active days, up to 30' }),
+  })
+  .openapi('LearningStats');
+
+export const registerUserPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/me',
+    tags: ['Users'],
+    summary: 'Get your profile',
+    security: bearerAuth,
+    responses: {
+      200: json(userProfileSchema, 'Your profile'),
+      ...problems(401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'put',
+    path: '/me',
+    tags: ['Users'],
+    summary: 'Update your profile',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: profileUpdateSchema } } } },
+    responses: {
+      200: json(userProfileSchema, 'Your updated profile'),
+      ...problems(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/me/enrollments',
+    tags: ['Users'],
+    summary: 'List your enrollments, newest first',
+    security: bearerAuth,
+    request: { query: z.object(keysetQuery) },
+    responses: {
+      200: { ...json(z.array(myEnrollmentSchema), 'Enrollments'), headers: nextCursorHeader },
+      ...problems(400, 401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/me/favorites',
+    tags: ['Users'],
+    summary: 'List your favorite courses',
+    security: bearerAuth,
+    responses: {
+      200: json(z.array(favoriteSchema), 'Favorites, newest first'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/me/favorites',
+    tags: ['Users'],
+    summary: 'Add a course to your favorites',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: favoriteCreateSchema } } } },
+    responses: {
+      200: json(favoriteSchema, 'The course was already a favorite'),
+      201: json(favoriteSchema, 'The new favorite'),
+      ...problems(400, 401, 404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/me/favorites/{courseId}',
+    tags: ['Users'],
+    summary: 'Remove a course from your favorites',
+    security: bearerAuth,
+    request: { params: z.object({ courseId: z.string() }) },
+    responses: {
+      200: json(z.object({ success: z.literal(true), courseId: z.string() }), 'Removed'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/me/certificates',
+    tags: ['Users'],
+    summary: 'List your certificates',
+    security: bearerAuth,
+    responses: {
+      200: json(
+        z.array(certificateSchema.extend({ course: courseSchema })),
+        'Certificates, newest first'
+      ),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/me/stats',
+    tags: ['Users'],
+    summary: 'Get your learning statistics',
+    security: bearerAuth,
+    responses: {
+      200: json(learningStatsSchema, 'Statistics'),
+      ...problems(401),
+    },
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/users/{id}',
+    tags: ['Users'],
+    summary: 'Get a user with their statistics',
+    request: { params: idParams },
+    responses: {
+      200: json(userSummarySchema, 'The user'),
+      ...problems(404),
+    },
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/users',
+    tags: ['Users'],
+    summary: 'Create a user. Only admins can create instructors and admins.',
+    security: bearerAuth,
+    request: { body: { content: { 'application/json': { schema: userCreateSchema } } } },
+    responses: {
+      201: json(userProfileSchema, 'The new user'),
+      ...problems(400, 401, 403, 409),
+    },
+  });
+};
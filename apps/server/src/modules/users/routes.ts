@@ -6,273 +6,378 @@ import {
   courses,
   lessonProgress,
   certificates,
+  favorites,
 } from '../../../db/schema';
-import { eq, and, desc, sql } from 'drizzle-orm';
+import { eq, and, desc, isNull, sql } from 'drizzle-orm';
 import { createId } from '@paralleldrive/cuid2';
+import { requireAuth, requireRole } from '../../middleware/auth';
+import { validate } from '../../middleware/validate';
+import {
+  favoriteCreateSchema,
+  profileUpdateSchema,
+  userCreateSchema,
+} from '../../../db/validation';
+import {
+  NEXT_CURSOR_HEADER,
+  afterKeysetCursor,
+  decodeKeysetCursor,
+  encodeKeysetCursor,
+  keysetCursorKey,
+  parseLimit,
+} from '../../lib/pagination';
+import { ConflictError, ForbiddenError, NotFoundError, ValidationError } from '../../lib/errors';
 
 export const userRoutes = express.Router();
 
-// Get current user profile (mock auth - uses hardcoded user ID)
-userRoutes.get('/me', async (req, res) => {
-  try {
-    // In a real app, we'd get this from the auth token
-    const userId = 'demo-user-id';
+// Everything except the password hash
+const profileColumns = {
+  id: users.id,
+  email: users.email,
+  name: users.name,
+  role: users.role,
+  avatarUrl: users.avatarUrl,
+  bio: users.bio,
+  createdAt: users.createdAt,
+  updatedAt: users.updatedAt,
+};
+
+// Get current user profile
+userRoutes.get('/me', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+
+  const user = await db
+    .select(profileColumns)
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user.length) {
+    throw new NotFoundError('User not found');
+  }
 
-    const user = await db
-      .select()
-      .from(users)
-      .where(eq(users.id, userId))
-      .limit(1);
+  res.json(user[0]);
+});
 
-    if (!user.length) {
-      // Create a demo user if not exists
-      const newUser = await db
-        .insert(users)
-        .values({
-          id: userId,
-          email: 'demo@example.com',
-          name: 'Demo User',
-          role: 'student',
-        })
-        .returning();
-
-      res.json(newUser[0]);
-      return;
-    }
+// Update user profile
+userRoutes.put('/me', requireAuth, validate(profileUpdateSchema), async (req, res) => {
+  const userId = req.user!.id;
+
+  const updated = await db
+    .update(users)
+    .set({
+      ...req.body,
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, userId))
+    .returning(profileColumns);
+
+  if (!updated.length) {
+    throw new NotFoundError('User not found');
+  }
 
-    res.json(user[0]);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+  res.json(updated[0]);
+});
+
+const ENROLLMENT_PAGE_SIZE = 20;
+const MAX_ENROLLMENT_PAGE_SIZE = 100;
+
+// Completed lessons are counted in the same query rather than per enrollment
+const completedLessonCount = sql<number>`(
+  select count(*)::int from ${lessonProgress}
+  where ${lessonProgress.enrollmentId} = ${enrollments.id}
+    and ${lessonProgress.completedAt} is not null
+)`;
+
+// Get user's enrollments. Supports the same `limit`/`cursor` paging as
+// GET /courses, with the next cursor in the X-Next-Cursor header.
+userRoutes.get('/me/enrollments', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+
+  const cursor =
+    typeof req.query.cursor === 'string' ? decodeKeysetCursor(req.query.cursor) : null;
+  if (req.query.cursor && !cursor) {
+    throw new ValidationError('Invalid cursor');
+  }
+
+  let limit = parseLimit(req.query.limit, MAX_ENROLLMENT_PAGE_SIZE);
+  if (Number.isNaN(limit)) {
+    throw new ValidationError('limit must be a positive integer');
   }
+  if (cursor && limit === undefined) limit = ENROLLMENT_PAGE_SIZE;
+
+  const query = db
+    .select({
+      enrollment: enrollments,
+      course: courses,
+      instructor: users.name,
+      completedLessons: completedLessonCount,
+      cursorKey: keysetCursorKey(enrollments.enrolledAt),
+    })
+    .from(enrollments)
+    .innerJoin(courses, eq(enrollments.courseId, courses.id))
+    .innerJoin(users, eq(courses.instructorId, users.id))
+    .where(
+      and(
+        eq(enrollments.userId, userId),
+        cursor ? afterKeysetCursor(enrollments.enrolledAt, enrollments.id, cursor) : undefined
+      )
+    )
+    .orderBy(desc(enrollments.enrolledAt), desc(enrollments.id))
+    .$dynamic();
+
+  const rows = limit === undefined ? await query : await query.limit(limit + 1);
+  const hasMore = limit !== undefined && rows.length > limit;
+  const page = hasMore ? rows.slice(0, limit) : rows;
+
+  const last = page[page.length - 1];
+  if (hasMore && last) {
+    res.set(
+      NEXT_CURSOR_HEADER,
+      encodeKeysetCursor({ at: last.cursorKey, id: last.enrollment.id })
+    );
+  }
+
+  res.json(
+    page.map((e) => ({
+      ...e.enrollment,
+      course: {
+        ...e.course,
+        instructor: e.instructor,
+      },
+      completedLessons: e.completedLessons,
+    }))
+  );
 });
 
-// Update user profile
-userRoutes.put('/me', async (req, res) => {
-  try {
-    // In a real app, we'd get this from the auth token
-    const userId = 'demo-user-id';
-
-    const updated = await db
-      .update(users)
-      .set({
-        ...req.body,
-        updatedAt: new Date(),
-      })
-      .where(eq(users.id, userId))
-      .returning();
+// Get the courses the user has favorited
+userRoutes.get('/me/favorites', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
 
-    if (!updated.length) {
-      res.status(404).json({ error: 'User not found' });
-      return;
-    }
+  const userFavorites = await db
+    .select({
+      courseId: favorites.courseId,
+      createdAt: favorites.createdAt,
+    })
+    .from(favorites)
+    .where(eq(favorites.userId, userId))
+    .orderBy(desc(favorites.createdAt));
 
-    res.json(updated[0]);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
-  }
+  res.json(userFavorites);
 });
 
-// Get user's enrollments
-userRoutes.get('/me/enrollments', async (req, res) => {
-  try {
-    // In a real app, we'd get this from the auth token
-    const userId = 'demo-user-id';
+// Add a course to the user's favorites (adding one twice is a no-op)
+userRoutes.post('/me/favorites', requireAuth, validate(favoriteCreateSchema), async (req, res) => {
+  const userId = req.user!.id;
+  const { courseId } = req.body;
 
-    const userEnrollments = await db
-      .select({
-        enrollment: enrollments,
-        course: courses,
-        instructor: users.name,
-      })
-      .from(enrollments)
-      .innerJoin(courses, eq(enrollments.courseId, courses.id))
-      .innerJoin(users, eq(courses.instructorId, users.id))
-      .where(eq(enrollments.userId, userId))
-      .orderBy(desc(enrollments.enrolledAt));
-
-    // Get progress for each enrollment
-    const enrollmentsWithProgress = await Promise.all(
-      userEnrollments.map(async (e) => {
-        const progress = await db
-          .select({
-            lessonId: lessonProgress.lessonId,
-            completedAt: lessonProgress.completedAt,
-          })
-          .from(lessonProgress)
-          .where(eq(lessonProgress.enrollmentId, e.enrollment.id));
-
-        return {
-          ...e.enrollment,
-          course: {
-            ...e.course,
-            instructor: e.instructor,
-          },
-          completedLessons: progress.filter((p) => p.completedAt).length,
-        };
-      })
-    );
+  const course = await db
+    .select({ id: courses.id })
+    .from(courses)
+    .where(eq(courses.id, courseId))
+    .limit(1);
 
-    res.json(enrollmentsWithProgress);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+  if (!course.length) {
+    throw new NotFoundError('Course not found');
   }
-});
 
-// Get user by ID (for instructors/admin)
-userRoutes.get('/users/:id', async (req, res) => {
-  try {
-    const { id } = req.params;
+  const inserted = await db
+    .insert(favorites)
+    .values({ id: createId(), userId, courseId })
+    .onConflictDoNothing({ target: [favorites.userId, favorites.courseId] })
+    .returning({
+      courseId: favorites.courseId,
+      createdAt: favorites.createdAt,
+    });
 
-    const user = await db
+  if (!inserted.length) {
+    const existing = await db
       .select({
-        id: users.id,
-        name: users.name,
-        email: users.email,
-        role: users.role,
-        bio: users.bio,
-        avatarUrl: users.avatarUrl,
-        createdAt: users.createdAt,
+        courseId: favorites.courseId,
+        createdAt: favorites.createdAt,
       })
-      .from(users)
-      .where(eq(users.id, id))
+      .from(favorites)
+      .where(and(eq(favorites.userId, userId), eq(favorites.courseId, courseId)))
       .limit(1);
 
-    if (!user.length) {
-      res.status(404).json({ error: 'User not found' });
-      return;
-    }
-
-    // Get user statistics
-    const stats = await db
-      .select({
-        enrollmentCount: sql<number>`count(distinct ${enrollments.id})`,
-        completedCourses: sql<number>`count(distinct case when ${enrollments.completedAt} is not null then ${enrollments.id} end)`,
-        certificateCount: sql<number>`count(distinct ${certificates.id})`,
-      })
-      .from(users)
-      .leftJoin(enrollments, eq(users.id, enrollments.userId))
-      .leftJoin(certificates, eq(users.id, certificates.userId))
-      .where(eq(users.id, id))
-      .groupBy(users.id);
-
-    res.json({
-      ...user[0],
-      stats: stats[0] || {
-        enrollmentCount: 0,
-        completedCourses: 0,
-        certificateCount: 0,
-      },
-    });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.json(existing[0]);
+    return;
   }
+
+  res.status(201).json(inserted[0]);
 });
 
-// Get user's certificates
-userRoutes.get('/me/certificates', async (req, res) => {
-  try {
-    // In a real app, we'd get this from the auth token
-    const userId = 'demo-user-id';
+// Remove a course from the user's favorites
+userRoutes.delete('/me/favorites/:courseId', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
 
-    const userCertificates = await db
-      .select({
-        certificate: certificates,
-        course: courses,
-      })
-      .from(certificates)
-      .innerJoin(courses, eq(certificates.courseId, courses.id))
-      .where(eq(certificates.userId, userId))
-      .orderBy(desc(certificates.issuedAt));
-
-    const result = userCertificates.map((c) => ({
-      ...c.certificate,
-      course: c.course,
-    }));
-
-    res.json(result);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+  await db
+    .delete(favorites)
+    .where(and(eq(favorites.userId, userId), eq(favorites.courseId, req.params.courseId)));
+
+  res.json({ success: true, courseId: req.params.courseId });
+});
+
+// Get user by ID (for instructors/admin)
+userRoutes.get('/users/:id', async (req, res) => {
+  const { id } = req.params;
+
+  const user = await db
+    .select({
+      id: users.id,
+      name: users.name,
+      email: users.email,
+      role: users.role,
+      bio: users.bio,
+      avatarUrl: users.avatarUrl,
+      createdAt: users.createdAt,
+    })
+    .from(users)
+    .where(eq(users.id, id))
+    .limit(1);
+
+  if (!user.length) {
+    throw new NotFoundError('User not found');
   }
+
+  // Get user statistics
+  const stats = await db
+    .select({
+      enrollmentCount: sql<number>`count(distinct ${enrollments.id})::int`,
+      completedCourses: sql<number>`count(distinct case when ${enrollments.completedAt} is not null then ${enrollments.id} end)::int`,
+      certificateCount: sql<number>`count(distinct ${certificates.id})::int`,
+    })
+    .from(users)
+    .leftJoin(enrollments, eq(users.id, enrollments.userId))
+    .leftJoin(
+      certificates,
+      and(eq(users.id, certificates.userId), isNull(certificates.revokedAt))
+    )
+    .where(eq(users.id, id))
+    .groupBy(users.id);
+
+  res.json({
+    ...user[0],
+    stats: stats[0] || {
+      enrollmentCount: 0,
+      completedCourses: 0,
+      certificateCount: 0,
+    },
+  });
 });
 
-// Get user's learning statistics
-userRoutes.get('/me/stats', async (req, res) => {
-  try {
-    // In a real app, we'd get this from the auth token
-    const userId = 'demo-user-id';
+// Get user's certificates
+userRoutes.get('/me/certificates', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+
+  const userCertificates = await db
+    .select({
+      certificate: certificates,
+      course: courses,
+    })
+    .from(certificates)
+    .innerJoin(courses, eq(certificates.courseId, courses.id))
+    .where(and(eq(certificates.userId, userId), isNull(certificates.revokedAt)))
+    .orderBy(desc(certificates.issuedAt));
+
+  const result = userCertificates.map((c) => ({
+    ...c.certificate,
+    course: c.course,
+  }));
+
+  res.json(result);
+});
 
-    // Get overall statistics
-    const overallStats = await db
-      .select({
-        totalEnrollments: sql<number>`count(distinct ${enrollments.id})`,
-        completedCourses: sql<number>`count(distinct case when ${enrollments.completedAt} is not null then ${enrollments.id} end)`,
-        totalTimeSpent: sql<number>`coalesce(sum(${lessonProgress.timeSpent}), 0)`,
-        lessonsCompleted: sql<number>`count(distinct case when ${lessonProgress.completedAt} is not null then ${lessonProgress.id} end)`,
-      })
-      .from(enrollments)
-      .leftJoin(
-        lessonProgress,
-        and(
-          eq(lessonProgress.enrollmentId, enrollments.id),
-          eq(lessonProgress.userId, userId)
-        )
+// Get user's learning statistics
+userRoutes.get('/me/stats', requireAuth, async (req, res) => {
+  const userId = req.user!.id;
+
+  // Get overall statistics
+  const overallStats = await db
+    .select({
+      totalEnrollments: sql<number>`count(distinct ${enrollments.id})::int`,
+      completedCourses: sql<number>`count(distinct case when ${enrollments.completedAt} is not null then ${enrollments.id} end)::int`,
+      totalTimeSpent: sql<number>`coalesce(sum(${lessonProgress.timeSpent}), 0)::int`,
+      lessonsCompleted: sql<number>`count(distinct case when ${lessonProgress.completedAt} is not null then ${lessonProgress.id} end)::int`,
+    })
+    .from(enrollments)
+    .leftJoin(
+      lessonProgress,
+      and(
+        eq(lessonProgress.enrollmentId, enrollments.id),
+        eq(lessonProgress.userId, userId)
       )
-      .where(eq(enrollments.userId, userId));
-
-    // Get learning streak (days in a row with activity)
-    const activityDays = await db
-      .select({
-        date: sql<string>`date(${lessonProgress.updatedAt})`,
-      })
-      .from(lessonProgress)
-      .where(eq(lessonProgress.userId, userId))
-      .groupBy(sql`date(${lessonProgress.updatedAt})`)
-      .orderBy(desc(sql`date(${lessonProgress.updatedAt})`))
-      .limit(30);
-
-    // Calculate current streak
-    let currentStreak = 0;
-    const today = new Date();
-    const dates = activityDays.map((d) => new Date(d.date));
-
-    for (let i = 0; i < dates.length; i++) {
-      const expectedDate = new Date(today);
-      expectedDate.setDate(today.getDate() - i);
-
-      if (dates[i].toDateString() === expectedDate.toDateString()) {
-        currentStreak++;
-      } else {
-        break;
-      }
+    )
+    .where(eq(enrollments.userId, userId));
+
+  // Get learning streak (days in a row with activity)
+  const activityDays = await db
+    .select({
+      date: sql<string>`date(${lessonProgress.updatedAt})`,
+    })
+    .from(lessonProgress)
+    .where(eq(lessonProgress.userId, userId))
+    .groupBy(sql`date(${lessonProgress.updatedAt})`)
+    .orderBy(desc(sql`date(${lessonProgress.updatedAt})`))
+    .limit(30);
+
+  // Calculate current streak
+  let currentStreak = 0;
+  const today = new Date();
+  const dates = activityDays.map((d) => new Date(d.date));
+
+  for (let i = 0; i < dates.length; i++) {
+    const expectedDate = new Date(today);
+    expectedDate.setDate(today.getDate() - i);
+
+    if (dates[i].toDateString() === expectedDate.toDateString()) {
+      currentStreak++;
+    } else {
+      break;
     }
-
-    res.json({
-      ...overallStats[0],
-      currentStreak,
-      recentActivity: activityDays.length,
-    });
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
   }
+
+  res.json({
+    ...overallStats[0],
+    currentStreak,
+    recentActivity: activityDays.length,
+  });
 });
 
-// Create new user (for registration - mock implementation)
-userRoutes.post('/users', async (req, res) => {
-  try {
+// Create new user (for instructors/admin - self sign-up goes through
+// POST /api/auth/register). Only admins can create staff accounts.
+userRoutes.post(
+  '/users',
+  requireRole('instructor', 'admin'),
+  validate(userCreateSchema),
+  async (req, res) => {
+    const { email, name, role = 'student' } = req.body;
+
+    if (role !== 'student' && req.user!.role !== 'admin') {
+      throw new ForbiddenError('Only admins can create instructor or admin accounts');
+    }
+
+    const existing = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(eq(users.email, email))
+      .limit(1);
+
+    if (existing.length) {
+      throw new ConflictError('A user with this email already exists');
+    }
+
     const userId = createId();
 
     const newUser = await db
       .insert(users)
       .values({
         id: userId,
-        email: req.body.email,
-        name: req.body.name,
-        role: req.body.role || 'student',
+        email,
+        name,
+        role,
       })
-      .returning();
+      .returning(profileColumns);
 
-    res.json(newUser[0]);
-  } catch (error: any) {
-    res.status(500).json({ error: error.message });
+    res.status(201).json(newUser[0]);
   }
-});
+);
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import type { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { problems } from '../../lib/openapi';
+
+export const registerVideoPaths = (registry: OpenAPIRegistry) => {
+  registry.registerPath({
+    method: 'get',
+    path: '/videos/{filename}',
+    tags: ['Lessons'],
+    summary: 'Stream a lesson video',
+    description:
+      'Use the signed `videoUrl` of the lesson, which is only handed to callers who may open ' +
+      'it and expires after a few hours. Supports `Range` requests so players can seek and resume.',
+    request: {
+      params: z.object({ filename: z.string().openapi({ example: 'intro.mp4' }) }),
+      query: z.object({ token: z.string() }),
+      headers: z.object({
+        range: z.string().optional().openapi({ example: 'bytes=0-1048575' }),
+      }),
+    },
+    responses: {
+      200: {
+        description: 'The whole video',
+        content: { 'video/*': { schema: z.string().openapi({ format: 'binary' }) } },
+      },
+      206: {
+        description: 'The requested range of the video',
+        content: { 'video/*': { schema: z.string().openapi({ format: 'binary' }) } },
+      },
+      ...problems(403, 404, 416),
+    },
+  });
+};
@@ -0,0 +1,60 @@
+import path from 'path';
+import express from 'express';
+import { VIDEO_DIR } from '../../lib/storage';
+import { AppError, ForbiddenError, NotFoundError } from '../../lib/errors';
+import { isValidVideoToken } from './signing';
+
+export const videoRoutes = express.Router();
+
+// Served types by extension; other files in VIDEO_DIR are not served
+const VIDEO_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogv': 'video/ogg',
+  '.mov': 'video/quicktime',
+};
+
+interface SendError extends Error {
+  status?: number;
+  code?: string;
+  headers?: Record<string, string>;
+}
+
+// Serve a lesson video through the signed link its lesson carries, see
+// signVideoUrl. sendFile answers Range requests with 206 partial content,
+// which players need to seek and to resume from the saved position without
+// downloading the whole file.
+videoRoutes.get('/videos/:filename', async (req, res) => {
+  const type = VIDEO_TYPES[path.extname(req.params.filename).toLowerCase()];
+  if (!type) {
+    throw new NotFoundError('Video not found');
+  }
+  if (!isValidVideoToken(req.query.token, req.params.filename)) {
+    throw new ForbiddenError('This video link is not valid or has expired, reload the lesson', {
+      code: 'VIDEO_LINK_INVALID',
+    });
+  }
+
+  res.type(type);
+  await new Promise<void>((resolve, reject) => {
+    res.sendFile(
+      req.params.filename,
+      { root: VIDEO_DIR, dotfiles: 'deny', maxAge: '1d' },
+      (err) => (err ? reject(err) : resolve())
+    );
+  }).catch((err: SendError) => {
+    // The player closed the connection, e.g. to request another range
+    if (err.code === 'ECONNABORTED' || res.headersSent) {
+      return;
+    }
+    if (err.status === 416) {
+      res.set(err.headers);
+      throw new AppError(416, 'RANGE_NOT_SATISFIABLE', 'The requested range is outside the video');
+    }
+    if (err.status === 403 || err.status === 404) {
+      throw new NotFoundError('Video not found');
+    }
+    throw err;
+  });
+});
@@ -0,0 +1,36 @@
+import { signJwt, verifyJwt } from '../../lib/tokens';
+
+// Lesson videos served by this API are only reachable through signed links,
+// since players can't send the Authorization header. Lessons get their
+// videoUrl signed on the way out to callers who may open them; the link
+// works for a while for that one file.
+
+const VIDEO_TOKEN_TTL_SECONDS = 6 * 60 * 60;
+
+// `<API_URL>/api/videos/<filename>`, possibly with a stale token attached
+const LOCAL_VIDEO = /^(.*\/api\/videos\/([^/?#]+))(?:[?#].*)?$/;
+
+interface VideoToken {
+  purpose: string;
+  file: string;
+  exp: number;
+}
+
+// Videos hosted elsewhere are left as they are
+export const signVideoUrl = (videoUrl: string | null) => {
+  const match = videoUrl?.match(LOCAL_VIDEO);
+  if (!match) return videoUrl;
+
+  const [, url, filename] = match;
+  const token = signJwt(
+    { purpose: 'video', file: decodeURIComponent(filename) },
+    VIDEO_TOKEN_TTL_SECONDS
+  );
+  return `${url}?token=${token}`;
+};
+
+export const isValidVideoToken = (token: unknown, filename: string) => {
+  if (typeof token !== 'string') return false;
+  const payload = verifyJwt<VideoToken>(token);
+  return payload?.purpose === 'video' && payload.file === filename;
+};
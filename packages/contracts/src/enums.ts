@@ -0,0 +1,35 @@
+// Values of the database enums. apps/server/db/schema.ts builds its pgEnums
+// from these, so the tables, the API and the frontend share one list.
+
+export const USER_ROLES = ['student', 'instructor', 'admin'] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const COURSE_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+export type CourseLevel = (typeof COURSE_LEVELS)[number];
+
+export const COURSE_STATUSES = ['draft', 'in_review', 'published', 'archived'] as const;
+export type CourseStatus = (typeof COURSE_STATUSES)[number];
+
+export const LESSON_TYPES = ['video', 'text', 'quiz', 'assignment'] as const;
+export type LessonType = (typeof LESSON_TYPES)[number];
+
+// single_choice: one correct option. multiple_choice: exactly the correct
+// options. free_text: the response contains one of the accepted keywords.
+export const QUIZ_QUESTION_TYPES = ['single_choice', 'multiple_choice', 'free_text'] as const;
+export type QuizQuestionType = (typeof QUIZ_QUESTION_TYPES)[number];
+
+// Assignment submissions wait in the instructor queue as 'submitted'; grading
+// passes them or sends them back for another submission
+export const SUBMISSION_STATUSES = ['submitted', 'passed', 'needs_revision'] as const;
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+// Orders start 'pending' until the payment provider confirms or declines the
+// charge; paid orders can later be refunded, which revokes the enrollment.
+// They are 'refunding' while the provider returns the money.
+export const ORDER_STATUSES = ['pending', 'paid', 'failed', 'refunding', 'refunded'] as const;
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// percentage: the amount is percent off the price. fixed: money off, in the
+// course currency.
+export const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+export type DiscountType = (typeof DISCOUNT_TYPES)[number];
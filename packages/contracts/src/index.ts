@@ -0,0 +1,71 @@
+import type { components } from './api.schema';
+import type {
+  CourseLevel,
+  CourseStatus,
+  DiscountType,
+  LessonType,
+  OrderStatus,
+  QuizQuestionType,
+  SubmissionStatus,
+  UserRole,
+} from './enums';
+
+export * from './enums';
+export { markdownHeadings } from './markdown';
+export type { components, paths } from './api.schema';
+
+// Request and response shapes from the server's OpenAPI document
+export type Schemas = components['schemas'];
+
+export type UserProfile = Schemas['UserProfile'];
+export type SessionUser = Schemas['SessionUser'];
+export type Course = Schemas['Course'];
+export type CourseListItem = Schemas['CourseListItem'];
+export type CourseDetail = Schemas['CourseDetail'];
+export type Lesson = Schemas['Lesson'];
+export type LessonProgress = Schemas['LessonProgress'];
+export type Quiz = Schemas['Quiz'];
+export type QuizQuestion = Schemas['QuizQuestion'];
+export type QuizAttempt = Schemas['QuizAttempt'];
+export type GradedQuizAttempt = Schemas['GradedQuizAttempt'];
+export type AssignmentSubmission = Schemas['SubmissionWithFiles'];
+export type QueuedSubmission = Schemas['QueuedSubmission'];
+export type Upload = Schemas['Upload'];
+export type Notification = Schemas['Notification'];
+export type Enrollment = Schemas['Enrollment'];
+export type EnrolledCourse = Schemas['EnrolledCourse'];
+export type Review = Schemas['CourseReview'];
+export type Category = Schemas['Category'];
+export type Certificate = Schemas['Certificate'];
+export type LessonNote = Schemas['LessonNote'];
+export type Order = Schemas['Order'];
+export type OrderWithCourse = Schemas['OrderWithCourse'];
+export type OrderQuote = Schemas['OrderQuote'];
+export type Coupon = Schemas['Coupon'];
+export type SearchFacet = Schemas['SearchFacet'];
+export type CourseSearchResponse = Schemas['CourseSearchResponse'];
+export type SearchSuggestion = Schemas['SearchSuggestion'];
+
+// RFC 7807 problem document the API sends for every error. `code` is stable
+// and safe to branch on; `detail` is the human-readable message.
+export type ApiProblem = Schemas['Problem'];
+// Sent with 402 PAYMENT_REQUIRED / 403 ENROLLMENT_REQUIRED for lessons the
+// caller can't open yet
+export type LessonLockedProblem = Schemas['LessonLockedProblem'];
+// Sent with 402 PAYMENT_DECLINED and 409 ORDER_PENDING from POST /orders
+export type OrderProblem = Schemas['OrderProblem'];
+
+// Fails to compile when the generated document and the enums disagree, which
+// means api.schema.ts is stale: run `pnpm api:generate` at the root.
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Expect<T extends true> = T;
+export type EnumsMatchDocument = [
+  Expect<Same<UserRole, UserProfile['role']>>,
+  Expect<Same<CourseLevel, Course['level']>>,
+  Expect<Same<CourseStatus, Course['status']>>,
+  Expect<Same<LessonType, Lesson['type']>>,
+  Expect<Same<QuizQuestionType, QuizQuestion['type']>>,
+  Expect<Same<SubmissionStatus, AssignmentSubmission['status']>>,
+  Expect<Same<OrderStatus, Order['status']>>,
+  Expect<Same<DiscountType, Coupon['discountType']>>,
+];
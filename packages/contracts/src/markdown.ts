@@ -0,0 +1,37 @@
+// Notes can be anchored to a heading of a lesson's markdown content. The
+// anchor is the heading's text as read here, so the server (which only
+// accepts headings the lesson has) and the frontend (which offers them and
+// scrolls to them) agree on what the headings are.
+
+const FENCE = /^ {0,3}(```|~~~)/;
+const ATX_HEADING = /^ {0,3}#{1,6}[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+
+// Plain text of inline markdown: links become their text, emphasis and code
+// markers are dropped
+const plainText = (markdown: string) =>
+  markdown
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`~]/g, '')
+    .trim();
+
+// Headings of a markdown document in order, without duplicates. Lines in
+// fenced code blocks are skipped.
+export const markdownHeadings = (markdown: string | null | undefined): string[] => {
+  const headings: string[] = [];
+  let inFence = false;
+
+  for (const line of (markdown || '').split('\n')) {
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+
+    const match = !inFence && ATX_HEADING.exec(line);
+    const text = match && plainText(match[1]);
+    if (text && !headings.includes(text)) {
+      headings.push(text);
+    }
+  }
+
+  return headings;
+};